@@ -0,0 +1,82 @@
+/**
+ * Scripted fake OpenAI-compatible server for exercising the retry/fallback policy.
+ *
+ * Usage:
+ *   node fake-openai-server.js "429,503,ok"
+ *   LLM_PROVIDER=openai_compatible LLM_BASE_URL=http://127.0.0.1:8787/v1 wrangler dev
+ *
+ * Each POST /v1/chat/completions consumes the next script step; once the script
+ * is exhausted every request succeeds. Steps:
+ *   ok           200 with a canned completion
+ *   <status>     that HTTP status, e.g. 429 or 503
+ *   <status>@<s> that status with `retry-after: <s>`, e.g. 429@2
+ *   timeout      never answers (the worker's per-call timeout must fire)
+ * Prefix a step with `<model>=` to apply it only to requests for that model,
+ * e.g. "gpt-4.1=503,gpt-4.1=503,gpt-4.1=503" exercises the fallback chain
+ * (set LLM_FALLBACK_MODELS, which has no default for openai_compatible).
+ */
+
+const http = require('http');
+
+const PORT = Number(process.env.PORT || 8787);
+const script = (process.argv[2] || process.env.FAKE_OPENAI_SCRIPT || '')
+  .split(',')
+  .map(s => s.trim())
+  .filter(Boolean);
+
+function nextStep(model) {
+  const index = script.findIndex(step => !step.includes('=') || step.startsWith(`${model}=`));
+  if (index === -1) return 'ok';
+  const [step] = script.splice(index, 1);
+  return step.includes('=') ? step.split('=')[1] : step;
+}
+
+function completion(model, text) {
+  return {
+    id: `chatcmpl-fake-${Date.now()}`,
+    object: 'chat.completion',
+    model,
+    choices: [{ index: 0, message: { role: 'assistant', content: text }, finish_reason: 'stop' }],
+    usage: { prompt_tokens: 10, completion_tokens: 10, total_tokens: 20 },
+  };
+}
+
+const server = http.createServer((req, res) => {
+  let raw = '';
+  req.on('data', chunk => { raw += chunk; });
+  req.on('end', () => {
+    if (req.method !== 'POST' || !req.url.endsWith('/chat/completions')) {
+      res.writeHead(404, { 'content-type': 'application/json' });
+      res.end(JSON.stringify({ error: { message: 'not found' } }));
+      return;
+    }
+
+    let body = {};
+    try {
+      body = JSON.parse(raw || '{}');
+    } catch {
+      // Leave body empty; the model is only used for logging and scripting.
+    }
+    const model = body.model || 'unknown';
+    const step = nextStep(model);
+    console.log(`🧪 ${new Date().toISOString()} ${model} -> ${step}`);
+
+    if (step === 'timeout') return; // keep the socket open until the client aborts
+
+    if (step === 'ok') {
+      res.writeHead(200, { 'content-type': 'application/json' });
+      res.end(JSON.stringify(completion(model, `radial_mindmap`)));
+      return;
+    }
+
+    const [status, retryAfter] = step.split('@');
+    const headers = { 'content-type': 'application/json' };
+    if (retryAfter) headers['retry-after'] = retryAfter;
+    res.writeHead(Number(status) || 500, headers);
+    res.end(JSON.stringify({ error: { message: `scripted ${step}` } }));
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`🧪 Fake OpenAI server on http://127.0.0.1:${PORT}/v1 with script: ${script.join(',') || '(always ok)'}`);
+});
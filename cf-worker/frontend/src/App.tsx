@@ -8,6 +8,7 @@ import { AutoDemoController } from './components/AutoDemo/AutoDemoController';
 import { useSelection } from './hooks/use-selection';
 import { useLocation, useNavigate, useSearchParams } from 'react-router-dom';
 import { createAppHandlers } from './AppHandlers';
+import type { DiagramExpansion, DiagramVersions } from './types/diagram-version';
 
 // @component: InfflowApp
 export default function App() {
@@ -21,10 +22,14 @@ export default function App() {
   const [isDark, setIsDark] = useState(false);
   const [diagram, setDiagram] = useState<string | null>(null);
   const [CodeFlowStatus, setCodeFlowStatus] = useState<'sent' | 'not-sent'>('not-sent');
-  const [diagramData, setDiagramData] = useState<{mermaidCode: string; diagramImage: string; prompt: string; diagramType?: string; diagram_meta?: any} | null>(null);
+  const [diagramData, setDiagramData] = useState<{mermaidCode: string; diagramImage: string; prompt: string; diagramType?: string; diagram_meta?: any; permalinkId?: string; permalinkToken?: string} | null>(null);
   const [contentData, setContentData] = useState<{content: string; description: string; universal_content: string} | null>(null);
   const [diagramViewTab, setDiagramViewTab] = useState<'visual' | 'text'>('visual');
+  const [generationStatus, setGenerationStatus] = useState<string | null>(null);
+  const [searchError, setSearchError] = useState<string | null>(null);
   const [clusters, setClusters] = useState<import('./types/cluster').ClusterNode | null>(null);
+  const [diagramVersions, setDiagramVersions] = useState<DiagramVersions>({ query: '', versions: {} });
+  const [expansions, setExpansions] = useState<DiagramExpansion[]>([]);
   const [autoDemoMode, setAutoDemoMode] = useState(false);
   const [demoNarration, setDemoNarration] = useState<string | null>(null);
   
@@ -41,10 +46,14 @@ export default function App() {
     clearSelection,
     setupSelectionHandler,
     askDeepDive,
+    loadSuggestions,
+    stopDeepDive,
+    openThread,
+    clearDeepDive,
   } = useSelection();
 
   // Create handlers using the extracted handler functions
-  const { handleSearch, handleBackToHome, handleDeepDiveAsk, handleSaveText, handleSavePNG } = createAppHandlers({
+  const { handleSearch, handleRegenerate, handleBackToHome, handleDeepDiveAsk, handleDeepDiveSuggest, handleSaveText, handleSavePNG, handleOpenPermalink, handleCopyLink, handleRefine, handleShowRefinement, handleExpandNode, handleExpansionBack } = createAppHandlers({
     searchQuery,
     setSearchQuery,
     setDiagram,
@@ -53,18 +62,38 @@ export default function App() {
     setClusters,
     setCodeFlowStatus,
     setDiagramViewTab,
+    setGenerationStatus,
+    setSearchError,
     clearSelection,
     navigate,
     location,
     askDeepDive,
+    loadSuggestions,
+    clearDeepDive,
     lastSearchQuery,
     currentRequestId,
     currentAbortController,
     clusters,
     contentData,
-    diagram
+    diagram,
+    diagramData,
+    diagramVersions,
+    setDiagramVersions,
+    expansions,
+    setExpansions
   });
 
+  // Shared results live at /d/:id
+  const permalinkId = location.pathname.match(/^\/d\/([^/]+)\/?$/)?.[1] || null;
+
+  // Offer starter questions as soon as a node is selected
+  useEffect(() => {
+    if (selection.hasSelection && selection.selectedText) {
+      handleDeepDiveSuggest(selection.selectedText);
+    }
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selection.selectedText]);
+
   // Keep searchQuery in sync with URL `q` (initialize and on back/forward)
   useEffect(() => {
     const q = searchParams.get('q') || '';
@@ -77,6 +106,8 @@ export default function App() {
     // Only replace the URL; avoid stacking history entries while typing
     if (debouncedTimer.current) window.clearTimeout(debouncedTimer.current);
     debouncedTimer.current = window.setTimeout(() => {
+      // A shared link already identifies the result; keep its URL clean
+      if (permalinkId) return;
       const q = searchParams.get('q') || '';
       if (searchQuery !== q) {
         console.log('[App] Updating URL with query:', searchQuery); // Add debug line
@@ -117,6 +148,14 @@ export default function App() {
     }
   }, [location.pathname]); // Only depend on pathname, not searchParams
 
+  // Opening /d/:id restores the stored result instead of generating a new one
+  useEffect(() => {
+    if (permalinkId) {
+      handleOpenPermalink(permalinkId);
+    }
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [permalinkId]);
+
   const toggleTheme = () => {
     setIsDark(!isDark);
     document.documentElement.classList.toggle('dark');
@@ -153,7 +192,7 @@ export default function App() {
   };
 
   // @return
-  const showResults = location.pathname === '/search';
+  const showResults = location.pathname === '/search' || Boolean(permalinkId);
 
   return <div 
     className="min-h-screen bg-gray-50 dark:bg-gray-950 transition-colors duration-300"
@@ -222,15 +261,26 @@ export default function App() {
               diagram={diagram}
               diagramData={diagramData}
               contentData={contentData}
+              generationStatus={generationStatus}
+              searchError={searchError}
               selection={selection}
               deepDive={deepDive}
               setupSelectionHandler={setupSelectionHandler}
               handleDeepDiveAsk={handleDeepDiveAsk}
+              onOpenDeepDiveThread={openThread}
+              onStopDeepDive={stopDeepDive}
               clearSelection={clearSelection}
               diagramViewTab={diagramViewTab}
               setDiagramViewTab={setDiagramViewTab}
               clusters={clusters}
               setClusters={setClusters}
+              diagramVersions={diagramVersions}
+              onRegenerate={handleRegenerate}
+              onRefine={handleRefine}
+              onShowRefinement={handleShowRefinement}
+              expansions={expansions}
+              onExpandNode={handleExpandNode}
+              onExpansionBack={handleExpansionBack}
               currentTab={currentTab}
               onStartAutoDemo={handleStartAutoDemo}
               autoDemoActive={autoDemoMode}
@@ -266,6 +316,8 @@ export default function App() {
         onSearch={handleSearch}
         handleSavePNG={handleSavePNG}
         handleSaveText={handleSaveText}
+        handleCopyLink={handleCopyLink}
+        canCopyLink={Boolean(diagramData?.permalinkId)}
         showSaveButtons={showResults}
       />
         </div>;
@@ -1,6 +1,8 @@
 import React from 'react';
-import { describe, callDeepDiveApi, fetchClusterChildren } from './lib/api';
+import { describeStream, streamDeepDive, fetchDeepDiveSuggestions, fetchClusterChildren, fetchPermalink, permalinkUrl, refineDiagram, expandNode, Permalink, RateLimitError, RequestedDiagramType, MAX_EXPAND_DEPTH } from './lib/api';
+import type { ContentData, DiagramData, DiagramExpansion, DiagramVersion, DiagramVersions } from './types/diagram-version';
 import { exportDiagramAsText, exportDiagramAsPNG } from './utils/export-utils';
+import type { DeepDiveApiCall } from './hooks/use-selection';
 
 // Debounce utility function
 function debounce<T extends (...args: any[]) => any>(
@@ -23,16 +25,71 @@ export interface AppHandlersProps {
   setClusters: (clusters: any) => void;
   setCodeFlowStatus: (status: 'sent' | 'not-sent') => void;
   setDiagramViewTab: (tab: 'visual' | 'text') => void;
+  setGenerationStatus: (status: string | null) => void;
+  setSearchError: (message: string | null) => void;
   clearSelection: () => void;
   navigate: (path: string, options?: any) => void;
   location: any;
-  askDeepDive: (question: string, apiCall: any) => Promise<void>;
+  askDeepDive: (question: string, apiCall: DeepDiveApiCall) => Promise<void>;
+  loadSuggestions: (selectedText: string, fetchSuggestions: () => Promise<string[]>) => Promise<void>;
+  clearDeepDive: () => void;
   lastSearchQuery: React.MutableRefObject<string>;
   currentRequestId: React.MutableRefObject<string>;
   currentAbortController: React.MutableRefObject<AbortController | null>;
   clusters: import('./types/cluster').ClusterNode | null;
   contentData: {content: string; description: string; universal_content: string} | null;
   diagram: string | null;
+  diagramData: DiagramData | null;
+  diagramVersions: DiagramVersions;
+  setDiagramVersions: React.Dispatch<React.SetStateAction<DiagramVersions>>;
+  expansions: DiagramExpansion[];
+  setExpansions: (expansions: DiagramExpansion[]) => void;
+}
+
+// Streamed answers can run longer than the worker's 300 token default; it caps this server-side.
+const DEEP_DIVE_MAX_TOKENS = 800;
+
+type SearchOptions = { navigate?: boolean; diagramType?: RequestedDiagramType };
+
+// The view a shared result was generated as, in the shape "Regenerate as" keeps versions in
+function permalinkVersion(permalink: Permalink): { type: RequestedDiagramType; version: DiagramVersion } {
+  const contentData = {
+    content: permalink.content || '',
+    description: permalink.description || '',
+    universal_content: permalink.universal_content || ''
+  };
+  if (permalink.view === 'topic_map' && permalink.cluster) {
+    return {
+      type: 'topic_map',
+      version: {
+        diagram: null,
+        diagramData: {
+          mermaidCode: `FOAMTREE_DATA:${JSON.stringify(permalink.cluster)}`,
+          diagramImage: `FOAMTREE_DATA:${JSON.stringify(permalink.cluster)}`,
+          prompt: permalink.query,
+          permalinkId: permalink.id
+        },
+        contentData,
+        clusters: permalink.cluster
+      }
+    };
+  }
+  return {
+    type: permalink.diagram_type as RequestedDiagramType,
+    version: {
+      diagram: permalink.diagram || null,
+      diagramData: {
+        mermaidCode: permalink.diagram || '',
+        diagramImage: permalink.diagram || '',
+        prompt: permalink.query,
+        diagramType: permalink.diagram_type,
+        diagram_meta: permalink.diagram_meta,
+        permalinkId: permalink.id
+      },
+      contentData,
+      clusters: null
+    }
+  };
 }
 
 export const createAppHandlers = ({
@@ -44,16 +101,25 @@ export const createAppHandlers = ({
   setClusters,
   setCodeFlowStatus,
   setDiagramViewTab,
+  setGenerationStatus,
+  setSearchError,
   clearSelection,
   navigate,
   location,
   askDeepDive,
+  loadSuggestions,
+  clearDeepDive,
   lastSearchQuery,
   currentRequestId,
   currentAbortController,
   clusters,
   contentData,
-  diagram
+  diagram,
+  diagramData,
+  diagramVersions,
+  setDiagramVersions,
+  expansions,
+  setExpansions
 }: AppHandlersProps) => {
   // Send diagram data to hexagon worker via HTTP API
   const handleDiscussionRequest = async (diagramContext: {mermaidCode: string; diagramImage: string; prompt: string}) => {
@@ -110,7 +176,7 @@ export const createAppHandlers = ({
 
   // Debounced search function to prevent excessive API calls
   const debouncedSearch = React.useCallback(
-    debounce(async (query: string, options: { navigate?: boolean } = { navigate: true }) => {
+    debounce(async (query: string, options: SearchOptions = { navigate: true }) => {
       if (!query.trim()) return;
 
       // Cancel any previous request
@@ -137,20 +203,19 @@ export const createAppHandlers = ({
     [currentAbortController, currentRequestId]
   );
 
-  const performSearch = async (query: string, requestId: string, options: { navigate?: boolean }, startTime: number) => {
+  // Keeps a finished result so "Regenerate as" can switch back to it without a request
+  const saveVersion = (query: string, type: RequestedDiagramType, version: DiagramVersion) => {
+    setDiagramVersions(prev => ({
+      query,
+      versions: { ...(prev.query === query ? prev.versions : {}), [type]: version }
+    }));
+  };
+
+  const performSearch = async (query: string, requestId: string, options: SearchOptions, startTime: number) => {
     const cleaned = query.trim();
 
     setSearchQuery(cleaned);
-    const qLower = cleaned.toLowerCase();
-    const wantsFoamTree = (
-      qLower.includes('foamtree') ||
-      qLower.includes('foam tree') ||
-      qLower.includes('foam-tree') ||
-      qLower.includes('topic map') ||
-      qLower.includes('topic maps') ||
-      qLower.includes('topic-map') ||
-      qLower.includes('topicmap')
-    );
+    let wantsFoamTree = options.diagramType === 'topic_map';
     
     if (options.navigate !== false) {
       const params = new URLSearchParams(location.search);
@@ -161,54 +226,117 @@ export const createAppHandlers = ({
     clearSelection();
     setCodeFlowStatus('not-sent');
     setDiagramViewTab('visual');
+    if (!options.diagramType) {
+      setDiagramVersions({ query: cleaned, versions: {} });
+      setExpansions([]);
+      clearDeepDive();
+    }
     setDiagram(null);
     setClusters(null);
+    setContentData(null);
+    setSearchError(null);
     
-    try {
-      if (wantsFoamTree) {
-        const foamTreeStartTime = performance.now();
-        console.log(`[${requestId}] Starting FoamTree cluster generation...`);
-        try {
-          const clusterRes = await fetchClusterChildren(cleaned);
-          const foamTreeApiTime = performance.now() - foamTreeStartTime;
-          console.log(`⏱️ [${requestId}] FoamTree API call time: ${foamTreeApiTime.toFixed(2)}ms`);
+    const loadTopicMap = async () => {
+      const foamTreeStartTime = performance.now();
+      console.log(`[${requestId}] Starting FoamTree cluster generation...`);
+      try {
+        const clusterRes = await fetchClusterChildren(cleaned);
+        const foamTreeApiTime = performance.now() - foamTreeStartTime;
+        console.log(`⏱️ [${requestId}] FoamTree API call time: ${foamTreeApiTime.toFixed(2)}ms`);
+        
+        if (clusterRes.success && clusterRes.cluster) {
+          if (clusterRes.warnings?.length) {
+            console.warn(`[${requestId}] Cluster JSON normalized by the worker${clusterRes.repaired ? ' after repair' : ''}:`, clusterRes.warnings);
+          }
+          setClusters(clusterRes.cluster as any);
+          console.log(`[${requestId}] Cluster response universal_content:`, clusterRes.universal_content ? 'Present' : 'Missing');
+          console.log(`[${requestId}] Universal content length:`, clusterRes.universal_content?.length || 0);
           
-          if (clusterRes.success && clusterRes.cluster) {
-            setClusters(clusterRes.cluster as any);
-            console.log(`[${requestId}] Cluster response universal_content:`, clusterRes.universal_content ? 'Present' : 'Missing');
-            console.log(`[${requestId}] Universal content length:`, clusterRes.universal_content?.length || 0);
-            
-            if (clusterRes.universal_content) {
-              setContentData({ content: '', description: '', universal_content: clusterRes.universal_content });
-            } else {
-              console.warn(`[${requestId}] No universal content received from cluster API`);
-              setContentData({ content: '', description: '', universal_content: '' });
-            }
-
-            // For foam tree, we need to send a special format that the hexagon worker can understand
-            const foamTreePayload = {
-              mermaidCode: `FOAMTREE_DATA:${JSON.stringify(clusterRes.cluster)}`,
-              diagramImage: `FOAMTREE_DATA:${JSON.stringify(clusterRes.cluster)}`,
-              prompt: cleaned
-            };
-            setDiagramData(foamTreePayload);
-            
-            const discussionStartTime = performance.now();
-            await handleDiscussionRequest(foamTreePayload);
-            const discussionTime = performance.now() - discussionStartTime;
-            console.log(`⏱️ [${requestId}] Hexagon discussion request time: ${discussionTime.toFixed(2)}ms`);
+          if (clusterRes.universal_content) {
+            setContentData({ content: '', description: '', universal_content: clusterRes.universal_content });
           } else {
-            console.warn(`[${requestId}] Cluster API returned no cluster`);
+            console.warn(`[${requestId}] No universal content received from cluster API`);
             setContentData({ content: '', description: '', universal_content: '' });
           }
-        } catch (e) {
-          console.warn(`[${requestId}] Cluster generation failed:`, e);
+
+          // For foam tree, we need to send a special format that the hexagon worker can understand
+          const foamTreePayload = {
+            mermaidCode: `FOAMTREE_DATA:${JSON.stringify(clusterRes.cluster)}`,
+            diagramImage: `FOAMTREE_DATA:${JSON.stringify(clusterRes.cluster)}`,
+            prompt: cleaned,
+            permalinkId: clusterRes.permalink_id,
+            permalinkToken: clusterRes.permalink_token
+          };
+          setDiagramData(foamTreePayload);
+          saveVersion(cleaned, 'topic_map', {
+            diagram: null,
+            diagramData: foamTreePayload,
+            contentData: { content: '', description: '', universal_content: clusterRes.universal_content || '' },
+            clusters: clusterRes.cluster
+          });
+          
+          const discussionStartTime = performance.now();
+          await handleDiscussionRequest(foamTreePayload);
+          const discussionTime = performance.now() - discussionStartTime;
+          console.log(`⏱️ [${requestId}] Hexagon discussion request time: ${discussionTime.toFixed(2)}ms`);
+        } else {
+          console.warn(`[${requestId}] Cluster API returned no cluster`);
           setContentData({ content: '', description: '', universal_content: '' });
         }
+      } catch (e) {
+        if (e instanceof RateLimitError) throw e;
+        console.warn(`[${requestId}] Cluster generation failed:`, e);
+        setContentData({ content: '', description: '', universal_content: '' });
+      }
+    };
+
+    try {
+      if (wantsFoamTree) {
+        await loadTopicMap();
       } else {
         const diagramStartTime = performance.now();
         console.log(`[${requestId}] Starting diagram generation...`);
-        const res = await describe(cleaned);
+        setGenerationStatus('Choosing diagram type...');
+
+        // Render each phase as soon as it streams in; the Text tab fills in independently.
+        const streamed: { diagramData: DiagramData; content: ContentData } = {
+          diagramData: { mermaidCode: '', diagramImage: '', prompt: cleaned },
+          content: { content: '', description: '', universal_content: '' }
+        };
+        const res = await describeStream(cleaned, (evt) => {
+          if (currentRequestId.current !== requestId) return;
+          switch (evt.event) {
+            case 'diagram_type':
+              streamed.diagramData.diagramType = evt.data.diagram_type;
+              setGenerationStatus(`Building ${evt.data.diagram_type.replace(/_/g, ' ')}...`);
+              break;
+            case 'diagram_meta':
+              streamed.diagramData.diagram_meta = evt.data.diagram_meta;
+              if (streamed.diagramData.mermaidCode) setDiagramData({ ...streamed.diagramData });
+              break;
+            case 'mermaid_code':
+              console.log(`⏱️ [${requestId}] Mermaid code streamed after ${(performance.now() - diagramStartTime).toFixed(2)}ms`);
+              streamed.diagramData = {
+                ...streamed.diagramData,
+                mermaidCode: evt.data.diagram,
+                diagramImage: evt.data.diagram,
+                diagramType: evt.data.diagram_type
+              };
+              streamed.content = { ...streamed.content, content: evt.data.content, description: evt.data.description };
+              setDiagram(evt.data.diagram);
+              setDiagramData({ ...streamed.diagramData });
+              setContentData({ ...streamed.content });
+              break;
+            case 'universal_content':
+              console.log(`⏱️ [${requestId}] Universal content streamed after ${(performance.now() - diagramStartTime).toFixed(2)}ms`);
+              streamed.content = { ...streamed.content, universal_content: evt.data.universal_content };
+              setContentData({ ...streamed.content });
+              break;
+            case 'timing':
+              console.log(`⏱️ [${requestId}] Server timing (${evt.data.request_id}): ${evt.data.total_ms}ms`, evt.data.steps);
+              break;
+          }
+        }, currentAbortController.current?.signal, { diagramType: options.diagramType });
         const diagramApiTime = performance.now() - diagramStartTime;
         console.log(`⏱️ [${requestId}] Diagram API call time: ${diagramApiTime.toFixed(2)}ms`);
         console.log(`[${requestId}] API Response:`, res);
@@ -218,40 +346,60 @@ export const createAppHandlers = ({
           console.log(`[${requestId}] Ignoring stale API response for request: ${requestId}`);
           return;
         }
-        
-        const stateUpdateStartTime = performance.now();
-        if (res.render_type === 'html') {
-          setDiagram(res.rendered_content);
+
+        // Without an explicit type the worker picks the view; a topic map answer carries no diagram
+        if (res.view === 'foamtree') {
+          wantsFoamTree = true;
+          setGenerationStatus(null);
+          await loadTopicMap();
         } else {
-          setDiagram(res.diagram || res.rendered_content || null);
-        }
+          const stateUpdateStartTime = performance.now();
+          if (res.render_type === 'html') {
+            setDiagram(res.rendered_content);
+          } else {
+            setDiagram(res.diagram || res.rendered_content || null);
+          }
 
-        if (res.content || res.description || res.universal_content) {
-          setContentData({
-            content: res.content || '',
-            description: res.description || '',
-            universal_content: res.universal_content || ''
-          });
-        }
+          if (res.content || res.description || res.universal_content) {
+            setContentData({
+              content: res.content || '',
+              description: res.description || '',
+              universal_content: res.universal_content || ''
+            });
+          }
 
-        if (res.diagram) {
-          const newDiagramData = {
-            mermaidCode: res.diagram,
-            diagramImage: res.diagram,
-            prompt: cleaned,
-            diagramType: res.diagram_type,
-            diagram_meta: res.diagram_meta
-          };
-          setDiagramData(newDiagramData);
+          if (res.diagram) {
+            const newDiagramData = {
+              mermaidCode: res.diagram,
+              diagramImage: res.diagram,
+              prompt: cleaned,
+              diagramType: res.diagram_type,
+              diagram_meta: res.diagram_meta,
+              permalinkId: res.permalink_id,
+              permalinkToken: res.permalink_token
+            };
+            setDiagramData(newDiagramData);
+            saveVersion(cleaned, options.diagramType || res.diagram_type as RequestedDiagramType, {
+              diagram: res.render_type === 'html' ? res.rendered_content : res.diagram,
+              diagramData: newDiagramData,
+              contentData: {
+                content: res.content || '',
+                description: res.description || '',
+                universal_content: res.universal_content || ''
+              },
+              clusters: null
+            });
           
-          const discussionStartTime = performance.now();
-          handleDiscussionRequest(newDiagramData);
-          const discussionTime = performance.now() - discussionStartTime;
-          console.log(`⏱️ [${requestId}] Hexagon discussion request time: ${discussionTime.toFixed(2)}ms`);
-        }
+            const discussionStartTime = performance.now();
+            handleDiscussionRequest(newDiagramData);
+            const discussionTime = performance.now() - discussionStartTime;
+            console.log(`⏱️ [${requestId}] Hexagon discussion request time: ${discussionTime.toFixed(2)}ms`);
+          }
         
-        const stateUpdateTime = performance.now() - stateUpdateStartTime;
-        console.log(`⏱️ [${requestId}] State update time: ${stateUpdateTime.toFixed(2)}ms`);
+          const stateUpdateTime = performance.now() - stateUpdateStartTime;
+          console.log(`⏱️ [${requestId}] State update time: ${stateUpdateTime.toFixed(2)}ms`);
+          setGenerationStatus(null);
+        }
       }
       
       const totalTime = performance.now() - startTime;
@@ -261,12 +409,238 @@ export const createAppHandlers = ({
       console.log(`📈 Type: ${wantsFoamTree ? 'FoamTree' : 'Diagram'}`);
       
     } catch (e) {
+      // A newer search aborted this one; leave its state alone.
+      if (currentRequestId.current !== requestId) {
+        console.log(`[${requestId}] Search superseded by a newer request`);
+        return;
+      }
       const errorTime = performance.now() - startTime;
       console.error(`❌ [${requestId}] Search error after ${errorTime.toFixed(2)}ms:`, e);
+      setGenerationStatus(null);
       setDiagram(null);
       setDiagramData(null);
       setContentData(null);
       setClusters(null);
+      if (e instanceof RateLimitError) setSearchError(e.message);
+    }
+  };
+
+  // Shows the query as another diagram type, reusing a version generated earlier when there is one
+  const handleRegenerate = async (type: RequestedDiagramType) => {
+    const query = diagramVersions.query || searchQuery;
+    if (!query.trim()) return;
+
+    const saved = diagramVersions.query === query ? diagramVersions.versions[type] : undefined;
+    if (saved) {
+      console.log(`[App] Switching to saved ${type} version for query: ${query}`);
+      currentAbortController.current?.abort();
+      currentRequestId.current = `switch_${Date.now()}`;
+      clearSelection();
+      setGenerationStatus(null);
+      setSearchError(null);
+      setDiagram(saved.diagram);
+      setDiagramData(saved.diagramData);
+      setContentData(saved.contentData);
+      setClusters(saved.clusters);
+      if (saved.diagramData) handleDiscussionRequest(saved.diagramData);
+      return;
+    }
+
+    currentAbortController.current?.abort();
+    currentAbortController.current = new AbortController();
+    const requestId = `regenerate_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`;
+    currentRequestId.current = requestId;
+    console.log(`[App] Regenerating as ${type} with request ID: ${requestId}`);
+    await performSearch(query, requestId, { navigate: false, diagramType: type }, performance.now());
+  };
+
+  // Restores a shared result from /d/:id as it was generated, without calling the LLM again
+  const handleOpenPermalink = async (id: string) => {
+    currentAbortController.current?.abort();
+    currentAbortController.current = null;
+    const requestId = `permalink_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`;
+    currentRequestId.current = requestId;
+    console.log(`[App] Opening shared diagram ${id} with request ID: ${requestId}`);
+
+    clearSelection();
+    clearDeepDive();
+    setCodeFlowStatus('not-sent');
+    setDiagramViewTab('visual');
+    setDiagram(null);
+    setDiagramData(null);
+    setContentData(null);
+    setClusters(null);
+    setExpansions([]);
+    setSearchError(null);
+    setGenerationStatus('Loading shared diagram...');
+
+    try {
+      const permalink = await fetchPermalink(id);
+      if (currentRequestId.current !== requestId) return;
+      setGenerationStatus(null);
+      if (!permalink) {
+        setSearchError('This diagram link has expired or does not exist.');
+        return;
+      }
+
+      const { type, version } = permalinkVersion(permalink);
+      setSearchQuery(permalink.query);
+      setDiagram(version.diagram);
+      setDiagramData(version.diagramData);
+      setContentData(version.contentData);
+      setClusters(version.clusters);
+      setDiagramVersions({ query: permalink.query, versions: { [type]: version } });
+      if (version.diagramData) handleDiscussionRequest(version.diagramData);
+    } catch (e) {
+      if (currentRequestId.current !== requestId) return;
+      console.error(`❌ [${requestId}] Failed to open shared diagram ${id}:`, e);
+      setGenerationStatus(null);
+      setSearchError(e instanceof RateLimitError ? e.message : 'Could not load this shared diagram. Please try again.');
+    }
+  };
+
+  // Asks the worker to apply a plain-language edit; `data` is null when the diagram was left unchanged.
+  // Nothing is shown here: the refine box records the result in its undo history first.
+  const handleRefine = async (instruction: string): Promise<{ data: DiagramData | null; summary: string }> => {
+    if (!diagramData?.mermaidCode || !diagramData.diagramType) {
+      return { data: null, summary: 'Only generated diagrams can be refined.' };
+    }
+    const res = await refineDiagram({
+      code: diagramData.mermaidCode,
+      instruction,
+      diagram_type: diagramData.diagramType,
+      diagram_meta: diagramData.diagram_meta,
+      query: diagramData.prompt,
+      permalink_id: diagramData.permalinkId
+    });
+    if (!res.changed) return { data: null, summary: res.summary };
+    return {
+      data: {
+        ...diagramData,
+        mermaidCode: res.diagram,
+        diagramImage: res.diagram,
+        diagram_meta: res.diagram_meta,
+        // The earlier link still opens the earlier version
+        permalinkId: res.permalink_id,
+        permalinkToken: res.permalink_token
+      },
+      summary: res.summary
+    };
+  };
+
+  // Shows a refined, undone or redone diagram in place of the current one
+  const handleShowRefinement = (data: DiagramData) => {
+    clearSelection();
+    setDiagram(data.mermaidCode);
+    setDiagramData(data);
+    if (data.diagramType) {
+      saveVersion(diagramVersions.query || data.prompt, data.diagramType as RequestedDiagramType, {
+        diagram: data.mermaidCode,
+        diagramData: data,
+        contentData,
+        clusters: null
+      });
+    }
+    handleDiscussionRequest(data);
+  };
+
+  // Opens a child diagram scoped to one node; the current diagram stays in the breadcrumb to come back to
+  const handleExpandNode = async (nodeText: string, meta?: any) => {
+    const label = nodeText.trim();
+    if (!label || !diagram || !diagramData?.diagramType || expansions.length >= MAX_EXPAND_DEPTH) return;
+    const rootQuery = expansions[0]?.parentVersions.query || diagramVersions.query || searchQuery;
+
+    currentAbortController.current?.abort();
+    currentAbortController.current = null;
+    const requestId = `expand_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`;
+    currentRequestId.current = requestId;
+    console.log(`[App] Expanding node "${label}" with request ID: ${requestId}`);
+
+    setExpansions([...expansions, {
+      label,
+      parent: { diagram, diagramData, contentData, clusters: null },
+      parentVersions: diagramVersions
+    }]);
+    clearSelection();
+    setSearchError(null);
+    setDiagram(null);
+    setDiagramData(null);
+    setContentData(null);
+    setGenerationStatus(`Expanding "${label}"...`);
+
+    try {
+      // nodeId and nodeText are added by the node decorations and are not part of the fact
+      const { nodeId: _nodeId, nodeText: _nodeText, ...nodeMeta } = meta || {};
+      const res = await expandNode({
+        query: rootQuery,
+        node_text: label,
+        node_meta: nodeMeta,
+        path: expansions.map(expansion => expansion.label)
+      });
+      if (currentRequestId.current !== requestId) return;
+
+      const newDiagramData: DiagramData = {
+        mermaidCode: res.diagram,
+        diagramImage: res.diagram,
+        prompt: res.query,
+        diagramType: res.diagram_type,
+        diagram_meta: res.diagram_meta,
+        permalinkId: res.permalink_id,
+        permalinkToken: res.permalink_token
+      };
+      const newContentData = {
+        content: res.content || '',
+        description: res.description || '',
+        universal_content: res.universal_content || ''
+      };
+      setGenerationStatus(null);
+      setDiagram(res.diagram);
+      setDiagramData(newDiagramData);
+      setContentData(newContentData);
+      // "Regenerate as" now applies to the expanded node
+      setDiagramVersions({
+        query: res.query,
+        versions: { [res.diagram_type]: { diagram: res.diagram, diagramData: newDiagramData, contentData: newContentData, clusters: null } }
+      });
+      handleDiscussionRequest(newDiagramData);
+    } catch (e) {
+      if (currentRequestId.current !== requestId) return;
+      console.error(`❌ [${requestId}] Failed to expand node "${label}":`, e);
+      setGenerationStatus(null);
+      setSearchError(e instanceof RateLimitError ? e.message : `Could not expand "${label}". Use the breadcrumb to go back or try again.`);
+    }
+  };
+
+  // Returns to a diagram in the breadcrumb; 0 is the diagram of the original query
+  const handleExpansionBack = (index: number) => {
+    const target = expansions[index];
+    if (!target) return;
+    currentAbortController.current?.abort();
+    currentRequestId.current = `expansion_back_${Date.now()}`;
+    clearSelection();
+    setGenerationStatus(null);
+    setSearchError(null);
+    setDiagram(target.parent.diagram);
+    setDiagramData(target.parent.diagramData);
+    setContentData(target.parent.contentData);
+    setDiagramVersions(target.parentVersions);
+    setExpansions(expansions.slice(0, index));
+    if (target.parent.diagramData) handleDiscussionRequest(target.parent.diagramData);
+  };
+
+  // Resolves false when there is nothing to share or the clipboard is unavailable
+  const handleCopyLink = async (): Promise<boolean> => {
+    const id = diagramData?.permalinkId;
+    if (!id) return false;
+    const url = permalinkUrl(id);
+    try {
+      await navigator.clipboard.writeText(url);
+      console.log(`🔗 Copied link: ${url}`);
+      return true;
+    } catch (error) {
+      console.error('Failed to copy link:', error);
+      window.prompt('Copy this link:', url);
+      return false;
     }
   };
 
@@ -279,18 +653,30 @@ export const createAppHandlers = ({
     setClusters(null);
     setCodeFlowStatus('not-sent');
     setDiagramViewTab('visual');
+    setGenerationStatus(null);
+    setSearchError(null);
     clearSelection();
   };
 
   const handleDeepDiveAsk = async (question: string) => {
-    await askDeepDive(question, async (params: any) => {
-      const response = await callDeepDiveApi({
-        selected_text: params.selectedText,
-        question: params.question,
-        original_query: searchQuery
-      });
-      return response;
-    });
+    await askDeepDive(question, (params, handlers, signal) => streamDeepDive({
+      selected_text: params.selectedText,
+      question: params.question,
+      original_query: searchQuery,
+      universal_content: contentData?.universal_content,
+      thread_id: params.threadId ?? undefined,
+      max_tokens: DEEP_DIVE_MAX_TOKENS
+    }, (event) => {
+      if (event.event === 'thread') handlers.onThread(event.data.thread_id);
+      if (event.event === 'delta') handlers.onDelta(event.data.text);
+    }, signal));
+  };
+
+  const handleDeepDiveSuggest = async (selectedText: string) => {
+    await loadSuggestions(selectedText, () => fetchDeepDiveSuggestions({
+      selected_text: selectedText,
+      original_query: searchQuery
+    }));
   };
 
   const handleSaveText = async () => {
@@ -435,9 +821,17 @@ export const createAppHandlers = ({
 
   return {
     handleSearch: debouncedSearch,
+    handleRegenerate,
     handleBackToHome,
     handleDeepDiveAsk,
+    handleDeepDiveSuggest,
     handleSaveText,
-    handleSavePNG
+    handleSavePNG,
+    handleOpenPermalink,
+    handleCopyLink,
+    handleRefine,
+    handleShowRefinement,
+    handleExpandNode,
+    handleExpansionBack
   };
 };
@@ -1,36 +1,55 @@
 ﻿import { useState, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { X, Copy, Download, MessageCircle } from 'lucide-react';
+import { X, Copy, Download, MessageCircle, Square } from 'lucide-react';
+import type { DeepDiveThread, PendingDeepDive } from '../hooks/use-selection';
 
 interface DeepDiveProps {
   selectedText: string;
   isProcessing: boolean;
-  response: string | null;
-  history: Array<{
-    selectedText: string;
-    question: string;
-    response: string;
-    timestamp: number;
-  }>;
+  error: string | null;
+  thread: DeepDiveThread | null;
+  // Answer being streamed for this node, if any
+  pending: PendingDeepDive | null;
+  otherThreads: DeepDiveThread[];
   onAsk: (question: string) => void;
+  onStop: () => void;
+  onOpenThread: (selectedText: string) => void;
   onClose: () => void;
 }
 
+const truncateLabel = (text: string, max: number) =>
+  text.length > max ? `${text.substring(0, max).replace(/\s+\S*$/, '')}...` : text;
+
 export function DeepDive({
   selectedText,
   isProcessing,
-  response,
-  history,
+  error,
+  thread,
+  pending,
+  otherThreads,
   onAsk,
+  onStop,
+  onOpenThread,
   onClose,
 }: DeepDiveProps) {
   const [question, setQuestion] = useState('');
   const prevProcessingRef = useRef(isProcessing);
+  const turns = thread?.turns ?? [];
+  const suggestions = thread?.suggestions ?? [];
+  const latestResponse = turns.length ? turns[turns.length - 1].response : null;
 
-  // Keep track of processing state for other purposes
+  // Clear the input once an answer arrives so the next follow-up starts empty
   useEffect(() => {
+    if (prevProcessingRef.current && !isProcessing && !error) {
+      setQuestion('');
+    }
     prevProcessingRef.current = isProcessing;
-  }, [isProcessing]);
+  }, [isProcessing, error]);
+
+  // Each thread has its own draft question
+  useEffect(() => {
+    setQuestion('');
+  }, [selectedText]);
 
 
   const handleSubmit = (e: React.FormEvent) => {
@@ -42,9 +61,9 @@ export function DeepDive({
   };
 
   const copyResponse = async () => {
-    if (response) {
+    if (latestResponse) {
       try {
-        await navigator.clipboard.writeText(response);
+        await navigator.clipboard.writeText(latestResponse);
         // You could add a toast notification here
       } catch (error) {
         console.error('Failed to copy response:', error);
@@ -52,16 +71,13 @@ export function DeepDive({
     }
   };
 
-  const saveResponse = () => {
-    if (response) {
+  const saveThread = () => {
+    if (turns.length) {
       const content = [
         `Deep Dive: ${selectedText}`,
         '='.repeat(50),
         '',
-        `Q: ${history[history.length - 1]?.question || 'Unknown question'}`,
-        '',
-        `A: ${response}`,
-        '',
+        ...turns.flatMap(turn => [`Q: ${turn.question}`, '', `A: ${turn.response}`, '']),
         '---',
         `Generated on: ${new Date().toLocaleString()}`,
       ].join('\n');
@@ -123,8 +139,6 @@ export function DeepDive({
     return date.toLocaleDateString();
   };
 
-  const relevantHistory = history.filter(item => item.selectedText === selectedText).slice(0, 5);
-
   return (
     <motion.div data-demo-deep-dive
       initial={{ opacity: 0, y: 20 }}
@@ -148,7 +162,7 @@ export function DeepDive({
         <div className="flex items-center gap-2">
           <MessageCircle className="w-5 h-5 text-blue-600 dark:text-blue-400" />
           <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
-            Deep Dive ({selectedText.length > 50 ? `${selectedText.substring(0, 50).replace(/\s+\S*$/, '')}...` : selectedText})
+            Deep Dive ({truncateLabel(selectedText, 50)})
           </h3>
         </div>
         <button
@@ -160,35 +174,46 @@ export function DeepDive({
       </div>
 
 
-      <form onSubmit={handleSubmit} className="mb-4">
-        <div className="flex gap-2">
-          <input
-            type="text"
-            value={question}
-            onChange={(e) => setQuestion(e.target.value)}
-            placeholder="Ask about this selection..."
-            className="flex-1 px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white placeholder-gray-500 dark:placeholder-gray-400 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-            disabled={isProcessing}
-          />
-          <button
-            type="submit"
-            disabled={!question.trim() || isProcessing}
-            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white rounded-lg transition-colors flex items-center gap-2"
-          >
-            {isProcessing ? (
-              <>
-                <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" />
-                Answering...
-              </>
-            ) : (
-              'Ask'
-            )}
-          </button>
+      {(turns.length > 0 || pending) && (
+        <div className="space-y-4">
+          {turns.map((turn, index) => (
+            <motion.div
+              key={`${turn.timestamp}-${index}`}
+              initial={{ opacity: 0, y: 10 }}
+              animate={{ opacity: 1, y: 0 }}
+              className={index > 0 ? 'pt-4 border-t border-gray-200 dark:border-gray-700' : ''}
+            >
+              <div className="flex items-baseline justify-between gap-2 mb-2">
+                <div className="text-sm font-medium text-gray-900 dark:text-white">
+                  {turn.question}
+                </div>
+                <div className="text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                  {turn.stopped ? 'stopped · ' : ''}{formatTime(turn.timestamp)}
+                </div>
+              </div>
+              <div
+                className="prose prose-sm max-w-none dark:prose-invert"
+                dangerouslySetInnerHTML={{ __html: formatResponse(turn.response) }}
+              />
+            </motion.div>
+          ))}
+
+          {pending && pending.text && (
+            <div className={turns.length > 0 ? 'pt-4 border-t border-gray-200 dark:border-gray-700' : ''}>
+              <div className="text-sm font-medium text-gray-900 dark:text-white mb-2">
+                {pending.question}
+              </div>
+              <div
+                className="prose prose-sm max-w-none dark:prose-invert"
+                dangerouslySetInnerHTML={{ __html: formatResponse(pending.text) }}
+              />
+            </div>
+          )}
         </div>
-      </form>
+      )}
 
       <AnimatePresence mode="wait">
-        {isProcessing && (
+        {isProcessing && !pending?.text && (
           <motion.div
             initial={{ opacity: 0 }}
             animate={{ opacity: 1 }}
@@ -207,58 +232,106 @@ export function DeepDive({
           </motion.div>
         )}
 
-        {response && !isProcessing && (
+        {error && !isProcessing && (
           <motion.div
-            initial={{ opacity: 0, y: 10 }}
-            animate={{ opacity: 1, y: 0 }}
-            exit={{ opacity: 0, y: -10 }}
-            className="space-y-4"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="mt-4 p-3 text-sm text-red-700 dark:text-red-300 bg-red-50 dark:bg-red-900/30 rounded-lg"
           >
-            <div
-              className="prose prose-sm max-w-none dark:prose-invert"
-              dangerouslySetInnerHTML={{ __html: formatResponse(response) }}
-            />
-            
-            <div className="flex gap-2 pt-4 border-t border-gray-200 dark:border-gray-700">
-              <button
-                onClick={copyResponse}
-                className="flex items-center gap-2 px-3 py-2 text-sm bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-300 rounded-lg transition-colors"
-              >
-                <Copy className="w-4 h-4" />
-                Copy
-              </button>
-              <button
-                onClick={saveResponse}
-                className="flex items-center gap-2 px-3 py-2 text-sm bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-300 rounded-lg transition-colors"
-              >
-                <Download className="w-4 h-4" />
-                Save
-              </button>
-            </div>
+            {error}
           </motion.div>
         )}
       </AnimatePresence>
 
-      {relevantHistory.length > 0 && (
+      {latestResponse && !isProcessing && (
+        <div className="flex gap-2 mt-4 pt-4 border-t border-gray-200 dark:border-gray-700">
+          <button
+            onClick={copyResponse}
+            className="flex items-center gap-2 px-3 py-2 text-sm bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-300 rounded-lg transition-colors"
+          >
+            <Copy className="w-4 h-4" />
+            Copy
+          </button>
+          <button
+            onClick={saveThread}
+            className="flex items-center gap-2 px-3 py-2 text-sm bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-300 rounded-lg transition-colors"
+          >
+            <Download className="w-4 h-4" />
+            Save
+          </button>
+        </div>
+      )}
+
+      {suggestions.length > 0 && !isProcessing && (
+        <div className={`flex flex-wrap gap-2 ${turns.length > 0 || error ? 'mt-4' : ''}`}>
+          {suggestions.map(suggestion => (
+            <button
+              key={suggestion}
+              type="button"
+              onClick={() => onAsk(suggestion)}
+              className="px-3 py-1.5 text-sm text-left text-blue-700 dark:text-blue-300 bg-blue-50 dark:bg-blue-900/30 hover:bg-blue-100 dark:hover:bg-blue-900/50 border border-blue-200 dark:border-blue-800 rounded-full transition-colors"
+            >
+              {suggestion}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className={turns.length > 0 || error || (suggestions.length > 0 && !isProcessing) ? 'mt-4' : ''}>
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={question}
+            onChange={(e) => setQuestion(e.target.value)}
+            placeholder={turns.length ? 'Ask a follow-up...' : 'Ask about this selection...'}
+            className="flex-1 px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white placeholder-gray-500 dark:placeholder-gray-400 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            disabled={isProcessing}
+          />
+          {isProcessing ? (
+            <button
+              type="button"
+              onClick={onStop}
+              className="px-4 py-2 bg-gray-700 hover:bg-gray-800 dark:bg-gray-600 dark:hover:bg-gray-500 text-white rounded-lg transition-colors flex items-center gap-2"
+              title="Stop generating"
+            >
+              <Square className="w-4 h-4" />
+              Stop
+            </button>
+          ) : (
+            <button
+              type="submit"
+              disabled={!question.trim()}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white rounded-lg transition-colors flex items-center gap-2"
+            >
+              Ask
+            </button>
+          )}
+        </div>
+      </form>
+
+      {otherThreads.length > 0 && (
         <div className="mt-6 pt-4 border-t border-gray-200 dark:border-gray-700">
           <details>
             <summary className="cursor-pointer text-sm font-medium text-gray-700 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white">
-              Previous questions ({relevantHistory.length})
+              Other threads ({otherThreads.length})
             </summary>
             <div className="mt-2 space-y-2">
-              {relevantHistory.map((item, index) => (
-                <div
-                  key={index}
-                  className="p-3 bg-gray-50 dark:bg-gray-700 rounded-lg cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-600 transition-colors"
-                  onClick={() => setQuestion(item.question)}
+              {otherThreads.map(other => (
+                <button
+                  key={other.selectedText}
+                  type="button"
+                  className="w-full text-left p-3 bg-gray-50 dark:bg-gray-700 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-600 transition-colors disabled:opacity-50"
+                  disabled={isProcessing}
+                  onClick={() => onOpenThread(other.selectedText)}
                 >
                   <div className="text-sm text-gray-900 dark:text-white font-medium">
-                    {item.question}
+                    {truncateLabel(other.selectedText, 60)}
                   </div>
                   <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
-                    {formatTime(item.timestamp)}
+                    {other.turns.length} {other.turns.length === 1 ? 'question' : 'questions'} · {formatTime(other.updatedAt)}
                   </div>
-                </div>
+                </button>
               ))}
             </div>
           </details>
@@ -0,0 +1,51 @@
+import { useEffect, useMemo, useRef } from 'react';
+import { parseOutline, OutlineNode } from '../utils/outline';
+
+interface DiagramOutlineProps {
+  content: string;
+  title?: string;
+  onSetupSelection?: (container: HTMLElement) => void;
+}
+
+function OutlineList({ nodes }: { nodes: OutlineNode[] }) {
+  return (
+    <ul className="ml-4 mt-2 space-y-2 border-l border-gray-200 dark:border-gray-700 pl-4">
+      {nodes.map((node, index) => (
+        <li key={`${index}-${node.label}`} className="text-gray-700 dark:text-gray-300">
+          <span className={node.children.length ? 'font-medium text-gray-900 dark:text-white' : ''}>{node.label}</span>
+          {node.children.length > 0 && <OutlineList nodes={node.children} />}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+// Readable fallback shown when a diagram cannot be rendered, even after repair.
+export default function DiagramOutline({ content, title, onSetupSelection }: DiagramOutlineProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const outline = useMemo(() => parseOutline(content, title), [content, title]);
+
+  useEffect(() => {
+    if (outline && onSetupSelection && containerRef.current) {
+      onSetupSelection(containerRef.current);
+    }
+  }, [outline, onSetupSelection]);
+
+  return (
+    <div ref={containerRef} className="max-w-2xl mx-auto py-8 px-6">
+      <p className="text-xs text-gray-400 dark:text-gray-500 mb-4">
+        This diagram could not be drawn, so its content is shown as an outline.
+      </p>
+      {outline ? (
+        <>
+          {outline.label && (
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white">{outline.label}</h2>
+          )}
+          {outline.children.length > 0 && <OutlineList nodes={outline.children} />}
+        </>
+      ) : (
+        <p className="text-gray-500 dark:text-gray-400">No outline content is available for this diagram.</p>
+      )}
+    </div>
+  );
+}
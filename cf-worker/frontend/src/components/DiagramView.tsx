@@ -1,11 +1,27 @@
 import { useRef, useCallback, useEffect, useState } from 'react';
 import Mermaid, { MermaidRef } from './Mermaid';
 import RadialChart from './RadialChart';
+import DiagramOutline from './DiagramOutline';
 import { FoamTreeView } from './visual/FoamTreeView';
 import type { ClusterNode } from '../types/cluster';
 import { setupRadialAlignment } from '../utils/radial-align';
 import { removeCentralNodeA } from '../utils/svg-search-dom';
 import { decorateNodesWithSearch } from '../lib/mermaid/decorateNodesWithSearch';
+import { repairDiagram, reportRenderOutcome } from '../lib/api';
+
+// initial -> rendered as generated; repairing/repaired -> server fixed the code; outline -> gave up on Mermaid
+type RenderPath = 'initial' | 'repairing' | 'repaired' | 'outline';
+
+// Module scope so switching tabs (which remounts this view) neither re-reports
+// an outcome nor repeats a repair. null marks a diagram that fell back to the outline.
+const repairedDiagrams = new Map<string, string | null>();
+const MAX_REMEMBERED_REPAIRS = 20;
+let lastReportedDiagram: string | null = null;
+
+function rememberRepair(original: string, repaired: string | null) {
+  if (repairedDiagrams.size >= MAX_REMEMBERED_REPAIRS) repairedDiagrams.clear();
+  repairedDiagrams.set(original, repaired);
+}
 
 interface DiagramViewProps {
   diagramViewTab: 'visual' | 'text';
@@ -18,8 +34,16 @@ interface DiagramViewProps {
   setSelectedClusterIds: (ids: string[]) => void;
   loadClusterChildren: (clusterId: string) => void;
   findClusterById: (root: ClusterNode | null, id: string) => ClusterNode | null;
-  diagramMeta?: { nodes: Record<string, any> };
+  diagramMeta?: { nodes: Record<string, any>; sources?: string[] };
   onExternalLinksRequest?: (query: string, meta?: any) => void;
+  onExpandNode?: (nodeText: string, meta?: any) => void;
+  generationStatus?: string | null;
+  searchError?: string | null;
+  diagramType?: string;
+  outlineContent?: string;
+  originalQuery?: string;
+  permalinkId?: string;
+  permalinkToken?: string;
 }
 
 export default function DiagramView({
@@ -34,7 +58,15 @@ export default function DiagramView({
   loadClusterChildren,
   findClusterById,
   diagramMeta,
-  onExternalLinksRequest
+  onExternalLinksRequest,
+  onExpandNode,
+  generationStatus,
+  searchError,
+  diagramType,
+  outlineContent,
+  originalQuery,
+  permalinkId,
+  permalinkToken
 }: DiagramViewProps) {
   const svgRef = useRef<SVGSVGElement>(null);
   const hostRef = useRef<HTMLDivElement>(null);
@@ -42,6 +74,79 @@ export default function DiagramView({
   const cleanupRef = useRef<null | (() => void)>(null);
   const timeoutRef = useRef<number | null>(null);
   const [svgRevision, setSvgRevision] = useState(0);
+  const [renderCode, setRenderCode] = useState(diagram);
+  const [renderPath, setRenderPath] = useState<RenderPath>('initial');
+  const renderPathRef = useRef<RenderPath>('initial');
+  // Latest values for the stable render callbacks below
+  // Where a chart's numbers come from, shown under it
+  const chartSources = diagramType === 'quantitative_chart' && Array.isArray(diagramMeta?.sources) ? diagramMeta.sources : [];
+  const latestRef = useRef({ diagram, diagramType, originalQuery, permalinkId, permalinkToken });
+  latestRef.current = { diagram, diagramType, originalQuery, permalinkId, permalinkToken };
+
+  const updateRenderPath = useCallback((path: RenderPath) => {
+    renderPathRef.current = path;
+    setRenderPath(path);
+  }, []);
+
+  const reportOutcome = useCallback((outcome: 'rendered' | 'repaired' | 'outline') => {
+    const current = latestRef.current.diagram;
+    if (!current || current === lastReportedDiagram) return;
+    lastReportedDiagram = current;
+    console.log(`📊 Diagram render outcome: ${outcome}`);
+    reportRenderOutcome(outcome, latestRef.current.diagramType);
+  }, []);
+
+  // Every new diagram starts over on the normal render path
+  useEffect(() => {
+    setRenderCode(diagram);
+    updateRenderPath('initial');
+  }, [diagram, updateRenderPath]);
+
+  // First failure asks the worker for a repaired version; a second failure shows the outline.
+  const handleRenderError = useCallback(async (error: unknown) => {
+    const { diagram: failedDiagram, diagramType: failedType, originalQuery: query, permalinkId, permalinkToken } = latestRef.current;
+    if (renderPathRef.current !== 'initial' || !failedDiagram) {
+      console.warn('⚠️ Repaired diagram failed to render, showing outline instead:', error);
+      if (failedDiagram) rememberRepair(failedDiagram, null);
+      updateRenderPath('outline');
+      reportOutcome('outline');
+      return;
+    }
+
+    const remembered = repairedDiagrams.get(failedDiagram);
+    if (remembered !== undefined) {
+      if (remembered) setRenderCode(remembered);
+      updateRenderPath(remembered ? 'repaired' : 'outline');
+      return;
+    }
+
+    updateRenderPath('repairing');
+    try {
+      const res = await repairDiagram({
+        code: failedDiagram,
+        error: error instanceof Error ? error.message : String(error),
+        query,
+        diagram_type: failedType,
+        // The creator's repair is stored in the link so viewers do not need one
+        permalink_id: permalinkId,
+        permalink_token: permalinkToken
+      });
+      if (latestRef.current.diagram !== failedDiagram) return; // a newer diagram arrived meanwhile
+      if (res.repaired && res.diagram && res.diagram.trim() !== failedDiagram.trim()) {
+        console.log(`🛠️ Diagram repaired after ${res.attempts} attempt(s), re-rendering`);
+        rememberRepair(failedDiagram, res.diagram);
+        setRenderCode(res.diagram);
+        updateRenderPath('repaired');
+        return;
+      }
+    } catch (repairError) {
+      console.warn('⚠️ Diagram repair request failed:', repairError);
+      if (latestRef.current.diagram !== failedDiagram) return;
+    }
+    rememberRepair(failedDiagram, null);
+    updateRenderPath('outline');
+    reportOutcome('outline');
+  }, [reportOutcome, updateRenderPath]);
   
   // External links state is now handled by parent component
 
@@ -54,6 +159,7 @@ export default function DiagramView({
     
     (svgRef as any).current = svgElement;
     setSvgRevision(prev => prev + 1);
+    reportOutcome(renderPathRef.current === 'repaired' ? 'repaired' : 'rendered');
     cleanupRef.current?.();
 
     console.log(`[${renderId}] handleMermaidRender called with SVG:`, svgElement);
@@ -108,7 +214,7 @@ export default function DiagramView({
     console.log(`   • Font wait: ${fontWaitTime.toFixed(2)}ms (${((fontWaitTime / totalTime) * 100).toFixed(1)}%)`);
     console.log(`   • Radial setup: ${radialEnabled ? 'Completed' : 'Skipped'}`);
 
-  }, [radialEnabled]);
+  }, [radialEnabled, reportOutcome]);
 
   useEffect(() => {
     const svgElement = svgRef.current;
@@ -157,6 +263,7 @@ export default function DiagramView({
             console.log('[DiagramView] Search button clicked, requesting external links for query:', query, 'nodeId:', nodeId, 'meta:', meta);
             onExternalLinksRequest?.(query, meta);
           },
+          onExpand: onExpandNode ? ({ nodeText, meta }) => onExpandNode(nodeText, meta) : undefined,
         });
 
         if (radialEnabled && hostRef.current) {
@@ -187,7 +294,7 @@ export default function DiagramView({
         timeoutRef.current = null;
       }
     };
-  }, [diagramMeta, onExternalLinksRequest, radialEnabled, searchQuery, svgRevision]);
+  }, [diagramMeta, onExternalLinksRequest, onExpandNode, radialEnabled, searchQuery, svgRevision]);
 
   // Cleanup alignment and timeouts on unmount
   useEffect(() => {
@@ -247,7 +354,27 @@ export default function DiagramView({
     );
   }
 
-  if (diagram) {
+  if (diagram && renderPath === 'outline') {
+    return (
+      <div className="diagram-viewport h-[calc(100vh-80px)] overflow-y-auto">
+        <DiagramOutline
+          content={outlineContent || ''}
+          title={originalQuery}
+          onSetupSelection={setupSelectionHandler}
+        />
+      </div>
+    );
+  }
+
+  if (diagram && renderPath === 'repairing') {
+    return (
+      <div className="p-8 text-center" style={{ minHeight: '400px', display: 'flex', justifyContent: 'center', alignItems: 'center' }}>
+        <p className="text-gray-500 dark:text-gray-400">Fixing diagram...</p>
+      </div>
+    );
+  }
+
+  if (diagram && renderCode) {
     return (
       <>
         <div className="relative">
@@ -258,19 +385,26 @@ export default function DiagramView({
           >
             {radialEnabled ? (
               <RadialChart 
-                code={diagram} 
+                code={renderCode} 
                 onRender={handleMermaidRender}
                 onSetupSelection={setupSelectionHandler}
+                onError={handleRenderError}
               />
             ) : (
               <Mermaid 
                 ref={mermaidRef}
-                code={diagram} 
+                code={renderCode} 
                 onRender={handleMermaidRender}
                 onSetupSelection={setupSelectionHandler}
+                onError={handleRenderError}
               />
             )}
           </div>
+          {chartSources.length > 0 && (
+            <p className="absolute bottom-4 left-0 right-0 px-6 text-center text-xs text-gray-500 dark:text-gray-400">
+              Source: {chartSources.join('; ')}
+            </p>
+          )}
         </div>
       </>
     );
@@ -291,7 +425,10 @@ export default function DiagramView({
 
         {/* Loading text positioned below search bar */}
         <div style={{ position: 'absolute', bottom: '120px', left: '50%', transform: 'translateX(-50%)' }}>
-          <p className="text-gray-500 dark:text-gray-400">Textchart being generated...</p>
+          <p className="text-gray-500 dark:text-gray-400">{searchError || 'Textchart being generated...'}</p>
+          {!searchError && generationStatus && (
+            <p className="text-xs text-gray-400 dark:text-gray-500 mt-1">{generationStatus}</p>
+          )}
         </div>
       </div>
     </>
@@ -0,0 +1,37 @@
+import { ChevronRight } from 'lucide-react';
+
+interface ExpansionBreadcrumbProps {
+  // The original query, then the text of each expanded node; the last one is shown now
+  labels: string[];
+  onSelect: (index: number) => void;
+}
+
+// Trail from the original diagram down to the node expanded into the current one.
+export function ExpansionBreadcrumb({ labels, onSelect }: ExpansionBreadcrumbProps) {
+  return (
+    <nav aria-label="Expanded diagrams" className="mr-auto flex items-center gap-1 min-w-0 text-sm" onClick={(e) => e.stopPropagation()}>
+      {labels.map((label, index) => {
+        const isCurrent = index === labels.length - 1;
+        return (
+          <div key={index} className="flex items-center gap-1 min-w-0">
+            {index > 0 && <ChevronRight className="w-4 h-4 shrink-0 text-gray-400 dark:text-gray-500" />}
+            {isCurrent ? (
+              <span className="truncate max-w-[16rem] font-medium text-gray-900 dark:text-white" aria-current="page" title={label}>
+                {label}
+              </span>
+            ) : (
+              <button
+                type="button"
+                onClick={() => onSelect(index)}
+                className="truncate max-w-[12rem] text-blue-600 dark:text-blue-400 hover:underline"
+                title={label}
+              >
+                {label}
+              </button>
+            )}
+          </div>
+        );
+      })}
+    </nav>
+  );
+}
@@ -1,6 +1,7 @@
 import React from "react";
+import { NodeLink, searchNodeLinks } from "../lib/api";
 
-type Item = { title: string; url: string; snippet?: string; favicon?: string | null };
+type Item = NodeLink;
 
 interface ExternalLinksSectionProps {
   query: string | null;
@@ -81,24 +82,17 @@ export function ExternalLinksSection({
           theme: meta?.theme || undefined,
           keywords: meta?.keywords || undefined,
           search: meta?.search || undefined,
+          date: meta?.date || undefined,
         };
-        const resp = await fetch("/api/node-search", {
-          method: "POST",
-          headers: { "content-type": "application/json" },
-          body: JSON.stringify(body),
-        });
-        console.log('[ExternalLinksSection] API response status:', resp.status);
-        console.log('[ExternalLinksSection] API response headers:', Object.fromEntries(resp.headers.entries()));
-        
-        const data = await resp.json();
+        const data = await searchNodeLinks(body);
         console.log('[ExternalLinksSection] API response data:', data);
         console.log('[ExternalLinksSection] Request body sent:', body);
         console.log('[ExternalLinksSection] Meta object received:', meta);
         
         if (!cancel) {
-          if (data.error) {
-            console.error('[ExternalLinksSection] API error:', data.error);
-            setError(`API Error: ${data.error}${data.details ? ' - ' + data.details : ''}`);
+          if (data.error_type) {
+            console.error('[ExternalLinksSection] API error:', data.error_type, data.debug);
+            setError(data.detail || 'Link search failed.');
           } else {
             setItems(data.items || []);
           }
@@ -6,6 +6,7 @@ type Props = {
   className?: string;
   onSetupSelection?: (container: HTMLElement) => void;
   onRender?: (svgElement: SVGSVGElement) => void;
+  onError?: (error: unknown) => void;
 };
 
 export interface MermaidRef {
@@ -16,7 +17,8 @@ const Mermaid = forwardRef<MermaidRef, Props>(({
   code, 
   className, 
   onSetupSelection,
-  onRender
+  onRender,
+  onError
 }, ref) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const svgRef = useRef<SVGSVGElement | null>(null);
@@ -122,12 +124,18 @@ const Mermaid = forwardRef<MermaidRef, Props>(({
       } catch (e) {
         const errorTime = performance.now() - startTime;
         console.error(`❌ [${renderId}] Mermaid render error after ${errorTime.toFixed(2)}ms:`, e);
-        if (containerRef.current) containerRef.current.innerHTML = `<pre class='text-red-600'>Mermaid render error: ${String(e)}</pre>`;
+        if (!mounted) return;
+        if (onError) {
+          if (containerRef.current) containerRef.current.innerHTML = '';
+          onError(e);
+        } else if (containerRef.current) {
+          containerRef.current.innerHTML = `<pre class='text-red-600'>Mermaid render error: ${String(e)}</pre>`;
+        }
       }
     })();
 
     return () => { mounted = false; };
-  }, [code, onSetupSelection, onRender]);
+  }, [code, onSetupSelection, onRender, onError]);
 
   return (
     <div className={`${className} flex justify-center items-start w-full relative`} style={{ zIndex: 1 }} ref={containerRef}>
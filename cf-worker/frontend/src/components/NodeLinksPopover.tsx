@@ -1,7 +1,8 @@
 // src/components/NodeLinksPopover.tsx
 import React from "react";
+import { NodeLink, searchNodeLinks } from "../lib/api";
 
-type Item = { title: string; url: string; snippet?: string; favicon?: string | null };
+type Item = NodeLink;
 
 export function NodeLinksPopover({
   point,
@@ -35,22 +36,15 @@ export function NodeLinksPopover({
           theme: meta?.theme || undefined,
           keywords: meta?.keywords || undefined,
           search: meta?.search || undefined,
+          date: meta?.date || undefined,
         };
-        const resp = await fetch("/api/node-search", {
-          method: "POST",
-          headers: { "content-type": "application/json" },
-          body: JSON.stringify(body),
-        });
-        console.log('[NodeLinksPopover] API response status:', resp.status);
-        console.log('[NodeLinksPopover] API response headers:', Object.fromEntries(resp.headers.entries()));
-        
-        const data = await resp.json();
+        const data = await searchNodeLinks(body);
         console.log('[NodeLinksPopover] API response data:', data);
         
         if (!cancel) {
-          if (data.error) {
-            console.error('[NodeLinksPopover] API error:', data.error);
-            setError(`API Error: ${data.error}${data.details ? ' - ' + data.details : ''}`);
+          if (data.error_type) {
+            console.error('[NodeLinksPopover] API error:', data.error_type, data.debug);
+            setError(data.detail || 'Link search failed.');
           } else {
             setItems(data.items || []);
           }
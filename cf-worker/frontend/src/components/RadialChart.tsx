@@ -7,13 +7,15 @@ interface RadialChartProps {
   className?: string;
   onRender?: (svgElement: SVGSVGElement) => void;
   onSetupSelection?: (container: HTMLElement) => void;
+  onError?: (error: unknown) => void;
 }
 
 export default function RadialChart({ 
   code, 
   className, 
   onRender,
-  onSetupSelection 
+  onSetupSelection,
+  onError
 }: RadialChartProps) {
   const ctrlRef = useRef<ReturnType<typeof initRadialAlignment> | null>(null);
   const mermaidRef = useRef<MermaidRef>(null);
@@ -33,6 +35,7 @@ export default function RadialChart({
             className={className}
             onRender={onRender}
             onSetupSelection={onSetupSelection}
+            onError={onError}
           />
         </div>
       </div>
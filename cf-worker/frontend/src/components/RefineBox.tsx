@@ -0,0 +1,99 @@
+import { useEffect, useState } from 'react';
+import { Redo2, Undo2, Wand2 } from 'lucide-react';
+import { RateLimitError } from '../lib/api';
+import type { DiagramData } from '../types/diagram-version';
+
+interface RefineBoxProps {
+  diagramData: DiagramData;
+  onRefine: (instruction: string) => Promise<{ data: DiagramData | null; summary: string }>;
+  onShow: (data: DiagramData) => void;
+}
+
+// Plain-language edits to the shown diagram ("merge these two nodes", "shorten labels") with undo/redo.
+export function RefineBox({ diagramData, onRefine, onShow }: RefineBoxProps) {
+  const [instruction, setInstruction] = useState('');
+  const [history, setHistory] = useState<DiagramData[]>([diagramData]);
+  const [index, setIndex] = useState(0);
+  const [pending, setPending] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  // A diagram that is not in the history came from a new search or regeneration; it starts a new history
+  useEffect(() => {
+    if (history[index] !== diagramData) {
+      setHistory([diagramData]);
+      setIndex(0);
+      setMessage(null);
+    }
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [diagramData]);
+
+  const submit = async () => {
+    const text = instruction.trim();
+    if (!text || pending) return;
+    setPending(true);
+    setMessage(null);
+    try {
+      const { data, summary } = await onRefine(text);
+      setMessage(summary);
+      if (!data) return;
+      // Refining after an undo drops the undone steps, as in any editor
+      const kept = history.slice(0, index + 1);
+      setHistory([...kept, data]);
+      setIndex(kept.length);
+      setInstruction('');
+      onShow(data);
+    } catch (error) {
+      console.error('Failed to refine diagram:', error);
+      setMessage(error instanceof RateLimitError ? error.message : 'Could not apply that change; the diagram was kept as it was.');
+    } finally {
+      setPending(false);
+    }
+  };
+
+  const step = (offset: number) => {
+    const next = index + offset;
+    if (next < 0 || next >= history.length) return;
+    setIndex(next);
+    setMessage(null);
+    onShow(history[next]);
+  };
+
+  return (
+    <div className="flex items-center gap-2" onClick={(e) => e.stopPropagation()}>
+      <div className="flex items-center bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 px-2.5 py-1.5 w-96 shadow-sm">
+        <Wand2 className="w-4 h-4 text-gray-400 dark:text-gray-500 shrink-0" />
+        <input
+          type="text"
+          value={instruction}
+          maxLength={500}
+          disabled={pending}
+          onChange={(e) => setInstruction(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && submit()}
+          placeholder={pending ? 'Refining...' : 'Refine: "merge these two nodes", "shorten labels"...'}
+          className="flex-1 bg-transparent outline-none text-sm text-gray-900 dark:text-white placeholder-gray-500 dark:placeholder-gray-400 px-2 py-0.5 disabled:opacity-60"
+        />
+      </div>
+      <button
+        type="button"
+        onClick={() => step(-1)}
+        disabled={pending || index === 0}
+        className="p-1.5 text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-sm hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        title="Undo refinement"
+      >
+        <Undo2 className="w-4 h-4" />
+      </button>
+      <button
+        type="button"
+        onClick={() => step(1)}
+        disabled={pending || index >= history.length - 1}
+        className="p-1.5 text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-sm hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        title="Redo refinement"
+      >
+        <Redo2 className="w-4 h-4" />
+      </button>
+      {message && (
+        <span className="text-xs text-gray-500 dark:text-gray-400 max-w-xs truncate" title={message}>{message}</span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+import { useEffect, useRef, useState } from 'react';
+import { Check, ChevronDown, RefreshCw } from 'lucide-react';
+import type { RequestedDiagramType } from '../lib/api';
+
+const REGENERATE_OPTIONS: { type: RequestedDiagramType; label: string }[] = [
+  { type: 'flowchart', label: 'Flowchart' },
+  { type: 'radial_mindmap', label: 'Mindmap' },
+  { type: 'sequence_comparison', label: 'Comparison' },
+  { type: 'topic_map', label: 'Topic map' }
+];
+
+interface RegenerateMenuProps {
+  currentType?: string;
+  savedTypes: RequestedDiagramType[];
+  disabled?: boolean;
+  onRegenerate: (type: RequestedDiagramType) => void;
+}
+
+// Re-requests the current query as another diagram type; types already generated switch instantly.
+export function RegenerateMenu({ currentType, savedTypes, disabled, onRegenerate }: RegenerateMenuProps) {
+  const [open, setOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const handleClickOutside = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [open]);
+
+  return (
+    <div ref={menuRef} className="relative inline-block" onClick={(e) => e.stopPropagation()}>
+      <button
+        type="button"
+        disabled={disabled}
+        onClick={() => setOpen(!open)}
+        className="flex items-center gap-1.5 px-3 py-1.5 text-sm text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-sm hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        aria-haspopup="menu"
+        aria-expanded={open}
+      >
+        <RefreshCw className="w-4 h-4" />
+        <span>Regenerate as</span>
+        <ChevronDown className="w-4 h-4" />
+      </button>
+
+      {open && (
+        <div role="menu" className="absolute right-0 mt-1 w-48 py-1 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg z-40">
+          {REGENERATE_OPTIONS.map(({ type, label }) => {
+            const isCurrent = type === currentType;
+            const isSaved = savedTypes.includes(type);
+            return (
+              <button
+                key={type}
+                type="button"
+                role="menuitem"
+                disabled={isCurrent}
+                onClick={() => {
+                  setOpen(false);
+                  onRegenerate(type);
+                }}
+                className="w-full flex items-center justify-between px-3 py-2 text-sm text-left text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:cursor-default disabled:hover:bg-transparent"
+              >
+                <span className={isCurrent ? 'font-medium text-gray-900 dark:text-white' : ''}>{label}</span>
+                {isCurrent ? (
+                  <Check className="w-4 h-4 text-blue-600 dark:text-blue-400" />
+                ) : isSaved ? (
+                  <span className="text-xs text-gray-400 dark:text-gray-500">saved</span>
+                ) : null}
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
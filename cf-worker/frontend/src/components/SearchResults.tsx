@@ -1,5 +1,6 @@
 ﻿import { motion } from 'framer-motion';
 import { useState, useMemo } from 'react';
+import type { Dispatch, SetStateAction } from 'react';
 import { Header } from './Header';
 import { Sidebar } from './Sidebar';
 import { DeepDive } from './DeepDive';
@@ -7,8 +8,15 @@ import { RadialBarOverlay } from './RadialBarOverlay';
 import { SearchBar } from './SearchBar';
 import DiagramView from './DiagramView';
 import { ExternalLinksSection } from './ExternalLinksSection';
+import { RegenerateMenu } from './RegenerateMenu';
+import { RefineBox } from './RefineBox';
+import { ExpansionBreadcrumb } from './ExpansionBreadcrumb';
 import type { ClusterNode } from '../types/cluster';
+import type { DiagramData, DiagramExpansion, DiagramVersions } from '../types/diagram-version';
+import { MAX_EXPAND_DEPTH } from '../lib/api';
+import type { RequestedDiagramType } from '../lib/api';
 import { useClusterLazyLoading } from '../hooks/use-cluster-lazy-loading';
+import type { DeepDiveState } from '../hooks/use-selection';
 
 interface SearchResultsProps {
   searchQuery: string;
@@ -20,29 +28,31 @@ interface SearchResultsProps {
   setSidebarOpen: (open: boolean) => void;
   onBackToHome: () => void;
   diagram: string | null;
-  diagramData: { mermaidCode: string; diagramImage: string; prompt: string; diagramType?: string; diagram_meta?: any } | null;
+  diagramData: { mermaidCode: string; diagramImage: string; prompt: string; diagramType?: string; diagram_meta?: any; permalinkId?: string; permalinkToken?: string } | null;
   contentData: { content: string; description: string; universal_content: string } | null;
+  generationStatus?: string | null;
+  searchError?: string | null;
   selection: {
     hasSelection: boolean;
     selectedText: string;
   };
-  deepDive: {
-    isProcessing: boolean;
-    response: string | null;
-    history: Array<{
-      selectedText: string;
-      question: string;
-      response: string;
-      timestamp: number;
-    }>;
-  };
+  deepDive: DeepDiveState;
   setupSelectionHandler: (container: HTMLElement) => void;
   handleDeepDiveAsk: (question: string) => void;
+  onOpenDeepDiveThread: (selectedText: string) => void;
+  onStopDeepDive: () => void;
   clearSelection: () => void;
   diagramViewTab: 'visual' | 'text';
   setDiagramViewTab: (tab: 'visual' | 'text') => void;
   clusters: ClusterNode | null;
-  setClusters: (c: ClusterNode | null) => void;
+  setClusters: Dispatch<SetStateAction<ClusterNode | null>>;
+  diagramVersions: DiagramVersions;
+  onRegenerate: (type: RequestedDiagramType) => void;
+  onRefine: (instruction: string) => Promise<{ data: DiagramData | null; summary: string }>;
+  onShowRefinement: (data: DiagramData) => void;
+  expansions: DiagramExpansion[];
+  onExpandNode: (nodeText: string, meta?: any) => void;
+  onExpansionBack: (index: number) => void;
   currentTab: string;
   onStartAutoDemo?: () => void;
   autoDemoActive?: boolean;
@@ -60,15 +70,26 @@ export default function SearchResults({
   diagram,
   diagramData,
   contentData,
+  generationStatus,
+  searchError,
   selection,
   deepDive,
   setupSelectionHandler,
   handleDeepDiveAsk,
+  onOpenDeepDiveThread,
+  onStopDeepDive,
   clearSelection,
   diagramViewTab,
   setDiagramViewTab,
   clusters,
   setClusters,
+  diagramVersions,
+  onRegenerate,
+  onRefine,
+  onShowRefinement,
+  expansions,
+  onExpandNode,
+  onExpansionBack,
   currentTab,
   onStartAutoDemo,
   autoDemoActive,
@@ -77,7 +98,12 @@ export default function SearchResults({
   const looksRadial = /\bgraph|flowchart\b/i.test(mermaidSrc) && /\bA\(/.test(mermaidSrc);
   const radialEnabled = diagramData?.diagramType === 'radial_mindmap' || looksRadial;
   const [selectedClusterIds, setSelectedClusterIds] = useState<string[]>([]);
-  const { loadClusterChildren } = useClusterLazyLoading(clusters, setClusters);
+  const { loadClusterChildren } = useClusterLazyLoading(clusters, setClusters, {
+    query: diagramData?.prompt,
+    universalContent: contentData?.universal_content,
+    permalinkId: diagramData?.permalinkId,
+    permalinkToken: diagramData?.permalinkToken
+  });
 
   const [externalLinksQuery, setExternalLinksQuery] = useState<string | null>(null);
   const [externalLinksMeta, setExternalLinksMeta] = useState<any>(null);
@@ -95,6 +121,12 @@ export default function SearchResults({
     return fn;
   }, []);
 
+  const currentDiagramType = clusters ? 'topic_map' : diagramData?.diagramType;
+  const savedDiagramTypes = Object.keys(diagramVersions.versions) as RequestedDiagramType[];
+  const showRegenerateMenu = diagramViewTab === 'visual' && Boolean(diagram || clusters || generationStatus || searchError);
+  // Refinement edits Mermaid code, so topic maps and unfinished diagrams have nothing to refine
+  const showRefineBox = showRegenerateMenu && Boolean(diagram && diagramData?.diagramType && !clusters && !generationStatus);
+
   const handleExternalLinksRequest = (query: string, meta?: any) => {
     console.log('[SearchResults] External links requested for query:', query, 'meta:', meta);
     setExternalLinksQuery(query);
@@ -148,6 +180,30 @@ export default function SearchResults({
             </RadialBarOverlay>
           )}
 
+          {showRegenerateMenu && (
+            <div className="flex justify-end items-center gap-3 px-6 pt-3">
+              {expansions.length > 0 && (
+                <ExpansionBreadcrumb
+                  labels={[expansions[0].parentVersions.query, ...expansions.map(expansion => expansion.label)]}
+                  onSelect={onExpansionBack}
+                />
+              )}
+              {showRefineBox && diagramData && (
+                <RefineBox
+                  diagramData={diagramData}
+                  onRefine={onRefine}
+                  onShow={onShowRefinement}
+                />
+              )}
+              <RegenerateMenu
+                currentType={currentDiagramType}
+                savedTypes={savedDiagramTypes}
+                disabled={Boolean(generationStatus)}
+                onRegenerate={onRegenerate}
+              />
+            </div>
+          )}
+
           {diagramViewTab === 'visual' ? (
             <DiagramView
               diagramViewTab={diagramViewTab}
@@ -162,6 +218,14 @@ export default function SearchResults({
               findClusterById={findClusterById}
               diagramMeta={diagramData?.diagram_meta}
               onExternalLinksRequest={handleExternalLinksRequest}
+              onExpandNode={expansions.length < MAX_EXPAND_DEPTH ? onExpandNode : undefined}
+              generationStatus={generationStatus}
+              searchError={searchError}
+              diagramType={diagramData?.diagramType}
+              outlineContent={contentData?.content}
+              originalQuery={diagramData?.prompt || searchQuery}
+              permalinkId={diagramData?.permalinkId}
+              permalinkToken={diagramData?.permalinkToken}
             />
           ) : (
             <div className="relative pl-60 pr-6 py-6">
@@ -171,6 +235,14 @@ export default function SearchResults({
                     {contentData.universal_content.replace(/\*\*(.*?)\*\*/g, '$1')}
                   </div>
                 </div>
+              ) : searchError ? (
+                <div className="text-center text-gray-500 dark:text-gray-400">
+                  <p>{searchError}</p>
+                </div>
+              ) : generationStatus ? (
+                <div className="text-center text-gray-500 dark:text-gray-400">
+                  <p>Text being generated...</p>
+                </div>
               ) : (
                 <div className="text-center text-gray-500 dark:text-gray-400">
                   <p>No text content available</p>
@@ -183,9 +255,13 @@ export default function SearchResults({
             <DeepDive
               selectedText={selection.selectedText}
               isProcessing={deepDive.isProcessing}
-              response={deepDive.response}
-              history={deepDive.history}
+              error={deepDive.error}
+              thread={deepDive.threads.find(t => t.selectedText === selection.selectedText) ?? null}
+              pending={deepDive.pending?.selectedText === selection.selectedText ? deepDive.pending : null}
+              otherThreads={deepDive.threads.filter(t => t.selectedText !== selection.selectedText && t.turns.length > 0)}
               onAsk={handleDeepDiveAsk}
+              onOpenThread={onOpenDeepDiveThread}
+              onStop={onStopDeepDive}
               onClose={clearSelection}
             />
           )}
@@ -1,4 +1,5 @@
-﻿import { motion } from 'framer-motion';
+﻿import { useState } from 'react';
+import { motion } from 'framer-motion';
 import { Globe, MapPin, Newspaper, Eye, FileText } from 'lucide-react';
 
 interface TabsProps {
@@ -17,6 +18,9 @@ interface TabsProps {
   handleSavePNG?: () => void;
   handleSaveText?: () => void;
   showSaveButtons?: boolean;
+  // Copy link - resolves true once the /d/:id link is on the clipboard
+  handleCopyLink?: () => Promise<boolean>;
+  canCopyLink?: boolean;
 }
 
 const tabs = [{
@@ -57,9 +61,18 @@ export const Tabs = ({
   onSearch,
   handleSavePNG,
   handleSaveText,
-  showSaveButtons = false
+  showSaveButtons = false,
+  handleCopyLink,
+  canCopyLink = false
 }: TabsProps) => {
   const isBottom = position === 'bottom';
+  const [linkCopied, setLinkCopied] = useState(false);
+
+  const onCopyLink = async () => {
+    if (!handleCopyLink || !(await handleCopyLink())) return;
+    setLinkCopied(true);
+    window.setTimeout(() => setLinkCopied(false), 2000);
+  };
   
   // @return
   return <nav className={`${isBottom ? 'border-t' : 'border-b'} border-gray-200 dark:border-gray-800 bg-gray-50 dark:bg-gray-950 ${isBottom ? 'bottom-nav-fixed' : ''}`}>
@@ -146,6 +159,16 @@ export const Tabs = ({
                  Save PNG
                </button>
              )}
+             {handleCopyLink && (
+               <button
+                 onClick={onCopyLink}
+                 disabled={!canCopyLink}
+                 className="px-3 py-2 bg-white hover:bg-gray-50 dark:bg-gray-800 dark:hover:bg-gray-700 text-black dark:text-white text-sm font-medium rounded-lg transition-colors shadow-sm border border-gray-200 dark:border-gray-600 disabled:opacity-50 disabled:cursor-not-allowed"
+                 title={canCopyLink ? "Copy a link that opens this exact result" : "A link is available once the result has been generated"}
+               >
+                 {linkCopied ? 'Link copied' : 'Copy link'}
+               </button>
+             )}
            </div>
          )}
        </div>
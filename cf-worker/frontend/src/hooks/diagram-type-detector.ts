@@ -1,6 +1,18 @@
 // Utility for detecting diagram types and providing appropriate selectors
 export class DiagramTypeDetector {
   static detectDiagramType(svg: SVGElement): DiagramType {
+    if (svg.querySelector('.timeline-node')) {
+      return 'timeline';
+    }
+    if (svg.querySelector('.pieCircle')) {
+      return 'pie';
+    }
+    if (svg.querySelector('g.plot [class^="bar-plot"]')) {
+      return 'xychart';
+    }
+    if (svg.querySelector('g.statediagram-state') || svg.classList.contains('statediagram')) {
+      return 'state';
+    }
     if (svg.querySelector('.actor, .note, sequenceDiagram')) {
       return 'sequence';
     }
@@ -10,9 +22,6 @@ export class DiagramTypeDetector {
     if (svg.querySelector('.gantt')) {
       return 'gantt';
     }
-    if (svg.querySelector('.pie')) {
-      return 'pie';
-    }
     
     return 'generic';
   }
@@ -26,6 +35,27 @@ export class DiagramTypeDetector {
           text: 'text',
           groups: 'g[id]'
         };
+      case 'timeline':
+        return {
+          nodes: 'g.taskWrapper > g.timeline-node, g.eventWrapper > g.timeline-node',
+          text: 'text'
+        };
+      case 'pie':
+        return {
+          nodes: 'path.pieCircle, g.legend',
+          text: 'g.legend text'
+        };
+      case 'xychart':
+        return {
+          nodes: 'g.plot [class^="bar-plot"] rect',
+          text: 'g.bottom-axis g.label text'
+        };
+      case 'state':
+        return {
+          nodes: 'g.node.statediagram-state',
+          edgeLabels: 'g.edgeLabel',
+          text: 'text'
+        };
       case 'sequence':
         return {
           actors: 'g.actor, .actor, rect.actor, text.actor',
@@ -43,7 +73,7 @@ export class DiagramTypeDetector {
   }
 }
 
-export type DiagramType = 'sequence' | 'flowchart' | 'gantt' | 'pie' | 'generic';
+export type DiagramType = 'sequence' | 'flowchart' | 'timeline' | 'state' | 'gantt' | 'pie' | 'xychart' | 'generic';
 
 export interface DiagramSelectors {
   nodes?: string;
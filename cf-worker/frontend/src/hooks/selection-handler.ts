@@ -65,6 +65,16 @@ export class SelectionHandler {
       case 'sequence':
         this.setupSequenceSelection(svg);
         break;
+      case 'timeline':
+        this.setupTimelineSelection(svg);
+        break;
+      case 'state':
+        this.setupStateSelection(svg);
+        break;
+      case 'pie':
+      case 'xychart':
+        this.setupChartSelection(svg);
+        break;
       default:
         this.setupGenericSelection(svg);
     }
@@ -252,6 +262,70 @@ export class SelectionHandler {
     });
   }
 
+  private setupTimelineSelection(svg: SVGElement) {
+    // Events are selected together with their period so deep dives know when it happened
+    TextExtractor.extractTimelineEntries(svg).forEach(entry => {
+      const targets: { node: Element; text: string }[] = [
+        { node: entry.periodNode, text: entry.period },
+        ...entry.events.map(event => ({ node: event.node, text: entry.period ? `${entry.period}: ${event.text}` : event.text }))
+      ];
+
+      targets.forEach(({ node, text }) => {
+        if (!text) return;
+        (node as HTMLElement).style.cursor = 'pointer';
+        node.addEventListener('click', (e) => {
+          e.stopPropagation();
+          console.log('🖱️ Timeline node clicked:', text);
+          this.selectElement(node, text);
+          this.scrollToDeepDive();
+        });
+      });
+    });
+  }
+
+  private setupStateSelection(svg: SVGElement) {
+    // Start and end pseudo-states are plain circles without a label, so only named states are selectable
+    svg.querySelectorAll('g.node.statediagram-state').forEach(node => {
+      const text = TextExtractor.extractNodeText(node);
+      if (!text) return;
+      (node as HTMLElement).style.cursor = 'pointer';
+      node.addEventListener('click', (e) => {
+        e.stopPropagation();
+        console.log('🖱️ State clicked:', text);
+        this.selectElement(node, text);
+        this.scrollToDeepDive();
+      });
+    });
+
+    // Every transition gets an edge label group, even without a trigger; skip the empty ones
+    svg.querySelectorAll('g.edgeLabel').forEach(label => {
+      const trigger = TextExtractor.extractEdgeText(label);
+      if (!trigger) return;
+      (label as HTMLElement).style.cursor = 'pointer';
+      label.addEventListener('click', (e) => {
+        e.stopPropagation();
+        console.log('🖱️ Transition clicked:', trigger);
+        this.selectElement(label, `Transition: ${trigger}`);
+        this.scrollToDeepDive();
+      });
+    });
+  }
+
+  private setupChartSelection(svg: SVGElement) {
+    // Slices and bars are selected with their value so deep dives can explain the number
+    TextExtractor.extractChartData(svg).forEach(datum => {
+      datum.targets.forEach(target => {
+        (target as HTMLElement).style.cursor = 'pointer';
+        target.addEventListener('click', (e) => {
+          e.stopPropagation();
+          console.log('🖱️ Chart datum clicked:', datum.text);
+          this.selectElement(datum.shape, datum.text);
+          this.scrollToDeepDive();
+        });
+      });
+    });
+  }
+
   private setupGenericSelection(svg: SVGElement) {
     // Any text element
     const texts = svg.querySelectorAll('text');
@@ -306,6 +380,7 @@ export class SelectionHandler {
         break;
         
       case 'rect':
+      case 'path':
         const originalStroke = element.getAttribute('data-original-stroke');
         const originalWidth = element.getAttribute('data-original-stroke-width');
         if (originalStroke !== null) {
@@ -318,7 +393,7 @@ export class SelectionHandler {
         break;
         
       case 'g':
-        const shape = element.querySelector('rect, circle, ellipse, polygon');
+        const shape = element.querySelector('rect, circle, ellipse, polygon, path.node-bkg');
         if (shape) {
           const origStroke = shape.getAttribute('data-original-stroke');
           const origWidth = shape.getAttribute('data-original-stroke-width');
@@ -1,3 +1,21 @@
+export interface TimelineEntry {
+  period: string;
+  periodNode: Element;
+  events: { text: string; node: Element }[];
+}
+
+export interface ChartDatum {
+  label: string;
+  text: string; // label with value and unit, used as the deep dive selection
+  shape: Element; // slice or bar that is highlighted when selected
+  targets: Element[]; // elements that select this datum when clicked
+}
+
+function translateX(element: Element): number | null {
+  const match = (element.getAttribute('transform') || '').match(/translate\(\s*(-?[\d.]+)/);
+  return match ? parseFloat(match[1]) : null;
+}
+
 // Utility for extracting text content from different SVG elements
 export class TextExtractor {
   static cleanTextContent(text: string): string {
@@ -161,6 +179,73 @@ export class TextExtractor {
     return this.cleanTextContent(text);
   }
 
+  /**
+   * Mermaid draws each timeline period (g.taskWrapper) and its events (g.eventWrapper)
+   * as siblings in the same column, so events are matched to periods by x offset.
+   */
+  static extractTimelineEntries(svg: SVGElement): TimelineEntry[] {
+    const entries: (TimelineEntry & { x: number | null })[] = [];
+    svg.querySelectorAll('g.taskWrapper').forEach(wrapper => {
+      const periodNode = wrapper.querySelector('g.timeline-node') || wrapper;
+      entries.push({ period: this.extractNodeText(periodNode), periodNode, events: [], x: translateX(wrapper) });
+    });
+
+    svg.querySelectorAll('g.eventWrapper').forEach(wrapper => {
+      const node = wrapper.querySelector('g.timeline-node') || wrapper;
+      const x = translateX(wrapper);
+      const entry = entries.find(e => e.x !== null && x !== null && Math.abs(e.x - x) < 1);
+      entry?.events.push({ text: this.extractNodeText(node), node });
+    });
+
+    return entries.map(({ x: _x, ...entry }) => entry);
+  }
+
+  /**
+   * Pie slices, their legend entries and percentage labels are drawn in the same order;
+   * xychart bars line up with the x-axis labels, which carry the value as "Label (42)".
+   */
+  static extractChartData(svg: SVGElement): ChartDatum[] {
+    const data: ChartDatum[] = [];
+
+    const slices = svg.querySelectorAll('path.pieCircle');
+    if (slices.length) {
+      const legends = svg.querySelectorAll('g.legend');
+      const percents = svg.querySelectorAll('text.slice');
+      const title = svg.querySelector('.pieTitleText')?.textContent || '';
+      const unit = title.match(/\(([^()]+)\)\s*$/)?.[1] || '';
+
+      slices.forEach((slice, i) => {
+        const legend = legends[i];
+        const legendText = this.cleanTextContent(legend?.querySelector('text')?.textContent || '');
+        const match = legendText.match(/^(.*?)\s*\[([^\]]+)\]$/);
+        const label = match ? match[1] : legendText;
+        const percent = (percents[i]?.textContent || '').trim();
+        const text = match
+          ? `${label}: ${match[2]}${unit ? ` ${unit}` : ''}${percent ? ` (${percent})` : ''}`
+          : label;
+        if (label) {
+          data.push({ label, text, shape: slice, targets: legend ? [slice, legend] : [slice] });
+        }
+      });
+      return data;
+    }
+
+    const bars = svg.querySelectorAll('g.plot [class^="bar-plot"] rect');
+    const labels = svg.querySelectorAll('g.bottom-axis g.label text');
+    const unit = (svg.querySelector('g.left-axis g.title text')?.textContent || '').trim();
+    bars.forEach((bar, i) => {
+      const labelNode = labels[i];
+      const labelText = this.cleanTextContent(labelNode?.textContent || '');
+      const match = labelText.match(/^(.*?)\s*\((-?[\d.]+)\)$/);
+      const label = match ? match[1] : labelText;
+      const text = match ? `${label}: ${match[2]}${unit ? ` ${unit}` : ''}` : label;
+      if (label) {
+        data.push({ label, text, shape: bar, targets: labelNode ? [bar, labelNode] : [bar] });
+      }
+    });
+    return data;
+  }
+
   static isSelectableRect(rect: Element): boolean {
     const fill = rect.getAttribute('fill');
     
@@ -1,47 +1,77 @@
-import { useCallback } from 'react';
+import { useCallback, useRef } from 'react';
+import type { Dispatch, SetStateAction } from 'react';
 import { ClusterNode } from '../types/cluster';
 import { fetchClusterChildren } from '../lib/api';
 
+// Matches the worker's MAX_CLUSTER_DEPTH; the root's children are depth 1.
+const MAX_DRILL_DEPTH = 4;
+
+type DrillDownContext = {
+  query?: string;            // original query, the first entry of the ancestor path
+  universalContent?: string; // the root's Text tab content, sent as background
+  permalinkId?: string;      // the root map's share link, which the worker extends with loaded children
+  permalinkToken?: string;   // only present for the map's creator; without it the link is left as it is
+};
+
+// Nodes from the root down to `id`, or null when it is not in the tree.
+function findNodePath(node: ClusterNode, id: string): ClusterNode[] | null {
+  if (node.id === id) return [node];
+  for (const child of node.children || []) {
+    const path = findNodePath(child, id);
+    if (path) return [node, ...path];
+  }
+  return null;
+}
+
+function mergeChildren(node: ClusterNode, id: string, children: ClusterNode[]): ClusterNode {
+  if (node.id === id) return { ...node, children };
+  if (!node.children) return node;
+  return { ...node, children: node.children.map(child => mergeChildren(child, id, children)) };
+}
+
 export function useClusterLazyLoading(
   clusters: ClusterNode | null,
-  setClusters: (clusters: ClusterNode | null) => void
+  setClusters: Dispatch<SetStateAction<ClusterNode | null>>,
+  context: DrillDownContext = {}
 ) {
+  const loadingIds = useRef(new Set<string>());
+
   const loadClusterChildren = useCallback(async (clusterId: string) => {
-    if (!clusters) return;
-    
+    if (!clusters || loadingIds.current.has(clusterId)) return;
+
+    const nodePath = findNodePath(clusters, clusterId);
+    const node = nodePath?.[nodePath.length - 1];
+    // Groups that already have children were loaded before (or came with the root).
+    if (!nodePath || !node || node === clusters || node.children?.length) return;
+
+    const depth = nodePath.length - 1;
+    if (depth > MAX_DRILL_DEPTH) return;
+    const path = [context.query || clusters.label, ...nodePath.slice(1).map(n => n.label)];
+
+    loadingIds.current.add(clusterId);
     try {
-      console.log('🔄 Loading children for cluster:', clusterId);
-      const response = await fetchClusterChildren(clusterId);
-      
-      if (response.success && response.cluster) {
-        // Update the clusters tree with the new children
-        const updateClusterWithChildren = (node: ClusterNode): ClusterNode => {
-          if (node.id === clusterId) {
-            return {
-              ...node,
-              children: response.cluster.children || []
-            };
-          }
-          
-          if (node.children) {
-            return {
-              ...node,
-              children: node.children.map(updateClusterWithChildren)
-            };
-          }
-          
-          return node;
-        };
-        
-        const updatedClusters = updateClusterWithChildren(clusters);
-        setClusters(updatedClusters);
-        
+      console.log('🔄 Loading children for cluster:', path.join(' > '));
+      const response = await fetchClusterChildren(clusterId, {
+        path,
+        depth,
+        universal_content: context.universalContent || undefined,
+        permalink_id: context.permalinkId,
+        permalink_token: context.permalinkToken
+      });
+
+      const loaded = response.cluster;
+      if (response.success && loaded) {
+        const children = loaded.children || [];
+        // Merge into the latest tree so groups opened in parallel all keep their children.
+        setClusters(current => current ? mergeChildren(current, clusterId, children) : current);
         console.log('✅ Cluster children loaded successfully:', clusterId);
       }
     } catch (error) {
       console.error('❌ Failed to load cluster children:', error);
+    } finally {
+      loadingIds.current.delete(clusterId);
     }
-  }, [clusters, setClusters]);
+  }, [clusters, setClusters, context.query, context.universalContent, context.permalinkId, context.permalinkToken]);
   
   return { loadClusterChildren };
 }
@@ -1,5 +1,6 @@
 import { useState, useCallback, useRef } from 'react';
 import { SelectionHandler } from './selection-handler';
+import { RateLimitError, DeepDiveResponse, DeepDiveTurn } from '../lib/api';
 
 export interface SelectionState {
   selectedElement: Element | null;
@@ -7,15 +8,46 @@ export interface SelectionState {
   hasSelection: boolean;
 }
 
+// One conversation per selected node; threadId is null until the worker answers the first question.
+export interface DeepDiveThread {
+  selectedText: string;
+  threadId: string | null;
+  turns: DeepDiveTurn[];
+  // Follow-up questions offered as chips; refreshed after every answer
+  suggestions: string[];
+  updatedAt: number;
+}
+
+// The question being answered and the text streamed for it so far
+export interface PendingDeepDive {
+  selectedText: string;
+  question: string;
+  text: string;
+}
+
 export interface DeepDiveState {
   isProcessing: boolean;
-  response: string | null;
-  history: Array<{
-    selectedText: string;
-    question: string;
-    response: string;
-    timestamp: number;
-  }>;
+  error: string | null;
+  pending: PendingDeepDive | null;
+  // Threads for the current diagram, most recently used first
+  threads: DeepDiveThread[];
+}
+
+export type DeepDiveApiCall = (
+  params: { selectedText: string; question: string; threadId: string | null },
+  handlers: { onThread: (threadId: string) => void; onDelta: (text: string) => void },
+  signal: AbortSignal
+) => Promise<DeepDiveResponse>;
+
+const EMPTY_DEEP_DIVE: DeepDiveState = {
+  isProcessing: false,
+  error: null,
+  pending: null,
+  threads: [],
+};
+
+function upsertThread(threads: DeepDiveThread[], thread: DeepDiveThread): DeepDiveThread[] {
+  return [thread, ...threads.filter(t => t.selectedText !== thread.selectedText)];
 }
 
 export function useSelection() {
@@ -25,13 +57,11 @@ export function useSelection() {
     hasSelection: false,
   });
 
-  const [deepDive, setDeepDive] = useState<DeepDiveState>({
-    isProcessing: false,
-    response: null,
-    history: [],
-  });
+  const [deepDive, setDeepDive] = useState<DeepDiveState>(EMPTY_DEEP_DIVE);
 
   const selectionHandlerRef = useRef<SelectionHandler | null>(null);
+  const deepDiveAbortRef = useRef<AbortController | null>(null);
+  const suggestionsRequestedRef = useRef(new Set<string>());
 
   const clearSelection = useCallback(() => {
     setSelection(prevSelection => {
@@ -46,12 +76,8 @@ export function useSelection() {
       };
     });
 
-    // Also clear Deep Dive state when clearing selection
-    setDeepDive({
-      isProcessing: false,
-      response: null,
-      history: [],
-    });
+    // Threads are kept so the panel can return to them; only the pending state is dropped
+    setDeepDive(prev => ({ ...prev, isProcessing: false, error: null }));
   }, []);
 
   const selectElement = useCallback((element: Element, text: string) => {
@@ -72,20 +98,24 @@ export function useSelection() {
       };
     });
 
-    // Reset Deep Dive state when switching to a different selection
-    setDeepDive(prevDeepDive => {
-      // Only reset if the selected text is different
-      if (prevDeepDive.history.length > 0 && 
-          prevDeepDive.history[prevDeepDive.history.length - 1]?.selectedText !== text) {
-        return {
-          isProcessing: false,
-          response: null,
-          history: [],
-        };
+    // Switching nodes shows that node's thread, so only the last error is dropped
+    setDeepDive(prevDeepDive => ({ ...prevDeepDive, error: null }));
+  }, []); // Remove dependency on selection.selectedElement to make it stable
+
+  // Reopens an earlier thread; its node may no longer be highlighted in the diagram
+  const openThread = useCallback((selectedText: string) => {
+    setSelection(prevSelection => {
+      if (prevSelection.selectedElement) {
+        removeSelectionStyling(prevSelection.selectedElement);
       }
-      return prevDeepDive;
+      return {
+        selectedElement: null,
+        selectedText,
+        hasSelection: true,
+      };
     });
-  }, []); // Remove dependency on selection.selectedElement to make it stable
+    setDeepDive(prevDeepDive => ({ ...prevDeepDive, error: null }));
+  }, []);
 
   const setupSelectionHandler = useCallback((container: HTMLElement) => {
     if (selectionHandlerRef.current) {
@@ -100,44 +130,134 @@ export function useSelection() {
     selectionHandlerRef.current.setupForContainer(container);
   }, [selectElement, clearSelection]);
 
-  const askDeepDive = useCallback(async (question: string, apiCall: (params: any) => Promise<any>) => {
+  const askDeepDive = useCallback(async (question: string, apiCall: DeepDiveApiCall) => {
     if (!selection.hasSelection || !question.trim()) {
       return;
     }
 
-    setDeepDive(prev => ({ ...prev, isProcessing: true }));
+    const selectedText = selection.selectedText;
+    const trimmedQuestion = question.trim();
+    const existing = deepDive.threads.find(t => t.selectedText === selectedText);
+    let threadId = existing?.threadId ?? null;
+    let streamedText = '';
 
-    try {
-      const response = await apiCall({
-        selectedText: selection.selectedText,
-        question: question.trim(),
-      });
+    deepDiveAbortRef.current?.abort();
+    const controller = new AbortController();
+    deepDiveAbortRef.current = controller;
+    setDeepDive(prev => ({
+      ...prev,
+      isProcessing: true,
+      error: null,
+      pending: { selectedText, question: trimmedQuestion, text: '' },
+    }));
 
-      const newEntry = {
-        selectedText: selection.selectedText,
-        question: question.trim(),
-        response: response.response || response,
-        timestamp: Date.now(),
-      };
+    try {
+      const response = await apiCall(
+        { selectedText, question: trimmedQuestion, threadId },
+        {
+          onThread: id => { threadId = id; },
+          onDelta: text => {
+            streamedText += text;
+            setDeepDive(prev => prev.pending
+              ? { ...prev, pending: { ...prev.pending, text: prev.pending.text + text } }
+              : prev);
+          },
+        },
+        controller.signal
+      );
 
+      // The worker's turns are authoritative, e.g. when an expired thread was restarted
       setDeepDive(prev => ({
         ...prev,
         isProcessing: false,
-        response: response.response || response,
-        history: [...prev.history, newEntry],
+        pending: null,
+        threads: upsertThread(prev.threads, {
+          selectedText,
+          threadId: response.thread_id,
+          turns: response.turns,
+          suggestions: response.suggestions ?? [],
+          updatedAt: Date.now(),
+        }),
       }));
     } catch (error) {
+      if (controller.signal.aborted) {
+        // Cleared by a new search or replaced by another question; nothing to keep
+        if (deepDiveAbortRef.current !== controller) return;
+        // Stopped by the user: keep what was streamed, as the worker does
+        setDeepDive(prev => {
+          const thread = prev.threads.find(t => t.selectedText === selectedText);
+          const turns = thread?.turns ?? [];
+          return {
+            ...prev,
+            isProcessing: false,
+            pending: null,
+            threads: streamedText.trim()
+              ? upsertThread(prev.threads, {
+                selectedText,
+                threadId,
+                turns: [...turns, { question: trimmedQuestion, response: streamedText.trim(), timestamp: Date.now(), stopped: true }],
+                suggestions: thread?.suggestions ?? [],
+                updatedAt: Date.now(),
+              })
+              : prev.threads,
+          };
+        });
+        return;
+      }
       console.error('Deep dive error:', error);
-      setDeepDive(prev => ({ ...prev, isProcessing: false }));
+      setDeepDive(prev => ({
+        ...prev,
+        isProcessing: false,
+        pending: null,
+        error: error instanceof RateLimitError ? error.message : 'Could not answer that question. Please try again.',
+      }));
+    } finally {
+      if (deepDiveAbortRef.current === controller) {
+        deepDiveAbortRef.current = null;
+      }
+    }
+  }, [selection.hasSelection, selection.selectedText, deepDive.threads]);
+
+  // Fetches starter questions once per node; answers bring their own suggestions afterwards
+  const loadSuggestions = useCallback(async (selectedText: string, fetchSuggestions: () => Promise<string[]>) => {
+    if (!selectedText || suggestionsRequestedRef.current.has(selectedText)) {
+      return;
     }
-  }, [selection.hasSelection, selection.selectedText]);
+    suggestionsRequestedRef.current.add(selectedText);
+
+    try {
+      const suggestions = await fetchSuggestions();
+      setDeepDive(prev => {
+        const thread = prev.threads.find(t => t.selectedText === selectedText);
+        if (!thread) {
+          return {
+            ...prev,
+            threads: [...prev.threads, { selectedText, threadId: null, turns: [], suggestions, updatedAt: Date.now() }],
+          };
+        }
+        // An answer that arrived first already brought fresher suggestions
+        if (thread.suggestions.length) return prev;
+        return {
+          ...prev,
+          threads: prev.threads.map(t => t === thread ? { ...t, suggestions } : t),
+        };
+      });
+    } catch (error) {
+      console.warn('Deep dive suggestions failed:', error);
+      suggestionsRequestedRef.current.delete(selectedText);
+    }
+  }, []);
+
+  // Cancels the streamed answer; the worker stops the upstream call when the connection closes
+  const stopDeepDive = useCallback(() => {
+    deepDiveAbortRef.current?.abort();
+  }, []);
 
   const clearDeepDive = useCallback(() => {
-    setDeepDive({
-      isProcessing: false,
-      response: null,
-      history: [],
-    });
+    deepDiveAbortRef.current?.abort();
+    deepDiveAbortRef.current = null;
+    suggestionsRequestedRef.current.clear();
+    setDeepDive(EMPTY_DEEP_DIVE);
   }, []);
 
   return {
@@ -147,6 +267,9 @@ export function useSelection() {
     selectElement,
     setupSelectionHandler,
     askDeepDive,
+    loadSuggestions,
+    stopDeepDive,
+    openThread,
     clearDeepDive,
   };
 }
@@ -167,6 +290,7 @@ function applySelectionStyling(element: Element) {
       break;
       
     case 'rect':
+    case 'path':
       element.setAttribute('data-original-stroke', element.getAttribute('stroke') || '');
       element.setAttribute('data-original-stroke-width', element.getAttribute('stroke-width') || '');
       element.setAttribute('stroke', '#ffb300');
@@ -175,7 +299,7 @@ function applySelectionStyling(element: Element) {
       break;
       
     case 'g':
-      const shape = element.querySelector('rect, circle, ellipse, polygon');
+      const shape = element.querySelector('rect, circle, ellipse, polygon, path.node-bkg');
       if (shape) {
         shape.setAttribute('data-original-stroke', shape.getAttribute('stroke') || '');
         shape.setAttribute('data-original-stroke-width', shape.getAttribute('stroke-width') || '');
@@ -208,6 +332,7 @@ function removeSelectionStyling(element: Element) {
       break;
       
     case 'rect':
+    case 'path':
       const originalStroke = element.getAttribute('data-original-stroke');
       const originalWidth = element.getAttribute('data-original-stroke-width');
       if (originalStroke !== null) {
@@ -220,7 +345,7 @@ function removeSelectionStyling(element: Element) {
       break;
       
     case 'g':
-      const shape = element.querySelector('rect, circle, ellipse, polygon');
+      const shape = element.querySelector('rect, circle, ellipse, polygon, path.node-bkg');
       if (shape) {
         const origStroke = shape.getAttribute('data-original-stroke');
         const origWidth = shape.getAttribute('data-original-stroke-width');
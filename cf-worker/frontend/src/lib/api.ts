@@ -1,3 +1,17 @@
+export type UsageCall = {
+  stage: string;
+  model: string;
+  input_tokens: number;
+  output_tokens: number;
+  cached_tokens: number;
+  cost_usd: number;
+};
+
+export type UsageSummary = Omit<UsageCall, 'stage' | 'model'> & {
+  request_id: string;
+  calls: UsageCall[];
+};
+
 export type DiagramResponse = {
   success: true;
   query: string;
@@ -9,47 +23,477 @@ export type DiagramResponse = {
   render_type: string;
   rendered_content: string;
   diagram_meta?: any;
+  intent?: QueryIntent;
+  // 'foamtree' when the query is better shown as a topic map; the search results are then loaded from /api/cluster
+  view?: 'mermaid' | 'foamtree';
+  // Short id of the stored result; /d/:id shows it again without regenerating
+  permalink_id?: string;
+  // Only the creator gets it; lets a browser repair update the stored diagram
+  permalink_token?: string;
+  usage?: UsageSummary;
+};
+
+export type DetailLevel = 'brief' | 'standard' | 'detailed';
+
+// Skips the worker's type selection; 'topic_map' answers with the FoamTree view instead of Mermaid.
+export type RequestedDiagramType =
+  | 'flowchart'
+  | 'radial_mindmap'
+  | 'sequence_comparison'
+  | 'timeline'
+  | 'quantitative_chart'
+  | 'state_diagram'
+  | 'topic_map';
+
+export type DescribeOptions = {
+  diagramType?: RequestedDiagramType;
+  detailLevel?: DetailLevel;
+};
+
+function describeBody(query: string, options: DescribeOptions): string {
+  return JSON.stringify({ query, diagram_type: options.diagramType, detail_level: options.detailLevel });
+}
+
+// How the worker will answer a query; see src/intent.ts.
+export type QueryIntent = {
+  view: 'mermaid' | 'foamtree';
+  diagram_type: string;
+  complexity: 'simple' | 'complex';
+  language: string;
+  needs_fresh_data: boolean;
+  source: 'heuristic' | 'llm';
+  confident: boolean;
 };
 
 export type DeepDiveRequest = {
   selected_text: string;
   question: string;
   original_query?: string;
+  universal_content?: string;
+  // Continues a server-side thread; the worker starts a new one if it expired.
+  thread_id?: string;
+  // Capped by the worker's DEEP_DIVE_MAX_TOKENS
+  max_tokens?: number;
+};
+
+export type DeepDiveTurn = {
+  question: string;
+  response: string;
+  timestamp: number;
+  stopped?: boolean;
 };
 
 export type DeepDiveResponse = {
   success: true;
   response: string;
+  thread_id: string;
+  turns: DeepDiveTurn[];
+  // Follow-up questions for the chips under the answer
+  suggestions: string[];
+  max_tokens: number;
+  usage?: UsageSummary;
 };
 
+export type DeepDiveStreamEvent =
+  | { event: 'thread'; data: { thread_id: string; max_tokens: number } }
+  | { event: 'delta'; data: { text: string } }
+  | { event: 'done'; data: DeepDiveResponse };
+
 // Cluster API types
 import type { ClusterNode } from '../types/cluster';
 
-export async function describe(query: string): Promise<DiagramResponse> {
-  const res = await fetch('/api/describe', { method: 'POST', headers: { 'content-type': 'application/json' }, body: JSON.stringify({ query }) });
-  if (!res.ok) throw new Error(`API error ${res.status}`);
+// Thrown when the worker answers 429; the message is safe to show to the user.
+export class RateLimitError extends Error {
+  retryAfter: number;
+
+  constructor(message: string, retryAfter: number) {
+    super(message);
+    this.name = 'RateLimitError';
+    this.retryAfter = retryAfter;
+  }
+}
+
+const SESSION_STORAGE_KEY = 'infflow_session_id';
+
+// Per-tab id sent as X-Session-Id so the worker can rate limit per session.
+function getSessionId(): string {
+  try {
+    let id = sessionStorage.getItem(SESSION_STORAGE_KEY);
+    if (!id) {
+      id = typeof crypto !== 'undefined' && 'randomUUID' in crypto ? crypto.randomUUID() : `session-${Date.now()}`;
+      sessionStorage.setItem(SESSION_STORAGE_KEY, id);
+    }
+    return id;
+  } catch {
+    return '';
+  }
+}
+
+export function apiHeaders(extra: Record<string, string> = {}): Record<string, string> {
+  const sessionId = getSessionId();
+  return { 'content-type': 'application/json', ...(sessionId ? { 'x-session-id': sessionId } : {}), ...extra };
+}
+
+export async function toApiError(res: Response): Promise<Error> {
+  const detail = await res.text().catch(() => '');
+  if (res.status === 429) {
+    let message = 'Too many requests. Please wait a moment and try again.';
+    try {
+      message = JSON.parse(detail).detail || message;
+    } catch {
+      // Non-JSON body; keep the default message.
+    }
+    return new RateLimitError(message, Number(res.headers.get('retry-after')) || 0);
+  }
+  return new Error(`API error ${res.status}${detail ? `: ${detail}` : ''}`);
+}
+
+export async function describe(query: string, options: DescribeOptions = {}): Promise<DiagramResponse> {
+  const res = await fetch('/api/describe', { method: 'POST', headers: apiHeaders(), body: describeBody(query, options) });
+  if (!res.ok) throw await toApiError(res);
   return res.json();
 }
 
+export type DescribeStreamEvent =
+  | { event: 'diagram_type'; data: { diagram_type: string } }
+  | { event: 'diagram_meta'; data: { diagram_meta: any } }
+  | { event: 'mermaid_code'; data: { diagram_type: string; diagram: string; content: string; description: string } }
+  | { event: 'universal_content'; data: { universal_content: string } }
+  | { event: 'timing'; data: { request_id: string; total_ms: number; steps: { step: string; duration_ms: number }[] } }
+  | { event: 'done'; data: DiagramResponse };
+
+// Streams /api/describe as Server-Sent Events, reporting each phase as it arrives.
+// Resolves with the complete response carried by the final `done` event.
+export async function describeStream(
+  query: string,
+  onEvent: (event: DescribeStreamEvent) => void,
+  signal?: AbortSignal,
+  options: DescribeOptions = {}
+): Promise<DiagramResponse> {
+  const res = await fetch('/api/describe', {
+    method: 'POST',
+    headers: apiHeaders({ accept: 'text/event-stream' }),
+    body: describeBody(query, options),
+    signal
+  });
+  if (!res.ok) throw await toApiError(res);
+
+  // Workers without streaming support answer with a single JSON body.
+  if (!(res.headers.get('content-type') || '').includes('text/event-stream') || !res.body) {
+    const data = await res.json() as DiagramResponse;
+    onEvent({ event: 'done', data });
+    return data;
+  }
+
+  let final: DiagramResponse | null = null;
+  await readEventStream(res.body, ({ event, data }) => {
+    if (event === 'error') throw new Error(data?.detail || 'Diagram stream failed');
+    if (event === 'done') final = data;
+    onEvent({ event, data } as DescribeStreamEvent);
+  });
+  if (!final) throw new Error('Diagram stream ended before completion');
+  return final;
+}
+
+export async function readEventStream(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: { event: string; data: any }) => void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let boundary: number;
+    while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+      const chunk = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      const parsed = parseEventChunk(chunk);
+      if (parsed) onEvent(parsed);
+    }
+  }
+}
+
+function parseEventChunk(chunk: string): { event: string; data: any } | null {
+  let event = 'message';
+  const dataLines: string[] = [];
+  for (const line of chunk.split('\n')) {
+    if (line.startsWith('event:')) event = line.slice(6).trim();
+    else if (line.startsWith('data:')) dataLines.push(line.slice(5).trimStart());
+  }
+  if (!dataLines.length) return null;
+  try {
+    return { event, data: JSON.parse(dataLines.join('\n')) };
+  } catch {
+    return null;
+  }
+}
+
 export async function callDeepDiveApi(params: DeepDiveRequest): Promise<DeepDiveResponse> {
   const res = await fetch('/api/deep-dive', { 
     method: 'POST', 
-    headers: { 'content-type': 'application/json' }, 
+    headers: apiHeaders(), 
     body: JSON.stringify(params) 
   });
-  if (!res.ok) throw new Error(`API error ${res.status}`);
+  if (!res.ok) throw await toApiError(res);
   return res.json();
 }
 
-export async function fetchClusterChildren(clusterId: string): Promise<{ success: boolean; cluster?: ClusterNode; detail?: string; universal_content?: string }>{
-  const res = await fetch('/api/cluster', {
+// Suggested first questions for a node, fetched when the Deep Dive panel opens.
+export async function fetchDeepDiveSuggestions(
+  params: { selected_text: string; original_query?: string; thread_id?: string },
+  signal?: AbortSignal
+): Promise<string[]> {
+  const res = await fetch('/api/deep-dive/suggestions', {
+    method: 'POST',
+    headers: apiHeaders(),
+    body: JSON.stringify(params),
+    signal
+  });
+  if (!res.ok) throw await toApiError(res);
+  const data = await res.json() as { success: boolean; suggestions: string[] };
+  return data.suggestions || [];
+}
+
+// Streams the answer as it is generated. Aborting `signal` stops the worker's upstream call;
+// the partial answer is kept in the thread as a stopped turn.
+export async function streamDeepDive(
+  params: DeepDiveRequest,
+  onEvent: (event: DeepDiveStreamEvent) => void,
+  signal?: AbortSignal
+): Promise<DeepDiveResponse> {
+  const res = await fetch('/api/deep-dive', {
+    method: 'POST',
+    headers: apiHeaders({ accept: 'text/event-stream' }),
+    body: JSON.stringify(params),
+    signal
+  });
+  if (!res.ok) throw await toApiError(res);
+
+  if (!(res.headers.get('content-type') || '').includes('text/event-stream') || !res.body) {
+    const data = await res.json() as DeepDiveResponse;
+    onEvent({ event: 'done', data });
+    return data;
+  }
+
+  let final: DeepDiveResponse | null = null;
+  await readEventStream(res.body, ({ event, data }) => {
+    if (event === 'error') throw new Error(data?.detail || 'Deep dive stream failed');
+    if (event === 'done') final = data;
+    onEvent({ event, data } as DeepDiveStreamEvent);
+  });
+  if (!final) throw new Error('Deep dive stream ended before completion');
+  return final;
+}
+
+export type NodeLink = {
+  title: string;
+  url: string;
+  snippet?: string | null;
+  favicon?: string | null;
+  domain?: string;
+  score?: number;
+};
+
+export type NodeSearchRequest = {
+  query: string;
+  phrase?: string;
+  entity?: string;
+  theme?: string;
+  keywords?: string[];
+  search?: string;
+  date?: string;
+  count?: number;
+  freshness?: 'day' | 'week' | 'month' | 'year';
+  safesearch?: 'off' | 'moderate' | 'strict';
+  include_domains?: string[];
+  exclude_domains?: string[];
+};
+
+// Failures (including 429s) keep this shape with an `error_type` and a `detail` that is safe to show.
+export type NodeSearchResponse = {
+  items: NodeLink[];
+  debug?: any;
+  error_type?: string;
+  detail?: string;
+};
+
+export async function searchNodeLinks(body: NodeSearchRequest): Promise<NodeSearchResponse> {
+  const res = await fetch('/api/node-search', {
     method: 'POST',
-    headers: { 'content-type': 'application/json' },
-    body: JSON.stringify({ clusterId })
+    headers: apiHeaders(),
+    body: JSON.stringify(body)
   });
-  if (!res.ok) {
-    const detail = await res.text().catch(() => '');
-    throw new Error(`API error ${res.status}${detail ? `: ${detail}` : ''}`);
+  try {
+    return await res.json() as NodeSearchResponse;
+  } catch {
+    return { items: [], error_type: 'invalid_response', detail: `Link search failed (HTTP ${res.status}).` };
   }
+}
+
+export type DiagramRepairRequest = {
+  code: string;
+  error: string;
+  query?: string;
+  diagram_type?: string;
+  // The repaired code replaces the stored diagram of this permalink
+  permalink_id?: string;
+  permalink_token?: string;
+};
+
+export type DiagramRepairResponse = {
+  success: true;
+  diagram: string;
+  repaired: boolean;
+  attempts: number;
+  usage?: UsageSummary;
+};
+
+// Sends code that mermaid failed to render back to the worker for an LLM repair.
+export async function repairDiagram(params: DiagramRepairRequest): Promise<DiagramRepairResponse> {
+  const res = await fetch('/api/diagram/repair', {
+    method: 'POST',
+    headers: apiHeaders(),
+    body: JSON.stringify(params)
+  });
+  if (!res.ok) throw await toApiError(res);
+  return res.json();
+}
+
+export type RefineRequest = {
+  code: string;
+  instruction: string;
+  diagram_type: string;
+  diagram_meta?: any;
+  query?: string;
+  permalink_id?: string;
+};
+
+export type RefineResponse = {
+  success: true;
+  diagram: string;
+  diagram_meta: any;
+  diagram_type: string;
+  summary: string;
+  changed: boolean;
+  // Node ids compared before and after the edit
+  node_ids: { kept: string[]; added: string[]; removed: string[] };
+  repaired: boolean;
+  permalink_id?: string; // present when the refined result was shared as a new link
+  permalink_token?: string;
+  usage?: UsageSummary;
+};
+
+// Applies a plain-language edit to the current diagram. A 422 means the edit was rejected and the diagram is unchanged.
+export async function refineDiagram(params: RefineRequest): Promise<RefineResponse> {
+  const res = await fetch('/api/refine', {
+    method: 'POST',
+    headers: apiHeaders(),
+    body: JSON.stringify(params)
+  });
+  if (!res.ok) throw await toApiError(res);
+  return res.json();
+}
+
+// Mirrors MAX_EXPAND_DEPTH in the worker's src/node-expand.ts
+export const MAX_EXPAND_DEPTH = 4;
+
+// "Expand" on a diagram node. `path` lists the nodes already expanded between the original query and this one.
+export type ExpandNodeRequest = {
+  query: string;
+  node_text: string;
+  node_meta?: any;
+  path?: string[];
+};
+
+export type ExpandNodeResponse = DiagramResponse & {
+  node_text: string;
+  trail: string[]; // original query, then each expanded node label
+  depth: number;   // the worker allows at most 4
+};
+
+export async function expandNode(params: ExpandNodeRequest): Promise<ExpandNodeResponse> {
+  const res = await fetch('/api/expand', {
+    method: 'POST',
+    headers: apiHeaders(),
+    body: JSON.stringify(params)
+  });
+  if (!res.ok) throw await toApiError(res);
+  return res.json();
+}
+
+export type RenderOutcome = 'rendered' | 'repaired' | 'outline';
+
+// Fire-and-forget: lets the worker count how often diagrams need repair or the outline fallback.
+export function reportRenderOutcome(outcome: RenderOutcome, diagramType?: string): void {
+  fetch('/api/diagram/render-outcome', {
+    method: 'POST',
+    headers: apiHeaders(),
+    body: JSON.stringify({ outcome, diagram_type: diagramType }),
+    keepalive: true
+  }).catch(error => console.warn('Failed to report render outcome:', error));
+}
+
+// Opened FoamTree group: `path` runs from the original query to the group's label, `depth` is path.length - 1.
+// The worker caps depth at 4 and omits universal_content, so the root's Text tab stays as it is.
+export type ClusterDrillDown = {
+  path: string[];
+  depth: number;
+  universal_content?: string;
+  // The root map's permalink; the worker adds the loaded children to it when the token matches
+  permalink_id?: string;
+  permalink_token?: string;
+};
+
+// Normalizations the worker applied to the generated tree (see src/cluster-schema.ts); for debugging only.
+export type ClusterWarning = {
+  code: string;
+  severity: 'error' | 'warning';
+  node: string;
+  message: string;
+};
+
+export async function fetchClusterChildren(
+  clusterId: string,
+  drillDown?: ClusterDrillDown
+): Promise<{ success: boolean; cluster?: ClusterNode; detail?: string; universal_content?: string; depth?: number; permalink_id?: string; permalink_token?: string; warnings?: ClusterWarning[]; repaired?: boolean; usage?: UsageSummary }>{
+  const res = await fetch('/api/cluster', {
+    method: 'POST',
+    headers: apiHeaders(),
+    body: JSON.stringify({ clusterId, ...drillDown })
+  });
+  if (!res.ok) throw await toApiError(res);
   return res.json();
 }
+
+// A stored describe or topic map result, as served by GET /api/diagram/:id
+export type Permalink = {
+  id: string;
+  view: 'diagram' | 'topic_map';
+  query: string;
+  diagram_type: string;
+  universal_content: string;
+  created_at: number;
+  diagram?: string;
+  diagram_meta?: any;
+  content?: string;
+  description?: string;
+  cluster?: ClusterNode;
+};
+
+// Null when the link expired or never existed.
+export async function fetchPermalink(id: string): Promise<Permalink | null> {
+  const res = await fetch(`/api/diagram/${encodeURIComponent(id)}`, { headers: apiHeaders() });
+  if (res.status === 404 || res.status === 400) return null;
+  if (!res.ok) throw await toApiError(res);
+  const data = await res.json() as { success: boolean; permalink: Permalink };
+  return data.permalink;
+}
+
+export function permalinkUrl(id: string): string {
+  return `${window.location.origin}/d/${id}`;
+}
@@ -1,4 +1,6 @@
 // src/lib/mermaid/decorateNodesWithSearch.ts
+import { TextExtractor } from '../../hooks/text-extractor';
+
 type DecorateOptions = {
   svg: SVGSVGElement;
   originalQuery: string;
@@ -11,6 +13,8 @@ type DecorateOptions = {
     query: string;
     meta?: any;
   }) => void;
+  // When set, nodes also get an "Expand" button that opens a child diagram for the node
+  onExpand?: (arg: { nodeText: string; nodeId: string; meta?: any }) => void;
   excludeIds?: Set<string>;
 };
 
@@ -19,6 +23,97 @@ function getNodeText(g: SVGGElement): string {
   return (text?.textContent || "").trim().replace(/\s+/g, " ");
 }
 
+type TimelineNodeInfo = { factIndex: number; period: string };
+
+// Timeline nodes have no ids, so tag them and map each to its diagram_meta fact:
+// facts are listed per event in order, and a period points at its first event.
+function collectTimelineNodes(svg: SVGSVGElement): Map<SVGGElement, TimelineNodeInfo> {
+  const nodes = new Map<SVGGElement, TimelineNodeInfo>();
+  if (!svg.querySelector('.timeline-node')) return nodes;
+
+  let eventIndex = 0;
+  TextExtractor.extractTimelineEntries(svg).forEach((entry, periodIndex) => {
+    const periodNode = entry.periodNode as SVGGElement;
+    periodNode.setAttribute('id', `timeline-period-${periodIndex}`);
+    nodes.set(periodNode, { factIndex: entry.events.length ? eventIndex : -1, period: entry.period });
+
+    entry.events.forEach(event => {
+      const eventNode = event.node as SVGGElement;
+      eventNode.setAttribute('id', `timeline-event-${eventIndex}`);
+      nodes.set(eventNode, { factIndex: eventIndex, period: entry.period });
+      eventIndex++;
+    });
+  });
+  return nodes;
+}
+
+type StateNodeInfo = { stateIndex: number; name: string };
+
+// State nodes are ids like "state-SynSent-3" whose labels may be HTML, so keep each
+// named state's label and its position; start and end pseudo-states have no label.
+function collectStateNodes(svg: SVGSVGElement): Map<SVGGElement, StateNodeInfo> {
+  const nodes = new Map<SVGGElement, StateNodeInfo>();
+  svg.querySelectorAll<SVGGElement>('g.node.statediagram-state').forEach(g => {
+    const name = TextExtractor.extractNodeText(g);
+    if (name) nodes.set(g, { stateIndex: nodes.size, name });
+  });
+  return nodes;
+}
+
+const normalizeStateName = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Facts carry a "state" field naming their state; fall back to order when the model left it out
+function findStateFact(facts: any[], g: SVGGElement, info: StateNodeInfo): any {
+  const stateId = g.getAttribute('id')?.match(/^state-(.+)-\d+$/)?.[1] || '';
+  const names = [info.name, stateId].map(normalizeStateName).filter(Boolean);
+  return facts.find(fact => typeof fact?.state === 'string' && names.includes(normalizeStateName(fact.state)))
+    || facts[info.stateIndex];
+}
+
+// Blue "+" counterpart of the search button, placed on the other side of the node.
+function createExpandButton(cx: number, cy: number, r: number): SVGGElement {
+  const button = document.createElementNS("http://www.w3.org/2000/svg", "g");
+  // Shares the __search class so the cleanup passes remove it with the search button
+  button.classList.add("__search", "__expand");
+  button.setAttribute("cursor", "pointer");
+  button.setAttribute("role", "button");
+  button.setAttribute("aria-label", "Expand this node into its own diagram");
+  button.setAttribute("opacity", "0");
+  button.style.transition = "opacity 0.2s ease-in-out";
+
+  const circle = document.createElementNS("http://www.w3.org/2000/svg", "circle");
+  circle.setAttribute("cx", String(cx));
+  circle.setAttribute("cy", String(cy));
+  circle.setAttribute("r", String(r));
+  circle.setAttribute("fill", "#2563eb");
+  circle.setAttribute("stroke", "#ffffff");
+  circle.setAttribute("stroke-width", "3");
+  circle.setAttribute("filter", "url(#search-shadow)");
+
+  // Lucide Plus icon path data, scaled like the search icon
+  const plusPath = document.createElementNS("http://www.w3.org/2000/svg", "path");
+  const scale = (r * 1.2) / 24;
+  plusPath.setAttribute("d", "M12 5v14M5 12h14");
+  plusPath.setAttribute("transform", `translate(${cx - 12 * scale}, ${cy - 12 * scale}) scale(${scale})`);
+  plusPath.setAttribute("stroke", "#ffffff");
+  plusPath.setAttribute("stroke-width", "3");
+  plusPath.setAttribute("stroke-linecap", "round");
+  plusPath.setAttribute("fill", "none");
+
+  button.appendChild(circle);
+  button.appendChild(plusPath);
+
+  button.addEventListener("mouseenter", () => {
+    circle.setAttribute("fill", "#3b82f6");
+    circle.setAttribute("r", String(r + 2));
+  });
+  button.addEventListener("mouseleave", () => {
+    circle.setAttribute("fill", "#2563eb");
+    circle.setAttribute("r", String(r));
+  });
+  return button;
+}
+
 function isSubgraph(g: SVGGElement): boolean {
   // Check if this is a subgraph container by looking for characteristic subgraph elements
   const id = g.getAttribute("id") || "";
@@ -48,7 +143,13 @@ function isSubgraph(g: SVGGElement): boolean {
 }
 
 export function decorateNodesWithSearch(opts: DecorateOptions) {
-  const { svg, originalQuery, diagramMeta, onOpenPopover, excludeIds = new Set() } = opts;
+  const { svg, originalQuery, diagramMeta, onOpenPopover, onExpand, excludeIds = new Set() } = opts;
+
+  // Charts have no node groups to decorate; their slices and bars are selectable for deep dives instead
+  if (svg.querySelector('path.pieCircle, g.plot [class^="bar-plot"]')) {
+    console.log('[decorateNodesWithSearch] Chart diagram detected, skipping search decorations');
+    return;
+  }
 
   // CLEANUP: Remove all existing decorations from previous renders to prevent duplicates
   console.log('[decorateNodesWithSearch] Cleaning up existing decorations...');
@@ -157,11 +258,19 @@ export function decorateNodesWithSearch(opts: DecorateOptions) {
   ];
 
   const nodeGroups = new Set<SVGGElement>();
-
-  selectors.forEach(selector => {
-    const found = svg.querySelectorAll<SVGGElement>(selector);
-    found.forEach(g => nodeGroups.add(g));
-  });
+  const timelineNodes = collectTimelineNodes(svg);
+  const stateNodes = collectStateNodes(svg);
+
+  if (timelineNodes.size) {
+    timelineNodes.forEach((_, g) => nodeGroups.add(g));
+  } else if (stateNodes.size) {
+    stateNodes.forEach((_, g) => nodeGroups.add(g));
+  } else {
+    selectors.forEach(selector => {
+      const found = svg.querySelectorAll<SVGGElement>(selector);
+      found.forEach(g => nodeGroups.add(g));
+    });
+  }
 
   // Fallback: find any group with text content that looks like a node
   if (nodeGroups.size === 0) {
@@ -328,10 +437,10 @@ export function decorateNodesWithSearch(opts: DecorateOptions) {
       searchButton.setAttribute("opacity", "0");
     });
 
-    searchButton.addEventListener("mousedown", (e: Event) => e.stopPropagation());
-    searchButton.addEventListener("click", (e: Event) => {
-      e.stopPropagation();
-      const nodeText = getNodeText(g);
+    // Node text and its diagram_meta fact, for both the search and expand buttons
+    const resolveNode = () => {
+      const stateNode = stateNodes.get(g);
+      const nodeText = stateNode?.name || getNodeText(g);
       const nodeId = id;
       const q = `${originalQuery} "${nodeText}"`;
       // Extract the actual node letter from the nodeId (e.g., "D" from "flowchart-D-3")
@@ -343,7 +452,15 @@ export function decorateNodesWithSearch(opts: DecorateOptions) {
       // Handle the metadata structure - it should be { facts: [...] }
       const factsArray = (diagramMeta as any)?.facts || diagramMeta;
 
-      if (factsArray && Array.isArray(factsArray)) {
+      const timelineNode = timelineNodes.get(g);
+      if (timelineNode) {
+        const fact = Array.isArray(factsArray) ? factsArray[timelineNode.factIndex] : undefined;
+        // The period label is the event's date even when the model left it out of the metadata
+        factMeta = { ...(fact || {}), date: fact?.date || timelineNode.period };
+      } else if (stateNode) {
+        const fact = Array.isArray(factsArray) ? findStateFact(factsArray, g, stateNode) : undefined;
+        factMeta = { ...(fact || {}), state: fact?.state || stateNode.name };
+      } else if (factsArray && Array.isArray(factsArray)) {
         // Map node letters to fact indices: B=0, C=1, D=2, E=3, F=4 (since A is removed)
         const nodeIndex = nodeLetter ? nodeLetter.charCodeAt(0) - 66 : -1; // B=0, C=1, etc.
         if (nodeIndex >= 0 && nodeIndex < factsArray.length) {
@@ -362,6 +479,14 @@ export function decorateNodesWithSearch(opts: DecorateOptions) {
         nodeText: nodeText
       };
 
+      return { nodeText, nodeId, nodeLetter, q, factMeta, meta };
+    };
+
+    searchButton.addEventListener("mousedown", (e: Event) => e.stopPropagation());
+    searchButton.addEventListener("click", (e: Event) => {
+      e.stopPropagation();
+      const { nodeText, nodeId, nodeLetter, q, factMeta, meta } = resolveNode();
+
       console.log('[decorateNodesWithSearch] Search button clicked!', {
         nodeText,
         nodeId,
@@ -389,5 +514,21 @@ export function decorateNodesWithSearch(opts: DecorateOptions) {
 
     g.appendChild(searchButton);
     console.log('[decorateNodesWithSearch] Added search button to node:', id, 'at position:', cx, cy);
+
+    if (onExpand) {
+      // Opposite side from the search button
+      const ex = cx < bbox.x ? bbox.x + bbox.width + r + 8 : bbox.x - r - 8;
+      const expandButton = createExpandButton(ex, cy, r);
+      g.addEventListener("mouseenter", () => expandButton.setAttribute("opacity", "1"));
+      g.addEventListener("mouseleave", () => expandButton.setAttribute("opacity", "0"));
+      expandButton.addEventListener("mousedown", (e: Event) => e.stopPropagation());
+      expandButton.addEventListener("click", (e: Event) => {
+        e.stopPropagation();
+        const { nodeText, nodeId, meta } = resolveNode();
+        console.log('[decorateNodesWithSearch] Expand button clicked:', { nodeText, nodeId, meta });
+        onExpand({ nodeText, nodeId, meta });
+      });
+      g.appendChild(expandButton);
+    }
   });
 }
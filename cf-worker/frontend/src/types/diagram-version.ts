@@ -0,0 +1,35 @@
+import type { ClusterNode } from './cluster';
+import type { RequestedDiagramType } from '../lib/api';
+
+export type DiagramData = {
+  mermaidCode: string;
+  diagramImage: string;
+  prompt: string;
+  diagramType?: string;
+  diagram_meta?: any;
+  permalinkId?: string; // see /d/:id
+  permalinkToken?: string; // set for the creator only; lets repairs and opened groups update the link
+};
+
+export type ContentData = { content: string; description: string; universal_content: string };
+
+// Everything needed to show one generated result again without another request.
+export type DiagramVersion = {
+  diagram: string | null;
+  diagramData: DiagramData | null;
+  contentData: ContentData | null;
+  clusters: ClusterNode | null;
+};
+
+// Results generated for the current query, keyed by the type they were generated as.
+export type DiagramVersions = {
+  query: string;
+  versions: Partial<Record<RequestedDiagramType, DiagramVersion>>;
+};
+
+// A diagram opened with "Expand" on a node of its parent; the parent is kept for the breadcrumb.
+export type DiagramExpansion = {
+  label: string; // the expanded node's text
+  parent: DiagramVersion;
+  parentVersions: DiagramVersions;
+};
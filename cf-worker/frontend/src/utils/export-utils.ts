@@ -3,6 +3,8 @@
  * Based on pitext_desktop implementation
  */
 
+import { TextExtractor } from '../hooks/text-extractor';
+
 export interface ExportOptions {
   scale?: number;
   backgroundColor?: string;
@@ -28,6 +30,24 @@ export async function withBarHidden<T>(fn: () => Promise<T> | T): Promise<T> {
  */
 function extractTextFromSVG(svg: SVGElement): string {
   const textElements: string[] = [];
+
+  // Timelines read best as "period: event" lines in chronological order
+  const timeline = TextExtractor.extractTimelineEntries(svg);
+  if (timeline.length) {
+    timeline.forEach(entry => {
+      if (!entry.events.length) {
+        textElements.push(entry.period);
+      }
+      entry.events.forEach(event => textElements.push(`${entry.period}: ${event.text}`));
+    });
+    return textElements.join('\n');
+  }
+
+  // Charts export one "label: value unit" line per slice or bar
+  const chartData = TextExtractor.extractChartData(svg);
+  if (chartData.length) {
+    return chartData.map(datum => datum.text).join('\n');
+  }
   
   // Extract text from node labels
   const nodeTexts = svg.querySelectorAll('.node text, .node .label, .nodeLabel');
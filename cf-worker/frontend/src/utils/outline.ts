@@ -0,0 +1,64 @@
+/**
+ * Parses the diagram content ("Main topic: ..." followed by "- fact" bullets)
+ * into a tree, used when a diagram cannot be rendered.
+ */
+
+export interface OutlineNode {
+  label: string;
+  children: OutlineNode[];
+}
+
+const MAIN_TOPIC = /^main topic:\s*/i;
+const BULLET = /^(?:[-*•]|\d+[.)])\s+/;
+// "Era: Kingdom" groups timeline events like a "Pros:" heading does
+const SECTION_PREFIX = /^(?:era|section|phase):\s*(.+)$/i;
+// "Chart: pie" in quantitative content only picks the chart kind
+const CHART_KIND = /^chart:\s*(?:pie|bar)\b/i;
+
+function cleanLine(line: string): string {
+  return line.replace(BULLET, '').replace(/\*\*(.*?)\*\*/g, '$1').trim();
+}
+
+export function parseOutline(content: string, fallbackTitle = ''): OutlineNode | null {
+  const root: OutlineNode = { label: fallbackTitle, children: [] };
+  // stack[i] is the most recent node at depth i (depth 0 is the root)
+  const stack: OutlineNode[] = [root];
+  let sectionDepth = 0;
+
+  for (const raw of (content || '').split('\n')) {
+    if (!raw.trim()) continue;
+    const trimmed = raw.trim();
+
+    if (MAIN_TOPIC.test(trimmed)) {
+      root.label = trimmed.replace(MAIN_TOPIC, '').trim() || root.label;
+      continue;
+    }
+    if (CHART_KIND.test(trimmed)) continue;
+
+    const isBullet = BULLET.test(trimmed);
+    const label = cleanLine(trimmed);
+    if (!label) continue;
+
+    const sectionName = isBullet ? null : label.endsWith(':') ? label.slice(0, -1) : label.match(SECTION_PREFIX)?.[1];
+    if (sectionName) {
+      // "Pros:" style headings group the bullets that follow
+      const section: OutlineNode = { label: sectionName, children: [] };
+      root.children.push(section);
+      stack.length = 1;
+      stack.push(section);
+      sectionDepth = 1;
+      continue;
+    }
+
+    const indent = Math.floor((raw.length - raw.trimStart().length) / 2);
+    const depth = isBullet ? Math.min(sectionDepth + indent + 1, stack.length) : 1;
+    if (!isBullet) sectionDepth = 0;
+
+    const node: OutlineNode = { label, children: [] };
+    stack[depth - 1].children.push(node);
+    stack.length = depth;
+    stack.push(node);
+  }
+
+  return root.label || root.children.length ? root : null;
+}
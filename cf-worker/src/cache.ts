@@ -0,0 +1,141 @@
+/**
+ * Response cache for describe and cluster results.
+ * Uses the RESPONSE_CACHE KV namespace when bound, otherwise an in-memory
+ * stand-in that lives for the lifetime of the isolate (local runs).
+ */
+
+export interface CacheEnv {
+  RESPONSE_CACHE?: KVNamespace;
+  RESPONSE_CACHE_TTL?: string; // seconds
+}
+
+export type CacheMode = "default" | "bypass";
+export type CacheStatus = "hit" | "miss";
+
+// Bump whenever prompts change so stale generations are not served.
+export const PROMPT_VERSION = "v3";
+
+const DEFAULT_TTL_SECONDS = 60 * 60 * 24;
+const MIN_KV_TTL_SECONDS = 60;
+const MEMORY_CACHE_MAX_ENTRIES = 200;
+
+export interface CacheStore {
+  get(key: string): Promise<string | null>;
+  put(key: string, value: string, ttlSeconds: number): Promise<void>;
+}
+
+export class KVCacheStore implements CacheStore {
+  constructor(private kv: KVNamespace) {}
+
+  async get(key: string): Promise<string | null> {
+    return this.kv.get(key);
+  }
+
+  async put(key: string, value: string, ttlSeconds: number): Promise<void> {
+    await this.kv.put(key, value, { expirationTtl: Math.max(MIN_KV_TTL_SECONDS, ttlSeconds) });
+  }
+}
+
+export class MemoryCacheStore implements CacheStore {
+  private entries = new Map<string, { value: string; expiresAt: number }>();
+
+  constructor(private maxEntries = MEMORY_CACHE_MAX_ENTRIES) {}
+
+  async get(key: string): Promise<string | null> {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return null;
+    }
+    return entry.value;
+  }
+
+  async put(key: string, value: string, ttlSeconds: number): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlSeconds * 1000 });
+    // Map preserves insertion order, so the first key is the oldest entry.
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+  }
+}
+
+const memoryStore = new MemoryCacheStore();
+
+export function getCacheStore(env: CacheEnv): CacheStore {
+  return env.RESPONSE_CACHE ? new KVCacheStore(env.RESPONSE_CACHE) : memoryStore;
+}
+
+export function getCacheTtl(env: CacheEnv): number {
+  const ttl = parseInt(env.RESPONSE_CACHE_TTL || "", 10);
+  return Number.isFinite(ttl) && ttl > 0 ? ttl : DEFAULT_TTL_SECONDS;
+}
+
+export function normalizeQuery(query: string): string {
+  return (query || "")
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .replace(/[?.!\s]+$/, "")
+    .trim();
+}
+
+export async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, "0")).join("");
+}
+
+export async function buildCacheKey(kind: string, query: string, diagramType: string): Promise<string> {
+  const hash = await sha256Hex(normalizeQuery(query));
+  return `infflow:${kind}:${PROMPT_VERSION}:${diagramType}:${hash}`;
+}
+
+export async function readCache<T>(env: CacheEnv, key: string): Promise<T | null> {
+  try {
+    const raw = await getCacheStore(env).get(key);
+    return raw ? JSON.parse(raw) as T : null;
+  } catch (error) {
+    console.warn(`⚠️ Cache read failed for ${key}:`, error);
+    return null;
+  }
+}
+
+export async function writeCache(env: CacheEnv, key: string, value: unknown): Promise<void> {
+  try {
+    await getCacheStore(env).put(key, JSON.stringify(value), getCacheTtl(env));
+  } catch (error) {
+    console.warn(`⚠️ Cache write failed for ${key}:`, error);
+  }
+}
+
+/**
+ * Returns the cached value for `key`, or computes and stores it.
+ * With mode "bypass" the cache is not read but the fresh value still refreshes it.
+ */
+export async function withCache<T>(
+  env: CacheEnv,
+  key: string,
+  mode: CacheMode,
+  compute: () => Promise<T>,
+  shouldStore: (value: T) => boolean = () => true
+): Promise<{ value: T; status: CacheStatus }> {
+  if (mode !== "bypass") {
+    const cached = await readCache<T>(env, key);
+    if (cached !== null) {
+      console.log(`💾 Cache hit: ${key}`);
+      return { value: cached, status: "hit" };
+    }
+  }
+
+  const value = await compute();
+  if (shouldStore(value)) {
+    await writeCache(env, key, value);
+  }
+  return { value, status: "miss" };
+}
+
+export function cacheHeaders(status: CacheStatus): Record<string, string> {
+  return { "X-Infflow-Cache": status };
+}
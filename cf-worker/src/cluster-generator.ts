@@ -3,23 +3,81 @@
  * Handles hierarchical cluster data generation for visualization.
  */
 
-import { callOpenAI, callOpenAIOptimized, selectOptimalModel, EnvLike } from './openai';
-import { clusterPrompt } from './prompts/cluster_prompt';
+import { callOpenAIOptimized, EnvLike } from './openai';
+import { selectOptimalModel } from './intent';
+import { clusterDrillDownPrompt, clusterPrompt } from './prompts/cluster_prompt';
+import { clusterRepairPrompt } from './prompts/cluster_repair_prompt';
+import { ClusterNode, ClusterValidation, ClusterWarning, formatClusterWarnings, parseCluster } from './cluster-schema';
 import { createTimer } from './timing';
 
+// Opened FoamTree group: labels from the original query down to the group, root first.
+export type ClusterDrillDown = {
+  path: string[];
+  depth: number;
+  universalContent?: string; // the root's Text tab content, used as background only
+};
+
+export interface ClusterResult {
+  cluster: ClusterNode;
+  warnings: ClusterWarning[]; // normalizations applied to the returned tree
+  repaired: boolean;          // the first response failed validation and was repaired by the model
+}
+
+const MAX_BACKGROUND_CHARS = 3000;
+
+function buildDrillDownMessage(drillDown: ClusterDrillDown): string {
+  const sections = [
+    `Topic path: ${drillDown.path.join(' > ')}`,
+    `Opened cluster: ${drillDown.path[drillDown.path.length - 1]} (depth ${drillDown.depth})`,
+  ];
+  const background = (drillDown.universalContent || '').trim().slice(0, MAX_BACKGROUND_CHARS);
+  if (background) {
+    sections.push(`Background on "${drillDown.path[0]}":\n${background}`);
+  }
+  return sections.join('\n\n');
+}
+
+// Child ids must stay unique across the whole tree, so they are namespaced by the opened group's id.
+function scopeToParent(cluster: ClusterNode, parentId: string): ClusterNode {
+  return {
+    ...cluster,
+    id: parentId,
+    children: (cluster.children || []).map(child => ({
+      ...child,
+      id: child.id.startsWith(`${parentId}--`) ? child.id : `${parentId}--${child.id}`,
+    })),
+  };
+}
+
+function buildRepairMessage(response: string, validation: ClusterValidation, request: string): string {
+  return `Request:
+${request}
+
+Problems:
+${formatClusterWarnings(validation.warnings)}
+
+Cluster JSON:
+${response}`;
+}
+
 /**
  * Generates hierarchical cluster data (FoamTree topic map) for a given query.
+ * With `drillDown`, `query` is the id of the opened group and the result is that
+ * group with children that fit the whole ancestor path.
  */
 export async function generateClusterData(
   query: string,
-  env: EnvLike
-): Promise<any> {
+  env: EnvLike,
+  drillDown?: ClusterDrillDown
+): Promise<ClusterResult> {
   const timer = createTimer();
-  console.log(`🟡 [${timer.getRequestId()}] Starting OPTIMIZED cluster generation...`);
+  console.log(`🟡 [${timer.getRequestId()}] Starting OPTIMIZED cluster generation${drillDown ? ` (drill-down: ${drillDown.path.join(' > ')})` : ''}...`);
+  const systemPrompt = drillDown ? clusterPrompt + clusterDrillDownPrompt : clusterPrompt;
+  const userMessage = drillDown ? buildDrillDownMessage(drillDown) : query;
 
   try {
     // Select optimal model for cluster generation
-    const optimalModel = selectOptimalModel(query, env);
+    const optimalModel = selectOptimalModel(drillDown ? drillDown.path.join(' ') : query, env);
     console.log(`🎯 [${timer.getRequestId()}] Selected model for cluster: ${optimalModel}`);
 
     // Optimized token limit - reduced from 2000 to 1500 for faster processing
@@ -30,49 +88,63 @@ export async function generateClusterData(
       () =>
         callOpenAIOptimized(
           env,
-          clusterPrompt,
-          query,
+          systemPrompt,
+          userMessage,
           optimalModel,
           optimizedMaxTokens,
           0.7,
           {
             usePriority: true,        // Faster queue processing
             useCache: true,          // Cache reusable prompts
-            useStructured: true      // Ensure JSON response
+            useStructured: true,     // Ensure JSON response
+            timer,
+            stage: drillDown ? "cluster_drill_down" : "cluster"
           }
         ),
       {
-        query_length: query.length,
+        query_length: userMessage.length,
         model: optimalModel,
         max_tokens: optimizedMaxTokens,
         optimizations: "priority,cache,structured,early_stop"
       }
     );
 
-    let text = (response || '').trim();
-    if (!text) throw new Error('Empty cluster JSON');
-
-    // Try to strip code fences if present
-    if (text.startsWith('```')) {
-      text = text.replace(/^```[a-zA-Z]*\n?/, '').replace(/```\s*$/, '').trim();
+    let validation = parseCluster(response);
+    let repaired = false;
+    if (validation.fatal) {
+      // One repair round trip; the validator already fixed everything it could on its own.
+      console.warn(`🛠️ [${timer.getRequestId()}] Cluster JSON failed validation:\n${formatClusterWarnings(validation.warnings)}`);
+      const repairResponse = await timer.timeStep('cluster_repair_llm_call', () => callOpenAIOptimized(
+        env,
+        clusterRepairPrompt,
+        buildRepairMessage(response, validation, userMessage),
+        optimalModel,
+        optimizedMaxTokens,
+        0.2,
+        {
+          usePriority: true,
+          useCache: true,
+          useStructured: true,
+          timer,
+          stage: "cluster_repair"
+        }
+      ), {
+        errors: validation.warnings.filter(w => w.severity === "error").length
+      });
+      validation = parseCluster(repairResponse);
+      repaired = true;
     }
 
-    // If still not parseable, try to extract the first top-level JSON object
-    let clusterData: any;
-    try {
-      clusterData = JSON.parse(text);
-    } catch (_e) {
-      const start = text.indexOf('{');
-      const end = text.lastIndexOf('}');
-      if (start !== -1 && end !== -1 && end > start) {
-        const candidate = text.slice(start, end + 1);
-        clusterData = JSON.parse(candidate);
-      } else {
-        throw _e;
-      }
+    if (validation.fatal || !validation.cluster) {
+      throw new Error(`Invalid cluster JSON: ${validation.warnings.filter(w => w.severity === "error").map(w => w.message).join('; ')}`);
     }
-    console.log(`✅ [${timer.getRequestId()}] Optimized cluster generation successful.`);
-    return clusterData;
+    if (validation.warnings.length) {
+      console.warn(`⚠️ [${timer.getRequestId()}] Cluster JSON normalized:\n${formatClusterWarnings(validation.warnings)}`);
+    }
+
+    console.log(`✅ [${timer.getRequestId()}] Optimized cluster generation successful${repaired ? ' after repair' : ''}.`);
+    const cluster = drillDown ? scopeToParent(validation.cluster, query) : validation.cluster;
+    return { cluster, warnings: validation.warnings, repaired };
   } catch (error) {
     console.error(`❌ [${timer.getRequestId()}] Optimized cluster generation failed:`, error);
     throw error;
@@ -0,0 +1,83 @@
+/**
+ * Grounds FoamTree clusters in web search results.
+ * Every child cluster gets one node search, the most specific query /api/node-search
+ * would send; the ranked results become its `items`, and how many were found is
+ * blended into its weight so well-covered topics get more room in the map.
+ */
+
+import type { ClusterItem, ClusterNode } from './cluster-schema';
+import { Env as NodeSearchEnv, NodeSearchOptions, canSearch, searchNode } from './routes/nodeSearch';
+import type { NodeSearchItem, NodeSearchRequest } from './types';
+
+export type ClusterItemsEnv = NodeSearchEnv & {
+  CLUSTER_ITEMS?: string; // "false" skips the searches
+};
+
+const ITEMS_PER_CLUSTER = 5;
+// Searches running at once for one map; the rest wait for a free slot
+const SEARCH_CONCURRENCY = 3;
+const SEARCH_OPTIONS: NodeSearchOptions = { count: ITEMS_PER_CLUSTER, safesearch: "moderate", includeDomains: [], excludeDomains: [], maxAttempts: 1 };
+
+export function clusterItemsEnabled(env: ClusterItemsEnv): boolean {
+  return env.CLUSTER_ITEMS !== "false" && canSearch(env);
+}
+
+// Node search already ranked the results against the cluster's theme.
+function toClusterItems(results: NodeSearchItem[], clusterId: string): ClusterItem[] {
+  return results.map((result, i) => ({
+    id: `${clusterId}-item-${i + 1}`,
+    url: result.url,
+    title: result.title,
+    score: result.score,
+  }));
+}
+
+function blendWeight(weight: number | undefined, found: number): number {
+  const coverage = 1 + (9 * found) / ITEMS_PER_CLUSTER;
+  return Math.min(10, Math.max(1, Math.round(((weight ?? coverage) + coverage) / 2)));
+}
+
+async function mapWithConcurrency<T, R>(values: T[], limit: number, fn: (value: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(values.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < values.length) {
+      const index = next++;
+      results[index] = await fn(values[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, values.length) }, worker));
+  return results;
+}
+
+/**
+ * Attaches search results to the children of `cluster`.
+ * `path` runs from the original query down to `cluster` (just the query for a root map).
+ * Failed searches leave a child as generated.
+ */
+export async function attachClusterItems(cluster: ClusterNode, path: string[], env: ClusterItemsEnv): Promise<ClusterNode> {
+  if (!clusterItemsEnabled(env) || !cluster.children?.length) {
+    return cluster;
+  }
+
+  const [topic, ...ancestors] = path;
+  const children = await mapWithConcurrency(cluster.children, SEARCH_CONCURRENCY, async child => {
+    const request: NodeSearchRequest = {
+      query: topic,
+      entity: topic,
+      theme: [...ancestors, child.label].join(' '),
+      phrase: child.label,
+    };
+    try {
+      const result = await searchNode(env, request, SEARCH_OPTIONS);
+      if (!result?.items.length) return child;
+      return { ...child, items: toClusterItems(result.items, child.id), weight: blendWeight(child.weight, result.items.length) };
+    } catch (error) {
+      console.warn(`⚠️ Cluster item search failed for ${child.id}:`, error);
+      return child;
+    }
+  });
+
+  console.log(`🔎 Attached search items to ${children.filter(child => child.items?.length).length}/${children.length} clusters`);
+  return { ...cluster, children };
+}
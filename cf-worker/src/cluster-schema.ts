@@ -0,0 +1,225 @@
+/**
+ * Schema validation for generated FoamTree cluster JSON.
+ * clusterPrompt asks for a root with 3-6 children, kebab-case ids and weights of 1-10.
+ * The validator normalizes what it can (ids, weights, long text, duplicate siblings)
+ * and reports every change as a warning; problems it cannot fix are errors, which
+ * make the generator ask the model for one repair.
+ */
+
+// Search result attached to a cluster by cluster-items.ts; never produced by the model.
+export interface ClusterItem {
+  id: string;
+  url?: string;
+  title?: string;
+  score?: number; // 0-1 relevance to the cluster
+}
+
+export interface ClusterNode {
+  id: string;
+  label: string;
+  headline?: string;
+  description?: string;
+  weight?: number;
+  items?: ClusterItem[];
+  children?: ClusterNode[];
+}
+
+export type ClusterWarningSeverity = "error" | "warning";
+
+export type ClusterWarningCode =
+  | "invalid_json"
+  | "not_an_object"
+  | "missing_label"
+  | "normalized_id"
+  | "duplicate_id"
+  | "invalid_weight"
+  | "clamped_weight"
+  | "truncated_text"
+  | "duplicate_sibling"
+  | "too_deep"
+  | "too_few_children"
+  | "too_many_children"
+  | "no_children";
+
+export interface ClusterWarning {
+  code: ClusterWarningCode;
+  severity: ClusterWarningSeverity;
+  node: string; // id of the node after normalization, "" for the whole payload
+  message: string;
+}
+
+export interface ClusterValidation {
+  cluster: ClusterNode | null; // null when the payload could not be used at all
+  warnings: ClusterWarning[];
+  fatal: boolean;
+}
+
+const MIN_CHILDREN = 3;
+const MAX_CHILDREN = 6;
+const MIN_WEIGHT = 1;
+const MAX_WEIGHT = 10;
+const MAX_LABEL_CHARS = 40;
+const MAX_HEADLINE_CHARS = 80;
+const MAX_DESCRIPTION_CHARS = 400;
+
+type Context = { warnings: ClusterWarning[]; usedIds: Set<string> };
+
+function warn(ctx: Context, code: ClusterWarningCode, node: string, message: string, severity: ClusterWarningSeverity = "warning") {
+  ctx.warnings.push({ code, severity, node, message });
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function text(value: unknown): string {
+  return typeof value === "string" ? value.replace(/\s+/g, " ").trim() : "";
+}
+
+export function toKebabCase(value: string): string {
+  return value
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+function truncate(ctx: Context, value: string, max: number, node: string, field: string): string {
+  if (value.length <= max) return value;
+  warn(ctx, "truncated_text", node, `${field} shortened from ${value.length} to ${max} characters`);
+  return `${value.slice(0, max - 1).trimEnd()}…`;
+}
+
+function uniqueId(ctx: Context, raw: unknown, label: string, fallback: string): string {
+  const given = typeof raw === "string" || typeof raw === "number" ? String(raw).trim() : "";
+  const base = toKebabCase(given) || toKebabCase(label) || fallback;
+  if (given && base !== given) {
+    warn(ctx, "normalized_id", base, `id "${given}" normalized to kebab-case "${base}"`);
+  }
+
+  let id = base;
+  for (let n = 2; ctx.usedIds.has(id); n++) id = `${base}-${n}`;
+  if (id !== base) {
+    warn(ctx, "duplicate_id", id, `id "${base}" is already used; renamed to "${id}"`);
+  }
+  ctx.usedIds.add(id);
+  return id;
+}
+
+function normalizeWeight(ctx: Context, raw: unknown, node: string): number | undefined {
+  if (raw === undefined || raw === null) return undefined;
+  const weight = typeof raw === "string" ? Number(raw) : raw;
+  if (typeof weight !== "number" || !Number.isFinite(weight)) {
+    warn(ctx, "invalid_weight", node, `weight ${JSON.stringify(raw)} is not a number; dropped`);
+    return undefined;
+  }
+  const clamped = Math.min(MAX_WEIGHT, Math.max(MIN_WEIGHT, Math.round(weight)));
+  if (clamped !== weight) {
+    warn(ctx, "clamped_weight", node, `weight ${weight} clamped to ${clamped}`);
+  }
+  return clamped;
+}
+
+function normalizeNode(ctx: Context, raw: Record<string, unknown>, depth: number, fallbackId: string): ClusterNode | null {
+  const label = text(raw.label) || text(raw.headline);
+  if (!label) {
+    const node = toKebabCase(text(raw.id)) || fallbackId;
+    warn(ctx, "missing_label", node, depth === 0 ? "root has no label" : "node has no label; dropped", depth === 0 ? "error" : "warning");
+    return null;
+  }
+  const id = uniqueId(ctx, raw.id, label, fallbackId);
+
+  const node: ClusterNode = { id, label: truncate(ctx, label, MAX_LABEL_CHARS, id, "label") };
+  const headline = text(raw.headline);
+  if (headline) node.headline = truncate(ctx, headline, MAX_HEADLINE_CHARS, id, "headline");
+  const description = text(raw.description);
+  if (description) node.description = truncate(ctx, description, MAX_DESCRIPTION_CHARS, id, "description");
+  const weight = normalizeWeight(ctx, raw.weight, id);
+  if (weight !== undefined) node.weight = weight;
+
+  const rawChildren = Array.isArray(raw.children) ? raw.children : [];
+  if (depth > 0) {
+    if (rawChildren.length) {
+      warn(ctx, "too_deep", id, `${rawChildren.length} nested children dropped; only two levels are allowed`);
+    }
+    return node;
+  }
+
+  const children: ClusterNode[] = [];
+  const seenLabels = new Set<string>();
+  rawChildren.forEach((rawChild, i) => {
+    if (!isObject(rawChild)) {
+      warn(ctx, "not_an_object", id, `child ${i + 1} is not an object; dropped`);
+      return;
+    }
+    const child = normalizeNode(ctx, rawChild, depth + 1, `cluster-${i + 1}`);
+    if (!child) return;
+    const key = child.label.toLowerCase();
+    if (seenLabels.has(key)) {
+      warn(ctx, "duplicate_sibling", child.id, `"${child.label}" repeats an earlier sibling; dropped`);
+      ctx.usedIds.delete(child.id);
+      return;
+    }
+    seenLabels.add(key);
+    children.push(child);
+  });
+
+  if (!children.length) {
+    warn(ctx, "no_children", id, "root has no usable children", "error");
+  } else if (children.length < MIN_CHILDREN) {
+    warn(ctx, "too_few_children", id, `${children.length} children; expected ${MIN_CHILDREN}-${MAX_CHILDREN}`);
+  } else if (children.length > MAX_CHILDREN) {
+    warn(ctx, "too_many_children", id, `${children.length} children; kept the first ${MAX_CHILDREN}`);
+    children.splice(MAX_CHILDREN);
+  }
+  node.children = children;
+  return node;
+}
+
+export function validateCluster(raw: unknown): ClusterValidation {
+  const ctx: Context = { warnings: [], usedIds: new Set() };
+  if (!isObject(raw)) {
+    warn(ctx, "not_an_object", "", "cluster JSON must be an object", "error");
+    return { cluster: null, warnings: ctx.warnings, fatal: true };
+  }
+  const cluster = normalizeNode(ctx, raw, 0, "root");
+  const fatal = !cluster || ctx.warnings.some(w => w.severity === "error");
+  return { cluster, warnings: ctx.warnings, fatal };
+}
+
+/** Parses model output (optionally fenced or wrapped in prose) and validates it. */
+export function parseCluster(response: string): ClusterValidation {
+  let body = (response || "").trim();
+  if (body.startsWith("```")) {
+    body = body.replace(/^```[a-zA-Z]*\n?/, "").replace(/```\s*$/, "").trim();
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(body);
+  } catch (_e) {
+    // Fall back to the first top-level object
+    const start = body.indexOf("{");
+    const end = body.lastIndexOf("}");
+    try {
+      raw = start !== -1 && end > start ? JSON.parse(body.slice(start, end + 1)) : undefined;
+    } catch (_inner) {
+      raw = undefined;
+    }
+    if (raw === undefined) {
+      return {
+        cluster: null,
+        warnings: [{ code: "invalid_json", severity: "error", node: "", message: body ? "response is not valid JSON" : "response is empty" }],
+        fatal: true,
+      };
+    }
+  }
+  return validateCluster(raw);
+}
+
+export function formatClusterWarnings(warnings: ClusterWarning[]): string {
+  return warnings
+    .map(w => `- ${w.severity} ${w.code}${w.node ? ` (${w.node})` : ""}: ${w.message}`)
+    .join("\n");
+}
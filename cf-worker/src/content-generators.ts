@@ -3,10 +3,12 @@
  * Handles combined content generation, unified diagram results, and response parsing.
  */
 
-import { callOpenAI, callOpenAIOptimized, selectOptimalModel, EnvLike } from './openai';
+import { callOpenAI, callOpenAIOptimized, EnvLike } from './openai';
+import { selectOptimalModel } from './intent';
 import { getCombinedContentPrompt, getMegaPrompt } from './prompts';
 import { createTimer } from './timing';
-import { DiagramType } from './diagram-types';
+import { DiagramType, GenerationOptions, withGenerationOptions } from './diagram-types';
+import { parseChartContent, renderChartMermaid, validateChartSpec, withChartSources } from './quantitative-chart';
 
 export interface UnifiedDiagramResult {
   diagram_type: DiagramType;
@@ -37,7 +39,8 @@ export async function generateCombinedContent(
       query,
       env.OPENAI_MODEL || "gpt-4.1",
       3000,
-      0.7
+      0.7,
+      { timer, stage: "combined_content" }
     ), {
       query_length: query.length,
       diagram_type: diagramType,
@@ -163,10 +166,11 @@ export function parseCombinedResponse(response: string): { universalContent: str
 
 export async function generateUnifiedDiagram(
   query: string,
-  env: EnvLike
+  env: EnvLike,
+  options: GenerationOptions = {}
 ): Promise<UnifiedDiagramResult> {
   const timer = createTimer();
-  const megaPrompt = getMegaPrompt();
+  const megaPrompt = withGenerationOptions(getMegaPrompt(), options);
 
   console.log(`🚀 [${timer.getRequestId()}] Starting OPTIMIZED UNIFIED diagram generation...`);
   console.log(`Query: ${query}`);
@@ -191,7 +195,9 @@ export async function generateUnifiedDiagram(
         {
           usePriority: true,        // Faster queue processing
           useCache: true,          // Cache reusable prompts
-          useStructured: true      // Ensure JSON response
+          useStructured: true,     // Ensure JSON response
+          timer,
+          stage: "unified_diagram"
         }
       ), {
       query_length: query.length,
@@ -213,6 +219,11 @@ export async function generateUnifiedDiagram(
       response_length: response.length
     });
 
+    // The caller falls back to the sequential pipeline, which uses the requested type directly
+    if (options.diagramType && result.diagram_type !== options.diagramType) {
+      throw new Error(`Unified response used ${result.diagram_type} instead of the requested ${options.diagramType}`);
+    }
+
     console.log(`✅ [${timer.getRequestId()}] Optimized unified generation successful`);
     console.log(`📊 [${timer.getRequestId()}] Results:`, {
       diagram_type: result.diagram_type,
@@ -253,23 +264,36 @@ export function parseUnifiedResponse(response: string): UnifiedDiagramResult {
     
     // Validate required fields
     if (!parsed.diagram_type || !parsed.universal_content || 
-        !parsed.diagram_content || !parsed.mermaid_code) {
+        !parsed.diagram_content || (!parsed.mermaid_code && parsed.diagram_type !== "quantitative_chart")) {
       throw new Error("Missing required fields in unified response");
     }
     
     // Validate diagram type
-    const validTypes = ["flowchart", "radial_mindmap", "sequence_comparison"];
+    const validTypes = ["flowchart", "radial_mindmap", "sequence_comparison", "timeline", "quantitative_chart", "state_diagram"];
     if (!validTypes.includes(parsed.diagram_type)) {
       console.warn(`Invalid diagram type: ${parsed.diagram_type}, defaulting to radial_mindmap`);
       parsed.diagram_type = "radial_mindmap";
     }
     
+    // Charts are always rendered from the data series so the numbers match the text
+    let mermaidCode = (parsed.mermaid_code || "").trim();
+    let diagramMeta = parsed.diagram_meta || null;
+    if (parsed.diagram_type === "quantitative_chart") {
+      const spec = parseChartContent(parsed.diagram_content);
+      const problems = validateChartSpec(spec);
+      if (problems.length) {
+        throw new Error(`Invalid chart data: ${problems.join("; ")}`);
+      }
+      mermaidCode = renderChartMermaid(spec);
+      diagramMeta = withChartSources(diagramMeta, spec);
+    }
+    
     return {
       diagram_type: parsed.diagram_type as DiagramType,
       universal_content: parsed.universal_content.trim(),
       diagram_content: parsed.diagram_content.trim(),
-      mermaid_code: parsed.mermaid_code.trim(),
-      diagram_meta: parsed.diagram_meta || null
+      mermaid_code: mermaidCode,
+      diagram_meta: diagramMeta
     };
     
   } catch (error) {
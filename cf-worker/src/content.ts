@@ -3,10 +3,13 @@
  * Handles generating structured content descriptions from user queries.
  */
 
-import { callOpenAI, callOpenAIOptimized, selectOptimalModel, EnvLike } from './openai';
+import { callOpenAI, callOpenAIOptimized, EnvLike } from './openai';
+import { selectOptimalModel } from './intent';
 import { getContentPrompt } from './prompts';
 import { cleanTextContent } from './utils';
 import { createTimer } from './timing';
+import { parseChartContent, validateChartSpec, withChartSources } from './quantitative-chart';
+import { DetailLevel, withGenerationOptions } from './diagram-types';
 import type { DiagramResponse, NodeMeta } from './types';
 
 export interface ContentResult {
@@ -21,10 +24,11 @@ export interface ContentResult {
 export async function generateContent(
   query: string,
   diagramType: string,
-  env: EnvLike
+  env: EnvLike,
+  detailLevel?: DetailLevel
 ): Promise<ContentResult> {
   const timer = createTimer();
-  const prompt = getContentPrompt(diagramType);
+  const prompt = withGenerationOptions(getContentPrompt(diagramType), { detailLevel });
 
   console.log(`🔵 [${timer.getRequestId()}] Starting OPTIMIZED content generation...`);
   console.log(`Query: ${query}`);
@@ -49,7 +53,9 @@ export async function generateContent(
         {
           usePriority: true,        // Faster queue processing
           useCache: true,          // Cache reusable prompts
-          useStructured: false     // Text response, not JSON
+          useStructured: false,    // Text response, not JSON
+          timer,
+          stage: "content"
         }
     ), {
       query_length: query.length,
@@ -132,6 +138,15 @@ function validateContent(content: string, diagramType: string): boolean {
   if (diagramType === "sequence_comparison") {
     return validateComparisonContent(content);
   }
+  if (diagramType === "timeline") {
+    return validateTimelineContent(content);
+  }
+  if (diagramType === "quantitative_chart") {
+    return validateChartContent(content);
+  }
+  if (diagramType === "state_diagram") {
+    return validateStateContent(content);
+  }
   if (diagramType === "universal") {
     return validateUniversalContent(content);
   }
@@ -173,6 +188,65 @@ function validateComparisonContent(content: string): boolean {
          contentLower.includes('unique');
 }
 
+// Timeline events are "- <date or period>: <event>" bullets.
+const TIMELINE_EVENT = /^(?:-|\d+\.)\s+([^:]{1,40}):\s*(.+)$/;
+
+function validateTimelineContent(content: string): boolean {
+  const lines = content.split('\n').map(l => l.trim()).filter(l => l);
+  const hasTopic = lines.some(line => /^(main topic|topic)\s*[:\-]/i.test(line));
+  const eventCount = lines.filter(line => TIMELINE_EVENT.test(line)).length;
+  return hasTopic && eventCount >= 2;
+}
+
+// Transitions are "- <from> -> <to>: <trigger>" bullets, with [*] for the start and end.
+const STATE_TRANSITION = /^(?:-|\d+\.)\s+(\[\*\]|[^:>]+?)\s*(?:-->|->|→)\s*(\[\*\]|[^:]+?)\s*(?::\s*(.*))?$/;
+const STATE_ENTRY = /^(?:-|\d+\.)\s+([^:]{1,40}):\s*(.+)$/;
+
+function validateStateContent(content: string): boolean {
+  const parsed = parseStateSections(content);
+  return !!parsed.topic && parsed.states.length >= 2 && parsed.transitions.length >= 1;
+}
+
+function parseStateSections(content: string) {
+  const result = { topic: '', states: [] as string[], transitions: [] as string[] };
+  let section = '';
+
+  for (const line of content.split('\n')) {
+    const trimmed = line.trim();
+    if (!trimmed) continue;
+
+    if (/^(main topic|topic):/i.test(trimmed)) {
+      result.topic = trimmed.split(':').slice(1).join(':').trim();
+      continue;
+    }
+    if (/^(states|transitions):?$/i.test(trimmed)) {
+      section = trimmed.replace(':', '').toLowerCase();
+      continue;
+    }
+
+    const transition = trimmed.match(STATE_TRANSITION);
+    if (transition && section !== 'states') {
+      const [, from, to, trigger] = transition;
+      result.transitions.push(`${from.trim()} -> ${to.trim()}${trigger ? `: ${fixSpacing(trigger)}` : ''}`);
+      continue;
+    }
+    const state = trimmed.match(STATE_ENTRY);
+    if (state && section !== 'transitions') {
+      result.states.push(`${state[1].trim()}: ${fixSpacing(state[2])}`);
+    }
+  }
+
+  return result;
+}
+
+function validateChartContent(content: string): boolean {
+  const problems = validateChartSpec(parseChartContent(content));
+  if (problems.length) {
+    console.warn(`⚠️ Chart content rejected: ${problems.join("; ")}`);
+  }
+  return problems.length === 0;
+}
+
 function validateUniversalContent(content: string): boolean {
   // Universal content should be natural, readable text
   // Just check that it's not empty and has reasonable length
@@ -196,6 +270,17 @@ function parseContent(content: string, diagramType: string): { topic: string; fa
   if (diagramType === "sequence_comparison") {
     return parseComparisonContent(content);
   }
+  if (diagramType === "timeline") {
+    return parseTimelineContent(content);
+  }
+  if (diagramType === "quantitative_chart") {
+    return parseChartFacts(content);
+  }
+  if (diagramType === "state_diagram") {
+    // States first, then the transitions between them
+    const { topic, states, transitions } = parseStateSections(content);
+    return { topic, facts: [...states, ...transitions] };
+  }
   if (diagramType === "universal") {
     return parseUniversalContent(content);
   }
@@ -257,6 +342,36 @@ function parseComparisonContent(content: string): { topic: string; facts: string
   return result;
 }
 
+function parseTimelineContent(content: string): { topic: string; facts: string[] } {
+  // Facts keep their date prefix ("753 BC: Rome is founded"); era lines are structure only
+  const result = { topic: '', facts: [] as string[] };
+
+  for (const line of content.split('\n')) {
+    const trimmed = line.trim();
+    if (!trimmed) continue;
+
+    if (/^(main topic|topic):/i.test(trimmed)) {
+      result.topic = trimmed.split(':').slice(1).join(':').trim();
+      continue;
+    }
+    const event = trimmed.match(TIMELINE_EVENT);
+    if (event) {
+      result.facts.push(`${event[1].trim()}: ${fixSpacing(event[2])}`);
+    }
+  }
+
+  return result;
+}
+
+function parseChartFacts(content: string): { topic: string; facts: string[] } {
+  // One fact per data point, with the unit so deep dives keep the numbers in context
+  const spec = parseChartContent(content);
+  return {
+    topic: spec.topic,
+    facts: spec.points.map(p => `${p.label}: ${p.value}${spec.unit ? ` ${spec.unit}` : ''}`)
+  };
+}
+
 function parseUniversalContent(content: string): { topic: string; facts: string[] } {
   // For universal content, extract the main topic from the first line or heading
   const lines = content.split('\n').map(l => l.trim()).filter(l => l);
@@ -305,7 +420,7 @@ function cleanContentFromMetadata(response: string): string {
 
 function extractMetadata(response: string, diagramType: string): any {
   // Extract metadata for all diagram types that support it
-  if (diagramType !== "radial_mindmap" && diagramType !== "flowchart" && diagramType !== "sequence_comparison") {
+  if (diagramType !== "radial_mindmap" && diagramType !== "flowchart" && diagramType !== "sequence_comparison" && diagramType !== "timeline" && diagramType !== "quantitative_chart" && diagramType !== "state_diagram") {
     return null;
   }
   
@@ -316,14 +431,14 @@ function extractMetadata(response: string, diagramType: string): any {
       const jsonStr = jsonMatch[1] || jsonMatch[0];
       const parsed = JSON.parse(jsonStr);
       if (parsed.diagram_meta) {
-        return parsed.diagram_meta;
+        return diagramType === "quantitative_chart" ? withChartSources(parsed.diagram_meta, parseChartContent(response)) : parsed.diagram_meta;
       }
     }
   } catch (error) {
     console.warn("Failed to parse metadata from content response:", error);
   }
   
-  return null;
+  return diagramType === "quantitative_chart" ? withChartSources(null, parseChartContent(response)) : null;
 }
 
 export async function buildDescribeResponse(result: any, originalQuery: string): Promise<DiagramResponse> {
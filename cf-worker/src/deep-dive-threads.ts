@@ -0,0 +1,101 @@
+/**
+ * Deep dive conversation threads.
+ * A thread belongs to one selected diagram node and keeps the diagram's
+ * universal_content plus earlier turns, so follow-up questions are answered in
+ * context. Threads live in the DEEP_DIVE_THREADS KV namespace when bound,
+ * otherwise in memory for the lifetime of the isolate (local runs).
+ */
+
+import { CacheStore, KVCacheStore, MemoryCacheStore } from "./cache";
+
+export interface DeepDiveThreadEnv {
+  DEEP_DIVE_THREADS?: KVNamespace;
+  DEEP_DIVE_THREAD_TTL?: string; // seconds since the last turn
+}
+
+export type DeepDiveTurn = {
+  question: string;
+  response: string;
+  timestamp: number;
+  stopped?: boolean; // the client stopped the streamed answer part way
+};
+
+export type DeepDiveThread = {
+  id: string;
+  selected_text: string;
+  original_query: string;
+  universal_content: string;
+  turns: DeepDiveTurn[];
+  created_at: number;
+  updated_at: number;
+};
+
+const DEFAULT_TTL_SECONDS = 60 * 60 * 24;
+const MAX_STORED_TURNS = 20;
+const MAX_UNIVERSAL_CONTENT_CHARS = 6000;
+const MEMORY_MAX_THREADS = 500;
+const THREAD_ID_PATTERN = /^[A-Za-z0-9-]{8,64}$/;
+
+// Only the most recent turns go into the prompt to keep follow-ups fast and cheap.
+export const MAX_PROMPT_TURNS = 6;
+
+const memoryStore = new MemoryCacheStore(MEMORY_MAX_THREADS);
+
+function getStore(env: DeepDiveThreadEnv): CacheStore {
+  return env.DEEP_DIVE_THREADS ? new KVCacheStore(env.DEEP_DIVE_THREADS) : memoryStore;
+}
+
+function getThreadTtl(env: DeepDiveThreadEnv): number {
+  const ttl = parseInt(env.DEEP_DIVE_THREAD_TTL || "", 10);
+  return Number.isFinite(ttl) && ttl > 0 ? ttl : DEFAULT_TTL_SECONDS;
+}
+
+function threadKey(id: string): string {
+  return `infflow:deep-dive-thread:${id}`;
+}
+
+export function isValidThreadId(id: string): boolean {
+  return THREAD_ID_PATTERN.test(id);
+}
+
+export function createThread(selectedText: string, originalQuery: string, universalContent: string): DeepDiveThread {
+  const now = Date.now();
+  return {
+    id: crypto.randomUUID(),
+    selected_text: selectedText,
+    original_query: originalQuery,
+    universal_content: universalContent.slice(0, MAX_UNIVERSAL_CONTENT_CHARS),
+    turns: [],
+    created_at: now,
+    updated_at: now,
+  };
+}
+
+export async function loadThread(env: DeepDiveThreadEnv, id: string): Promise<DeepDiveThread | null> {
+  if (!isValidThreadId(id)) return null;
+  try {
+    const raw = await getStore(env).get(threadKey(id));
+    return raw ? JSON.parse(raw) as DeepDiveThread : null;
+  } catch (error) {
+    console.warn(`⚠️ Deep dive thread read failed for ${id}:`, error);
+    return null;
+  }
+}
+
+export async function saveThread(env: DeepDiveThreadEnv, thread: DeepDiveThread): Promise<void> {
+  try {
+    await getStore(env).put(threadKey(thread.id), JSON.stringify(thread), getThreadTtl(env));
+  } catch (error) {
+    console.warn(`⚠️ Deep dive thread write failed for ${thread.id}:`, error);
+  }
+}
+
+export function appendTurn(thread: DeepDiveThread, question: string, response: string, stopped = false): DeepDiveThread {
+  const timestamp = Date.now();
+  const turn: DeepDiveTurn = stopped ? { question, response, timestamp, stopped } : { question, response, timestamp };
+  return {
+    ...thread,
+    turns: [...thread.turns, turn].slice(-MAX_STORED_TURNS),
+    updated_at: timestamp,
+  };
+}
@@ -3,10 +3,13 @@
  * Handles individual diagram code generation and deep dive responses.
  */
 
-import { callOpenAI, callOpenAIOptimized, selectOptimalModel, EnvLike } from './openai';
-import { getDiagramPrompt, getDeepDivePrompt } from './prompts';
+import { callOpenAI, callOpenAIOptimized, streamOpenAIOptimized, EnvLike } from './openai';
+import { miniModel, selectOptimalModel } from './intent';
+import { getDiagramPrompt, getDeepDivePrompt, getDeepDiveSuggestionsPrompt } from './prompts';
 import { createTimer } from './timing';
 import { DiagramType } from './diagram-types';
+import { parseChartContent, renderChartMermaid, validateChartSpec } from './quantitative-chart';
+import type { DeepDiveTurn } from './deep-dive-threads';
 
 export async function generateDiagramCode(
   contentDescription: string,
@@ -22,6 +25,17 @@ export async function generateDiagramCode(
   console.log(`Content description: ${contentDescription.substring(0, 200)}...`);
   console.log(`Original query: ${originalQuery}`);
 
+  // Charts are rendered from the validated data series, no LLM call needed
+  if (diagramType === "quantitative_chart") {
+    const spec = parseChartContent(contentDescription);
+    const problems = validateChartSpec(spec);
+    if (problems.length) {
+      throw new Error(`Invalid chart data: ${problems.join("; ")}`);
+    }
+    console.log(`📊 [${timer.getRequestId()}] Rendering ${spec.kind} chart with ${spec.points.length} data points`);
+    return renderChartMermaid(spec);
+  }
+
   // Build user message based on diagram type
   let userMessage: string;
 
@@ -38,6 +52,20 @@ ${contentDescription}`;
 ${originalQuery}
 
 Content details:
+${contentDescription}`;
+  } else if (diagramType === "timeline") {
+    userMessage = `Create a Mermaid timeline for this query:
+
+${originalQuery}
+
+Use exactly these events, in this order, grouped by the listed eras if any:
+${contentDescription}`;
+  } else if (diagramType === "state_diagram") {
+    userMessage = `Create a Mermaid state diagram for this query:
+
+${originalQuery}
+
+Use exactly these states and transitions:
 ${contentDescription}`;
   } else { // radial_mindmap
     userMessage = `Create a radial Mermaid mind-map from this content:
@@ -70,7 +98,9 @@ Make sure the central node A is visible and contains the exact query text.`;
         {
           usePriority: true,        // Faster queue processing
           useCache: true,          // Cache reusable prompts
-          useStructured: false     // Text response, not JSON
+          useStructured: false,    // Text response, not JSON
+          timer,
+          stage: "diagram_code"
         }
     ), {
       diagram_type: diagramType,
@@ -103,53 +133,74 @@ Make sure the central node A is visible and contains the exact query text.`;
   }
 }
 
+// Optimized token limit - reduced from 500 to 300 for faster processing
+export const DEFAULT_DEEP_DIVE_MAX_TOKENS = 300;
+
+export type DeepDiveOptions = {
+  universalContent?: string;
+  priorTurns?: DeepDiveTurn[];
+  maxTokens?: number;
+  // When set the answer is streamed through onDelta; aborting signal cancels the upstream call
+  onDelta?: (text: string) => void;
+  signal?: AbortSignal;
+};
+
 export async function generateDeepDiveResponse(
   selectedText: string,
   question: string,
   originalQuery: string,
-  env: EnvLike
+  env: EnvLike,
+  options: DeepDiveOptions = {}
 ): Promise<string> {
   const timer = createTimer();
   const deepDivePrompt = getDeepDivePrompt();
+  const priorTurns = options.priorTurns || [];
 
   console.log(`🔍 [${timer.getRequestId()}] Starting OPTIMIZED deep dive response generation...`);
   console.log(`Selected text length: ${selectedText.length}`);
   console.log(`Question length: ${question.length}`);
   console.log(`Original query length: ${originalQuery.length}`);
-
-  const userMessage = `Selected text from diagram: "${selectedText}"
-
-User's question: ${question}
-
-Original query that generated the diagram: ${originalQuery}`;
+  console.log(`Prior turns: ${priorTurns.length}`);
+
+  const sections = [
+    `Selected text from diagram: "${selectedText}"`,
+    `Original query that generated the diagram: ${originalQuery}`,
+  ];
+  if (options.universalContent) {
+    sections.push(`Diagram content:\n${options.universalContent}`);
+  }
+  if (priorTurns.length) {
+    const transcript = priorTurns.map(turn => `Q: ${turn.question}\nA: ${turn.response}`).join("\n\n");
+    sections.push(`Earlier in this conversation:\n${transcript}`);
+  }
+  sections.push(`User's question: ${question}`);
+  const userMessage = sections.join("\n\n");
 
   try {
     // Select optimal model for deep dive (usually simpler, so use mini)
     const optimalModel = selectOptimalModel(question, env);
     console.log(`🎯 [${timer.getRequestId()}] Selected model for deep dive: ${optimalModel}`);
 
-    // Optimized token limit - reduced from 500 to 300 for faster processing
-    const optimizedMaxTokens = 300;
-
-    console.log(`🔍 [${timer.getRequestId()}] Calling OpenAI with optimizations for deep dive generation...`);
-    const response = await timer.timeStep("optimized_deep_dive_llm_call", () => callOpenAIOptimized(
-      env,
-      deepDivePrompt,
-      userMessage,
-      optimalModel,
-      optimizedMaxTokens,
-      0.7,
-        {
-          usePriority: true,        // Faster queue processing
-          useCache: true,          // Cache reusable prompts
-          useStructured: false     // Text response, not JSON
-        }
-    ), {
+    const optimizedMaxTokens = options.maxTokens || DEFAULT_DEEP_DIVE_MAX_TOKENS;
+    const callOptions = {
+      usePriority: true,        // Faster queue processing
+      useCache: true,          // Cache reusable prompts
+      useStructured: false,    // Text response, not JSON
+      timer,
+      stage: "deep_dive"
+    };
+
+    console.log(`🔍 [${timer.getRequestId()}] Calling OpenAI with optimizations for deep dive generation${options.onDelta ? " (streaming)" : ""}...`);
+    const response = await timer.timeStep("optimized_deep_dive_llm_call", () => options.onDelta
+      ? streamOpenAIOptimized(env, deepDivePrompt, userMessage, optimalModel, optimizedMaxTokens, 0.7, options.onDelta, callOptions, options.signal)
+      : callOpenAIOptimized(env, deepDivePrompt, userMessage, optimalModel, optimizedMaxTokens, 0.7, callOptions), {
       selected_text_length: selectedText.length,
       question_length: question.length,
       original_query_length: originalQuery.length,
+      prior_turns: priorTurns.length,
       model: optimalModel,
       max_tokens: optimizedMaxTokens,
+      streamed: Boolean(options.onDelta),
       optimizations: "priority,cache,early_stop"
     });
 
@@ -171,3 +222,62 @@ Original query that generated the diagram: ${originalQuery}`;
     throw error;
   }
 }
+
+const MAX_SUGGESTIONS = 5;
+
+/**
+ * Suggests follow-up questions for a selected node. Runs on the mini model with a
+ * small token budget alongside the answer, and returns [] instead of failing it.
+ */
+export async function generateDeepDiveSuggestions(
+  selectedText: string,
+  originalQuery: string,
+  env: EnvLike,
+  askedQuestions: string[] = []
+): Promise<string[]> {
+  const timer = createTimer();
+  const sections = [
+    `Selected text from diagram: "${selectedText}"`,
+    `Original query that generated the diagram: ${originalQuery}`,
+  ];
+  if (askedQuestions.length) {
+    sections.push(`Questions already asked:\n${askedQuestions.map(q => `- ${q}`).join("\n")}`);
+  }
+
+  try {
+    const model = miniModel(env);
+    const response = await timer.timeStep("deep_dive_suggestions_llm_call", () => callOpenAIOptimized(
+      env,
+      getDeepDiveSuggestionsPrompt(),
+      sections.join("\n\n"),
+      model,
+      120,
+      0.7,
+      {
+        usePriority: true,
+        useCache: true,
+        useStructured: false,
+        timer,
+        stage: "deep_dive_suggestions"
+      }
+    ), {
+      selected_text_length: selectedText.length,
+      asked_questions: askedQuestions.length,
+      model
+    });
+
+    const asked = new Set(askedQuestions.map(q => q.toLowerCase()));
+    const suggestions = response
+      .split("\n")
+      .map(line => line.replace(/^\s*(?:[-*\u2022]|\d+[.)])\s*/, "").replace(/^["']|["']$/g, "").trim())
+      .filter(line => line.endsWith("?") && !asked.has(line.toLowerCase()))
+      .filter((line, index, lines) => lines.indexOf(line) === index)
+      .slice(0, MAX_SUGGESTIONS);
+
+    console.log(`💡 [${timer.getRequestId()}] Generated ${suggestions.length} deep dive suggestions`);
+    return suggestions;
+  } catch (error) {
+    console.warn(`⚠️ [${timer.getRequestId()}] Deep dive suggestions failed:`, error);
+    return [];
+  }
+}
@@ -12,7 +12,10 @@
 // Re-export functions from the new modular structure
 export { 
   generateDiagramCode, 
-  generateDeepDiveResponse 
+  generateDeepDiveResponse,
+  generateDeepDiveSuggestions,
+  DEFAULT_DEEP_DIVE_MAX_TOKENS,
+  DeepDiveOptions
 } from './diagram-core';
 
 export { 
@@ -25,5 +28,8 @@ export {
 
 export { 
   processDiagramPipeline,
-  processDiagramPipelineSequential 
+  processDiagramPipelineSequential,
+  processDiagramPipelineStreaming,
+  PipelineEventName,
+  PipelineEmitter
 } from './diagram-pipeline';
@@ -4,26 +4,61 @@
  */
 
 import { EnvLike } from './openai';
-import { createTimer } from './timing';
+import { createTimer, PerformanceTimer } from './timing';
 import { sanitizeMermaid } from './utils';
-import { DiagramType, DiagramResult, selectDiagramType } from './diagram-types';
+import { DiagramType, DiagramResult, GenerationOptions } from './diagram-types';
+import { resolveIntent } from './intent';
 import { generateContent, ContentResult } from './content';
 import { generateDiagramCode } from './diagram-core';
 import { generateUnifiedDiagram, UnifiedDiagramResult } from './content-generators';
+import { repairMermaid } from './diagram-repair';
+
+export type PipelineEventName = "diagram_type" | "diagram_meta" | "mermaid_code" | "universal_content";
+export type PipelineEmitter = (event: PipelineEventName, data: Record<string, unknown>) => Promise<void> | void;
+
+// Lints sanitized Mermaid code and runs the LLM repair loop when it would not render.
+async function validateDiagram(
+  code: string,
+  query: string,
+  diagramType: string,
+  env: EnvLike,
+  timer: PerformanceTimer
+): Promise<string> {
+  const result = await timer.timeStep("diagram_validation", () => repairMermaid(code, { query, diagramType }, env, timer), {
+    diagram_length: code.length,
+    diagram_type: diagramType
+  });
+  if (result.fatal) {
+    console.warn(`⚠️ [${timer.getRequestId()}] Returning diagram with ${result.diagnostics.length} unresolved lint diagnostic(s)`);
+  }
+  return result.diagram;
+}
+
+// Every pipeline takes the Mermaid type from the query intent (heuristic first, then the LLM selector), unless the caller already resolved or requested one.
+async function resolveDiagramType(
+  query: string,
+  env: EnvLike,
+  options: GenerationOptions,
+  timer: PerformanceTimer
+): Promise<DiagramType> {
+  if (options.diagramType) return options.diagramType;
+  return timer.timeStep("diagram_type_selection", async () => (await resolveIntent(query, env)).diagram_type, {
+    query_length: query.length
+  });
+}
 
 export async function processDiagramPipelineSequential(
   query: string,
-  env: EnvLike
+  env: EnvLike,
+  options: GenerationOptions = {}
 ): Promise<DiagramResult> {
   const timer = createTimer();
   console.log(`🚀 [${timer.getRequestId()}] Starting diagram pipeline for query:`, query);
   
   try {
-    // Step 1: Select diagram type
-    const diagramType = await timer.timeStep("diagram_type_selection", () => selectDiagramType(query, env), {
-      query_length: query.length
-    });
-    console.log(`✅ [${timer.getRequestId()}] Selected diagram type: ${diagramType}`);
+    // Step 1: Select diagram type, unless the caller asked for one
+    const diagramType = await resolveDiagramType(query, env, options, timer);
+    console.log(`✅ [${timer.getRequestId()}] ${options.diagramType ? "Requested" : "Selected"} diagram type: ${diagramType}`);
     
     // Step 2: Generate content with metadata for all diagram types
     let universalContent: string;
@@ -33,7 +68,7 @@ export async function processDiagramPipelineSequential(
     if (diagramType === "radial_mindmap") {
       // Use individual content generation to get metadata
       const contentResult = await timer.timeStep("content_generation", () => 
-        generateContent(query, diagramType, env), {
+        generateContent(query, diagramType, env, options.detailLevel), {
         query_length: query.length,
         diagram_type: diagramType
       });
@@ -42,7 +77,7 @@ export async function processDiagramPipelineSequential(
       
       // Generate universal content separately
       const universalResult = await timer.timeStep("universal_content_generation", () => 
-        generateContent(query, "universal", env), {
+        generateContent(query, "universal", env, options.detailLevel), {
         query_length: query.length,
         diagram_type: "universal"
       });
@@ -50,7 +85,7 @@ export async function processDiagramPipelineSequential(
     } else {
       // For other diagram types, generate individual content to get metadata
       const contentResult = await timer.timeStep("content_generation", () => 
-        generateContent(query, diagramType, env), {
+        generateContent(query, diagramType, env, options.detailLevel), {
         query_length: query.length,
         diagram_type: diagramType
       });
@@ -59,7 +94,7 @@ export async function processDiagramPipelineSequential(
       
       // Generate universal content separately
       const universalResult = await timer.timeStep("universal_content_generation", () => 
-        generateContent(query, "universal", env), {
+        generateContent(query, "universal", env, options.detailLevel), {
         query_length: query.length,
         diagram_type: "universal"
       });
@@ -87,10 +122,11 @@ export async function processDiagramPipelineSequential(
       diagram_type: diagramType
     });
     console.log(`✅ [${timer.getRequestId()}] Generated diagram code: ${diagramCode.substring(0, 100)}...`);
+    const validatedDiagram = await validateDiagram(sanitizeMermaid(diagramCode), query, diagramType, env, timer);
     
     // Step 4: Prepare final result
     const result = await timer.timeStep("result_preparation", async () => {
-      const sanitizedDiagram = diagramCode; // Will be sanitized in handlers
+      const sanitizedDiagram = validatedDiagram;
       
       const result: DiagramResult = {
         diagram_type: diagramType,
@@ -137,27 +173,33 @@ export async function processDiagramPipelineSequential(
 
 export async function processDiagramPipeline(
   query: string,
-  env: EnvLike
+  env: EnvLike,
+  options: GenerationOptions = {}
 ): Promise<DiagramResult> {
   const timer = createTimer();
   console.log(`🚀 [${timer.getRequestId()}] Starting OPTIMIZED diagram pipeline for query:`, query);
   
+  // Resolved once up front so the unified prompt and the sequential fallback generate the same type
+  let resolvedOptions = options;
   try {
+    resolvedOptions = { ...options, diagramType: await resolveDiagramType(query, env, options, timer) };
+
     // Use the new unified generation approach
     const unifiedResult = await timer.timeStep("unified_generation", () =>
-      generateUnifiedDiagram(query, env), {
+      generateUnifiedDiagram(query, env, resolvedOptions), {
       query_length: query.length
     });
     
     console.log(`✅ [${timer.getRequestId()}] Unified generation completed`);
 
     // Sanitize the diagram code
-    const sanitizedDiagram = await timer.timeStep("diagram_sanitization", async () => {
+    const cleanedDiagram = await timer.timeStep("diagram_sanitization", async () => {
       return sanitizeMermaid(unifiedResult.mermaid_code);
     }, {
       diagram_length: unifiedResult.mermaid_code.length,
       diagram_type: unifiedResult.diagram_type
     });
+    const sanitizedDiagram = await validateDiagram(cleanedDiagram, query, unifiedResult.diagram_type, env, timer);
     
     // Prepare final result
     const result = await timer.timeStep("result_preparation", async () => {
@@ -198,6 +240,80 @@ export async function processDiagramPipeline(
     
     // Fallback to original sequential approach if unified fails
     console.log(`⚠️ [${timer.getRequestId()}] Falling back to sequential pipeline...`);
-    return processDiagramPipelineSequential(query, env);
+    return processDiagramPipelineSequential(query, env, resolvedOptions);
   }
 }
+
+/**
+ * Streaming variant of the pipeline used for Server-Sent Events.
+ * Selects the diagram type first (or takes the requested one), then generates the diagram and the universal
+ * text in parallel so each phase can be emitted as soon as it is ready.
+ */
+export async function processDiagramPipelineStreaming(
+  query: string,
+  env: EnvLike,
+  emit: PipelineEmitter,
+  timer: PerformanceTimer = createTimer(),
+  options: GenerationOptions = {}
+): Promise<DiagramResult> {
+  console.log(`🚀 [${timer.getRequestId()}] Starting STREAMING diagram pipeline for query:`, query);
+
+  const diagramType = await resolveDiagramType(query, env, options, timer);
+  await emit("diagram_type", { diagram_type: diagramType });
+
+  // Universal content is only needed by the Text tab, so its failure must not block the diagram.
+  const universalTask = timer.timeStep("universal_content_generation", () =>
+    generateContent(query, "universal", env, options.detailLevel), {
+    query_length: query.length,
+    diagram_type: "universal"
+  }).then(result => result.content).catch(error => {
+    console.error(`❌ [${timer.getRequestId()}] Universal content generation failed:`, error);
+    return "";
+  }).then(async universalContent => {
+    await emit("universal_content", { universal_content: universalContent });
+    return universalContent;
+  });
+
+  const diagramTask = (async () => {
+    const contentResult = await timer.timeStep("content_generation", () =>
+      generateContent(query, diagramType, env, options.detailLevel), {
+      query_length: query.length,
+      diagram_type: diagramType
+    });
+    await emit("diagram_meta", { diagram_meta: contentResult.metadata ?? null });
+
+    const diagramCode = await timer.timeStep("diagram_code_generation", () =>
+      generateDiagramCode(contentResult.content, query, diagramType, env), {
+      content_length: contentResult.content.length,
+      diagram_type: diagramType
+    });
+    const cleanedDiagram = await timer.timeStep("diagram_sanitization", async () => sanitizeMermaid(diagramCode), {
+      diagram_length: diagramCode.length,
+      diagram_type: diagramType
+    });
+    const sanitizedDiagram = await validateDiagram(cleanedDiagram, query, diagramType, env, timer);
+    await emit("mermaid_code", {
+      diagram_type: diagramType,
+      diagram: sanitizedDiagram,
+      content: contentResult.content,
+      description: contentResult.content
+    });
+
+    return { content: contentResult.content, metadata: contentResult.metadata, diagram: sanitizedDiagram };
+  })();
+
+  const [universalContent, diagramResult] = await Promise.all([universalTask, diagramTask]);
+
+  console.log(`🎉 [${timer.getRequestId()}] STREAMING Pipeline completed successfully!`);
+
+  return {
+    diagram_type: diagramType,
+    description: diagramResult.content,
+    content: diagramResult.content,
+    universal_content: universalContent,
+    diagram: diagramResult.diagram,
+    render_type: "html",
+    rendered_content: diagramResult.diagram,
+    diagram_meta: diagramResult.metadata
+  };
+}
@@ -0,0 +1,144 @@
+/**
+ * Natural-language refinement of a generated diagram.
+ * The current Mermaid code and diagram_meta are sent to the model with the user's
+ * instruction; the edited code goes through the same lint-and-repair loop as new
+ * diagrams, and node ids are compared so callers can see what was kept.
+ */
+
+import { callOpenAIOptimized } from './openai';
+import { selectOptimalModel } from './intent';
+import { getDiagramRefinePrompt } from './prompts';
+import { sanitizeMermaid } from './utils';
+import { listNodeIds, MermaidDiagnostic } from './mermaid-lint';
+import { repairMermaid, RepairEnv } from './diagram-repair';
+import { PerformanceTimer } from './timing';
+
+export interface RefineInput {
+  code: string;
+  diagramType: string;
+  instruction: string;
+  meta?: any;
+  query?: string; // original query, for context
+}
+
+export type NodeIdChanges = { kept: string[]; added: string[]; removed: string[] };
+
+export interface RefineResult {
+  diagram: string;
+  diagram_meta: any;
+  summary: string;
+  changed: boolean;
+  node_ids: NodeIdChanges;
+  repaired: boolean; // the edited code needed the lint-and-repair loop
+  diagnostics: MermaidDiagnostic[];
+}
+
+export class RefineError extends Error {
+  constructor(message: string, readonly diagnostics: MermaidDiagnostic[] = []) {
+    super(message);
+    this.name = "RefineError";
+  }
+}
+
+const REFINE_MAX_TOKENS = 2500;
+
+function buildRefineMessage(input: RefineInput): string {
+  return `Diagram type: ${input.diagramType}
+Original query: ${input.query || "(unknown)"}
+Instruction: ${input.instruction}
+
+diagram_meta:
+${input.meta ? JSON.stringify(input.meta, null, 2) : "null"}
+
+Mermaid code:
+${input.code}`;
+}
+
+type ParsedRefinement = { code: string; meta?: any; summary?: string };
+
+/** Reads the model's JSON answer; bare Mermaid code is accepted with the metadata left as it was. */
+export function parseRefineResponse(response: string): ParsedRefinement {
+  let body = (response || "").trim();
+  if (body.startsWith("```")) {
+    body = body.replace(/^```[a-zA-Z]*\n?/, "").replace(/```\s*$/, "").trim();
+  }
+  const start = body.indexOf("{");
+  const end = body.lastIndexOf("}");
+  if (start === 0 && end > start) {
+    try {
+      const parsed = JSON.parse(body.slice(start, end + 1));
+      if (typeof parsed?.mermaid_code === "string" && parsed.mermaid_code.trim()) {
+        return {
+          code: parsed.mermaid_code,
+          meta: "diagram_meta" in parsed ? parsed.diagram_meta : undefined,
+          summary: typeof parsed.summary === "string" ? parsed.summary.trim() : undefined,
+        };
+      }
+    } catch (_e) {
+      // Not JSON after all; treated as Mermaid code below
+    }
+  }
+  if (!body || body.startsWith("{")) {
+    throw new RefineError("The model did not return an edited diagram");
+  }
+  return { code: body };
+}
+
+export function compareNodeIds(before: string, after: string): NodeIdChanges {
+  const oldIds = listNodeIds(before);
+  const newIds = listNodeIds(after);
+  return {
+    kept: oldIds.filter(id => newIds.includes(id)),
+    added: newIds.filter(id => !oldIds.includes(id)),
+    removed: oldIds.filter(id => !newIds.includes(id)),
+  };
+}
+
+export async function refineDiagram(input: RefineInput, env: RepairEnv, timer: PerformanceTimer): Promise<RefineResult> {
+  // Chosen for the original query, like the calls that generated the diagram
+  const model = selectOptimalModel(input.query || input.instruction, env);
+
+  console.log(`✏️ [${timer.getRequestId()}] Refining ${input.diagramType}: ${input.instruction.substring(0, 80)}`);
+  const response = await timer.timeStep("diagram_refine_llm_call", () => callOpenAIOptimized(
+    env,
+    getDiagramRefinePrompt(),
+    buildRefineMessage(input),
+    model,
+    REFINE_MAX_TOKENS,
+    0.2,
+    {
+      usePriority: true,
+      useCache: true,
+      useStructured: true,
+      timer,
+      stage: "diagram_refine"
+    }
+  ), {
+    code_length: input.code.length,
+    diagram_type: input.diagramType
+  });
+
+  const parsed = parseRefineResponse(response);
+  const edited = sanitizeMermaid(parsed.code);
+  const check = await timer.timeStep("diagram_refine_validation", () =>
+    repairMermaid(edited, { query: input.query || input.instruction, diagramType: input.diagramType }, env, timer), {
+    diagram_type: input.diagramType
+  });
+  if (check.fatal) {
+    throw new RefineError("The edited diagram could not be repaired into valid Mermaid", check.diagnostics);
+  }
+
+  const changed = check.diagram.trim() !== input.code.trim();
+  const nodeIds = compareNodeIds(input.code, check.diagram);
+  console.log(`✅ [${timer.getRequestId()}] Refined diagram: ${nodeIds.kept.length} ids kept, ${nodeIds.added.length} added, ${nodeIds.removed.length} removed${changed ? "" : " (unchanged)"}`);
+
+  return {
+    diagram: check.diagram,
+    diagram_meta: parsed.meta === undefined ? input.meta ?? null : parsed.meta,
+    summary: parsed.summary || (changed ? "Diagram updated." : "The diagram was left unchanged."),
+    changed,
+    node_ids: nodeIds,
+    repaired: check.repaired,
+    diagnostics: check.diagnostics,
+  };
+}
@@ -0,0 +1,121 @@
+/**
+ * Lint-and-repair loop for generated Mermaid code.
+ * Code with fatal lint diagnostics (or a reported browser render error) is sent
+ * back to the model together with the problems, up to MERMAID_REPAIR_ATTEMPTS times.
+ */
+
+import { callOpenAIOptimized, EnvLike } from './openai';
+import { getDiagramRepairPrompt } from './prompts';
+import { sanitizeMermaid } from './utils';
+import { formatDiagnostics, lintMermaid, LintResult, MermaidDiagnostic } from './mermaid-lint';
+import { PerformanceTimer } from './timing';
+
+export type RepairEnv = EnvLike & { MERMAID_REPAIR_ATTEMPTS?: string };
+
+export interface RepairContext {
+  query: string;
+  diagramType: string;
+  renderError?: string; // error reported by the browser's mermaid.render
+}
+
+export interface RepairResult {
+  diagram: string;
+  diagnostics: MermaidDiagnostic[]; // diagnostics for the returned code
+  attempts: number;
+  repaired: boolean;
+  fatal: boolean;
+}
+
+const DEFAULT_REPAIR_ATTEMPTS = 2;
+
+export function getRepairAttempts(env: RepairEnv): number {
+  const attempts = parseInt(env.MERMAID_REPAIR_ATTEMPTS || "", 10);
+  return Number.isFinite(attempts) && attempts >= 0 ? attempts : DEFAULT_REPAIR_ATTEMPTS;
+}
+
+function errorCount(lint: LintResult): number {
+  return lint.diagnostics.filter(d => d.severity === "error").length;
+}
+
+function buildRepairMessage(code: string, lint: LintResult, context: RepairContext): string {
+  const problems = [formatDiagnostics(lint.diagnostics)];
+  if (context.renderError) problems.push(`- renderer error: ${context.renderError}`);
+  return `Diagram type: ${context.diagramType}
+Original query: ${context.query}
+
+Problems:
+${problems.filter(Boolean).join("\n") || "- (none reported by the linter)"}
+
+Mermaid code:
+${code}`;
+}
+
+/**
+ * Repair calls are timed on the caller's timer and billed to the usage tracker on
+ * `env`, so they show up in the request's performance report and usage.
+ */
+export async function repairMermaid(
+  code: string,
+  context: RepairContext,
+  env: RepairEnv,
+  timer: PerformanceTimer,
+  maxAttempts = getRepairAttempts(env)
+): Promise<RepairResult> {
+  let best = { code, lint: lintMermaid(code) };
+
+  const warnings = best.lint.diagnostics.filter(d => d.severity === "warning");
+  if (warnings.length) {
+    console.warn(`⚠️ [${timer.getRequestId()}] Mermaid lint warnings:\n${formatDiagnostics(warnings)}`);
+  }
+  if (!best.lint.fatal && !context.renderError) {
+    return { diagram: code, diagnostics: best.lint.diagnostics, attempts: 0, repaired: false, fatal: false };
+  }
+
+  console.warn(`🛠️ [${timer.getRequestId()}] Diagram needs repair:\n${formatDiagnostics(best.lint.diagnostics)}${context.renderError ? `\n- renderer error: ${context.renderError}` : ""}`);
+  const model = env.OPENAI_MODEL || "gpt-4.1";
+  let attempts = 0;
+
+  while (attempts < maxAttempts) {
+    attempts++;
+    let candidate: string;
+    try {
+      const response = await timer.timeStep("diagram_repair_llm_call", () => callOpenAIOptimized(
+        env,
+        getDiagramRepairPrompt(),
+        buildRepairMessage(best.code, best.lint, context),
+        model,
+        1500,
+        0.2,
+        {
+          usePriority: true,
+          useCache: true,
+          useStructured: false,
+          timer,
+          stage: "diagram_repair"
+        }
+      ), {
+        attempt: attempts,
+        diagram_type: context.diagramType,
+        errors: errorCount(best.lint)
+      });
+      candidate = sanitizeMermaid(response);
+    } catch (error) {
+      console.error(`❌ [${timer.getRequestId()}] Diagram repair call failed:`, error);
+      break;
+    }
+
+    const lint = lintMermaid(candidate);
+    const changed = candidate.trim() !== code.trim();
+    if (!lint.fatal && (changed || !context.renderError)) {
+      console.log(`✅ [${timer.getRequestId()}] Diagram repaired after ${attempts} attempt(s)`);
+      return { diagram: candidate, diagnostics: lint.diagnostics, attempts, repaired: true, fatal: false };
+    }
+    if (errorCount(lint) < errorCount(best.lint)) {
+      best = { code: candidate, lint };
+    }
+  }
+
+  console.warn(`⚠️ [${timer.getRequestId()}] Diagram still has errors after ${attempts} repair attempt(s)`);
+  const repaired = best.code !== code;
+  return { diagram: best.code, diagnostics: best.lint.diagnostics, attempts, repaired, fatal: best.lint.fatal || (!!context.renderError && !repaired) };
+}
@@ -1,12 +1,43 @@
 /**
- * Diagram types and type selection logic.
- * Handles diagram type definitions and selection based on user queries.
+ * Diagram type definitions and generation options.
+ * Type selection for a query lives in intent.ts.
  */
 
-import { callOpenAI, callOpenAIOptimized, selectOptimalModel, EnvLike } from './openai';
-import { createTimer } from './timing';
+export type DiagramType = "flowchart" | "radial_mindmap" | "sequence_comparison" | "timeline" | "quantitative_chart" | "state_diagram";
 
-export type DiagramType = "flowchart" | "radial_mindmap" | "sequence_comparison";
+export const DIAGRAM_TYPES: DiagramType[] = ["flowchart", "radial_mindmap", "sequence_comparison", "timeline", "quantitative_chart", "state_diagram"];
+
+export type DetailLevel = "brief" | "standard" | "detailed";
+
+export const DETAIL_LEVELS: DetailLevel[] = ["brief", "standard", "detailed"];
+
+/**
+ * Caller choices that replace the pipeline defaults: a fixed diagram type skips
+ * type selection, and a detail level other than "standard" resizes the content.
+ */
+export interface GenerationOptions {
+  diagramType?: DiagramType;
+  detailLevel?: DetailLevel;
+}
+
+const DETAIL_INSTRUCTIONS: Record<DetailLevel, string> = {
+  brief: "Keep it brief: use the minimum number of nodes, steps, events or data points the format allows, one short line per item, and keep any explanatory text under 150 words.",
+  standard: "",
+  detailed: "Go into depth: use the maximum number of nodes, steps, events or data points the format allows, add concrete specifics to each, and let explanatory text run to 600 words.",
+};
+
+/** Appends the requested detail level and diagram type to a system prompt; unchanged for defaults. */
+export function withGenerationOptions(systemPrompt: string, options: GenerationOptions = {}): string {
+  const sections: string[] = [];
+  if (options.diagramType) {
+    sections.push(`REQUIRED DIAGRAM TYPE: ${options.diagramType}\nThis type was chosen before generation. Set "diagram_type" to "${options.diagramType}" and follow its structure even if another type would fit better.`);
+  }
+  const detail = DETAIL_INSTRUCTIONS[options.detailLevel || "standard"];
+  if (detail) {
+    sections.push(`DETAIL LEVEL: ${options.detailLevel}\n${detail}`);
+  }
+  return sections.length ? `${systemPrompt}\n\n${sections.join("\n\n")}` : systemPrompt;
+}
 
 export interface DiagramResult {
   diagram_type: DiagramType;
@@ -18,59 +49,3 @@ export interface DiagramResult {
   rendered_content: string;
   diagram_meta?: any;
 }
-
-export async function selectDiagramType(query: string, env: EnvLike): Promise<DiagramType> {
-  const timer = createTimer();
-  const selectorPrompt = `You are a diagram-type selector.
-
-As a response to the below query, choose which output representation would be best suited:
-- flowchart        : sequential steps, how-to, decision logic
-- radial_mindmap   : concept overviews, definitions, characteristics
-- sequence_comparison: comparing two or more items, highlighting similarities and unique features
-
-Respond with ONLY one word: "flowchart", "radial_mindmap", or "sequence_comparison".`;
-
-  try {
-    // Select optimal model for diagram type selection (usually simple, so use mini)
-    const optimalModel = selectOptimalModel(query, env);
-    console.log(`🎯 [${timer.getRequestId()}] Selected model for diagram type selection: ${optimalModel}`);
-
-    // Optimized token limit - reduced from 50 to 20 for faster processing
-    const optimizedMaxTokens = 20;
-
-    const response = await timer.timeStep("optimized_diagram_type_llm_call", () => callOpenAIOptimized(
-      env,
-      selectorPrompt,
-      query,
-      optimalModel,
-      optimizedMaxTokens,
-      0.3,
-        {
-          usePriority: true,        // Faster queue processing
-          useCache: true,          // Cache reusable prompts
-          useStructured: false     // Simple text response
-        }
-    ), {
-      query_length: query.length,
-      model: optimalModel,
-      max_tokens: optimizedMaxTokens,
-      optimizations: "priority,cache,early_stop"
-    });
-
-    const validTypes = ["flowchart", "radial_mindmap", "sequence_comparison"];
-    const responseClean = response.trim().toLowerCase();
-
-    if (validTypes.includes(responseClean)) {
-      console.log(`✅ [${timer.getRequestId()}] Selected diagram type: ${responseClean}`);
-      return responseClean as DiagramType;
-    }
-
-    // Default to radial_mindmap for general queries
-    console.log(`⚠️ [${timer.getRequestId()}] Invalid response, defaulting to radial_mindmap. Response: ${responseClean}`);
-    return "radial_mindmap";
-
-  } catch (error) {
-    console.error(`❌ [${timer.getRequestId()}] Error selecting diagram type:`, error);
-    return "radial_mindmap";
-  }
-}
@@ -1,11 +1,23 @@
-﻿import { describeHandler, deepDiveHandler, clusterHandler } from './handlers';
+﻿import { describeHandler, describeStreamHandler, deepDiveHandler, deepDiveStreamHandler, deepDiveSuggestionsHandler, clusterHandler, diagramRepairHandler, refineHandler, expandHandler } from './handlers';
 import { json, toMessage } from './utils';
 import { handleNodeSearch, Env as NodeSearchEnv } from './routes/nodeSearch';
 import { handleDemoAnalytics, Env as DemoAnalyticsEnv } from './routes/demoAnalytics';
+import { handleUsage, Env as UsageEnv } from './routes/usage';
+import { handleRenderOutcome } from './routes/renderOutcome';
+import { handleIntent, Env as IntentEnv } from './routes/intent';
+import { handlePermalink, PERMALINK_PATH, Env as PermalinkEnv } from './routes/permalink';
+import { CacheEnv } from './cache';
+import { RateLimitEnv, enforceRateLimit } from './rate-limit';
+import { DeepDiveThreadEnv } from './deep-dive-threads';
+import { ClusterItemsEnv, clusterItemsEnabled } from './cluster-items';
 
-export interface Env extends NodeSearchEnv, DemoAnalyticsEnv {
+export interface Env extends NodeSearchEnv, DemoAnalyticsEnv, UsageEnv, IntentEnv, PermalinkEnv, CacheEnv, RateLimitEnv, DeepDiveThreadEnv, ClusterItemsEnv {
   OPENAI_API_KEY: string;
   OPENAI_MODEL?: string;
+  LLM_PROVIDER?: string;
+  LLM_BASE_URL?: string;
+  LLM_API_KEY?: string;
+  DEEP_DIVE_MAX_TOKENS?: string;
   ASSETS: {
     fetch: (req: Request) => Promise<Response>;
     get: (path: string) => Promise<Response | null>;
@@ -28,13 +40,15 @@ export default {
         return new Response(null, {
           headers: {
             "Access-Control-Allow-Origin": "*",
-            "Access-Control-Allow-Headers": "content-type",
+            "Access-Control-Allow-Headers": "content-type, x-session-id, authorization",
             "Access-Control-Allow-Methods": "POST, GET, OPTIONS",
           },
         });
       }
 
       if (pathname === "/api/node-search" && request.method === "POST") {
+        const limited = await enforceRateLimit(request, env, 'node-search');
+        if (limited) return limited;
         return handleNodeSearch(request, env, {} as any);
       }
 
@@ -42,21 +56,79 @@ export default {
         return handleDemoAnalytics(request, env);
       }
 
+      if (pathname === '/api/usage' && request.method === 'GET') {
+        return handleUsage(request, env);
+      }
+
+      if (request.method === 'GET' && PERMALINK_PATH.test(pathname)) {
+        return handlePermalink(request, env);
+      }
+
+      if (request.method === 'POST' && pathname === '/api/intent') {
+        return handleIntent(request, env);
+      }
+
       if (request.method === 'POST' && pathname === '/api/describe') {
+        const limited = await enforceRateLimit(request, env, 'describe');
+        if (limited) return limited;
         console.log("ðŸ”µ Handling describe request...");
         const body = await request.json();
         console.log("ðŸ”µ Request body:", JSON.stringify(body, null, 2));
         
+        if ((request.headers.get('accept') || '').includes('text/event-stream')) {
+          return describeStreamHandler(body as any, env as any);
+        }
         return describeHandler(body as any, env as any);
       }
 
       if (request.method === 'POST' && pathname === '/api/deep-dive') {
+        const limited = await enforceRateLimit(request, env, 'deep-dive');
+        if (limited) return limited;
         console.log("ðŸ”µ Handling deep-dive request...");
         const body = await request.json();
+        if ((request.headers.get('accept') || '').includes('text/event-stream')) {
+          return deepDiveStreamHandler(body as any, env as any, request.signal);
+        }
         return deepDiveHandler(body as any, env as any);
       }
 
+      if (request.method === 'POST' && pathname === '/api/deep-dive/suggestions') {
+        const limited = await enforceRateLimit(request, env, 'deep-dive-suggestions');
+        if (limited) return limited;
+        const body = await request.json();
+        return deepDiveSuggestionsHandler(body as any, env as any);
+      }
+
+      if (request.method === 'POST' && pathname === '/api/diagram/repair') {
+        const limited = await enforceRateLimit(request, env, 'diagram-repair');
+        if (limited) return limited;
+        const body = await request.json();
+        return diagramRepairHandler(body as any, env as any);
+      }
+
+      if (request.method === 'POST' && pathname === '/api/refine') {
+        const limited = await enforceRateLimit(request, env, 'refine');
+        if (limited) return limited;
+        const body = await request.json();
+        return refineHandler(body as any, env as any);
+      }
+
+      if (request.method === 'POST' && pathname === '/api/expand') {
+        const limited = await enforceRateLimit(request, env, 'expand');
+        if (limited) return limited;
+        const body = await request.json();
+        return expandHandler(body as any, env as any);
+      }
+
+      if (request.method === 'POST' && pathname === '/api/diagram/render-outcome') {
+        const limited = await enforceRateLimit(request, env, 'render-outcome');
+        if (limited) return limited;
+        return handleRenderOutcome(request, env);
+      }
+
       if (request.method === 'POST' && pathname === '/api/cluster') {
+        const limited = await enforceRateLimit(request, env, clusterItemsEnabled(env) ? 'cluster-with-items' : 'cluster');
+        if (limited) return limited;
         console.log('Handling cluster request...');
         const body = await request.json();
         return clusterHandler(body as any, env as any);
@@ -1,11 +1,26 @@
-import { json, sanitizeMermaid } from "./utils";
-import { processDiagramPipeline, generateDeepDiveResponse, generateCombinedContent } from "./diagram-generator";
-import { generateClusterData } from "./cluster-generator";
-import { DiagramType } from "./diagram-types";
+import { json, sanitizeMermaid, createEventStream } from "./utils";
+import { processDiagramPipeline, processDiagramPipelineStreaming, generateDeepDiveResponse, generateDeepDiveSuggestions, generateCombinedContent, DEFAULT_DEEP_DIVE_MAX_TOKENS } from "./diagram-generator";
+import { ClusterDrillDown, generateClusterData } from "./cluster-generator";
+import type { ClusterNode, ClusterWarning } from "./cluster-schema";
+import { ClusterItemsEnv, attachClusterItems } from "./cluster-items";
+import { DETAIL_LEVELS, DIAGRAM_TYPES, DetailLevel, DiagramType, GenerationOptions } from "./diagram-types";
 import { EnvLike } from "./openai";
-import { createTimer } from "./timing";
+import { createTimer, PerformanceTimer } from "./timing";
+import { CacheEnv, CacheMode, buildCacheKey, cacheHeaders, readCache, withCache, writeCache } from "./cache";
+import type { DiagramResult } from "./diagram-types";
+import { UsageEnv, UsageSummary, createUsageTracker, finishUsage, withUsageTracker } from "./usage";
+import { repairMermaid, RepairEnv } from "./diagram-repair";
+import { QueryIntent, detectIntent, resolveIntent } from "./intent";
+import { DeepDiveThread, DeepDiveThreadEnv, MAX_PROMPT_TURNS, appendTurn, createThread, loadThread, saveThread } from "./deep-dive-threads";
+import { PermalinkEnv, SavedPermalink, addPermalinkChildren, isValidPermalinkId, loadPermalink, replacePermalinkDiagram, savePermalink } from "./permalinks";
+import { RefineError, refineDiagram } from "./diagram-refine";
+import { NodeExpandRequest, buildExpandQuery, parseNodeExpansion } from "./node-expand";
 
-type DescribeRequest = { query: string };
+type HandlerEnv = EnvLike & CacheEnv & UsageEnv & RepairEnv & DeepDiveThreadEnv & ClusterItemsEnv & PermalinkEnv & {
+  DEEP_DIVE_MAX_TOKENS?: string; // server-enforced cap for the max_tokens option
+};
+
+type DescribeRequest = { query: string; cache?: CacheMode; diagram_type?: string; detail_level?: string };
 type DiagramResponse = {
   success: true;
   query: string;
@@ -17,11 +32,154 @@ type DiagramResponse = {
   render_type: "html";
   rendered_content: string;
   diagram_meta?: any;
+  intent?: QueryIntent;
+  view: "mermaid" | "foamtree"; // foamtree: the client loads the topic map from /api/cluster
+  permalink_id?: string; // share as /d/:id
+  permalink_token?: string; // lets the creator record a browser repair in the permalink
+  usage?: UsageSummary;
+};
+
+type DeepDiveRequest = {
+  selected_text?: string;
+  question: string;
+  original_query?: string;
+  universal_content?: string;
+  thread_id?: string; // continue an earlier thread; omitted or expired starts a new one
+  max_tokens?: number;
 };
 
-type DeepDiveRequest = { selected_text: string; question: string; original_query?: string };
+type DeepDiveSuggestionsRequest = { selected_text: string; original_query?: string; thread_id?: string };
 
-export async function describeHandler(body: DescribeRequest, env: EnvLike): Promise<Response> {
+type DiagramRepairRequest = {
+  code: string;
+  error?: string;
+  query?: string;
+  diagram_type?: string;
+  // The permalink showing `code`; with its token the repaired code replaces the stored one
+  permalink_id?: string;
+  permalink_token?: string;
+};
+
+type RefineRequest = {
+  code: string;
+  instruction: string;
+  diagram_type: string;
+  diagram_meta?: any;
+  query?: string;
+  permalink_id?: string; // the result being refined; a new permalink is saved for the edited diagram
+};
+
+// Without an explicit diagram_type the query intent chooses the Mermaid type.
+const AUTO_DIAGRAM_TYPE = "auto";
+
+// The FoamTree view is built by /api/cluster, so describe only acknowledges it.
+const TOPIC_MAP_TYPE = "topic_map";
+
+type DescribeOptions = GenerationOptions & { topicMap: boolean; intent: QueryIntent };
+
+// The Mermaid response of describe, its streaming variant and expand, saved as a permalink
+async function buildDiagramResponse(env: HandlerEnv, query: string, result: DiagramResult, intent: QueryIntent): Promise<DiagramResponse> {
+  const diagram = sanitizeMermaid(result.diagram);
+  const response: DiagramResponse = {
+    success: true,
+    query,
+    description: result.description,
+    content: result.content,
+    universal_content: result.universal_content,
+    diagram_type: result.diagram_type,
+    diagram,
+    render_type: "html",
+    rendered_content: diagram,
+    diagram_meta: result.diagram_meta,
+    intent,
+    view: "mermaid",
+  };
+  const saved = await savePermalink(env, {
+    view: "diagram",
+    query,
+    diagram_type: result.diagram_type,
+    diagram,
+    diagram_meta: result.diagram_meta,
+    content: result.content,
+    description: result.description,
+    universal_content: result.universal_content,
+  });
+  if (saved) {
+    response.permalink_id = saved.id;
+    response.permalink_token = saved.editToken;
+  }
+  return response;
+}
+
+// Expanded nodes are always Mermaid diagrams (topic maps drill down through /api/cluster), so expand passes allowTopicMap = false
+function parseDescribeOptions(body: DescribeRequest, query: string, allowTopicMap = true): DescribeOptions | { error: string } {
+  const requestedType = (body?.diagram_type || "").trim().toLowerCase();
+  const detailLevel = (body?.detail_level || "").trim().toLowerCase();
+
+  const acceptedTypes: string[] = [AUTO_DIAGRAM_TYPE, ...DIAGRAM_TYPES, ...(allowTopicMap ? [TOPIC_MAP_TYPE] : [])];
+  if (requestedType && !acceptedTypes.includes(requestedType)) {
+    return { error: `diagram_type must be one of: ${acceptedTypes.join(", ")}` };
+  }
+  if (detailLevel && !(DETAIL_LEVELS as string[]).includes(detailLevel)) {
+    return { error: `detail_level must be one of: ${DETAIL_LEVELS.join(", ")}` };
+  }
+
+  // The heuristic decides the view here; the Mermaid type is resolved by resolveDescribeType
+  const intent = detectIntent(query);
+  const explicitType = (DIAGRAM_TYPES as string[]).includes(requestedType) ? requestedType as DiagramType : undefined;
+  const autoType = !requestedType || requestedType === AUTO_DIAGRAM_TYPE;
+  return {
+    topicMap: allowTopicMap && (requestedType === TOPIC_MAP_TYPE || (autoType && intent.view === "foamtree")),
+    diagramType: explicitType,
+    detailLevel: detailLevel ? detailLevel as DetailLevel : undefined,
+    intent,
+  };
+}
+
+/**
+ * Settles the Mermaid type before the cache lookup, so describe, its streaming variant and expand generate,
+ * cache and return the same type for a query. A requested type replaces the intent's; otherwise the intent's
+ * type comes from resolveIntent, the same heuristic-then-selector policy /api/intent reports with `"llm": true`.
+ */
+async function resolveDescribeType(query: string, options: DescribeOptions, env: HandlerEnv, timer: PerformanceTimer): Promise<DescribeOptions> {
+  if (options.topicMap) return options;
+  if (options.diagramType) {
+    return { ...options, intent: { ...options.intent, diagram_type: options.diagramType } };
+  }
+  const intent = await timer.timeStep("diagram_type_selection", () => resolveIntent(query, env), {
+    query_length: query.length
+  });
+  return { ...options, diagramType: intent.diagram_type, intent };
+}
+
+// A failed Text tab generation leaves universal_content empty; such results are shown but not cached
+function isCompleteResult(result: DiagramResult): boolean {
+  return !!result.universal_content;
+}
+
+// Keyed by the resolved type, so an auto-selected result also answers a request for that type
+function describeCacheVariant(options: GenerationOptions): string {
+  const type = options.diagramType || AUTO_DIAGRAM_TYPE;
+  return options.detailLevel && options.detailLevel !== "standard" ? `${type}:${options.detailLevel}` : type;
+}
+
+function topicMapResponse(query: string, intent: QueryIntent): DiagramResponse {
+  return {
+    success: true,
+    query,
+    description: '',
+    content: '',
+    universal_content: '',
+    diagram_type: 'radial_mindmap',
+    diagram: '',
+    render_type: 'html',
+    rendered_content: '',
+    intent,
+    view: 'foamtree',
+  };
+}
+
+export async function describeHandler(body: DescribeRequest, env: HandlerEnv): Promise<Response> {
   const query = (body?.query || "").trim();
   if (!query) {
     return json({ 
@@ -31,79 +189,54 @@ export async function describeHandler(body: DescribeRequest, env: EnvLike): Prom
     }, 400);
   }
 
+  const parsed = parseDescribeOptions(body, query);
+  if ("error" in parsed) {
+    return json({
+      success: false,
+      detail: parsed.error,
+      error_type: "validation_error"
+    }, 400);
+  }
+
   // Create performance timer for this request
   const timer = createTimer();
+  const usage = createUsageTracker(timer.getRequestId(), env);
+  const trackedEnv = withUsageTracker(env, usage);
   timer.markStart("request_validation", { query_length: query.length });
 
   try {
     // If FoamTree/topic map is explicitly requested, skip Mermaid pipeline.
-    const q = query.toLowerCase();
-    if (
-      q.includes('foamtree') ||
-      q.includes('foam tree') ||
-      q.includes('foam-tree') ||
-      q.includes('topic map') ||
-      q.includes('topic maps') ||
-      q.includes('topic-map') ||
-      q.includes('topicmap')
-    ) {
+    const options = await resolveDescribeType(query, parsed, trackedEnv, timer);
+    if (options.topicMap) {
       console.log(`FoamTree requested; skipping diagram pipeline for query: ${query}`);
-      const response: DiagramResponse = {
-        success: true,
-        query,
-        description: '',
-        content: '',
-        universal_content: '',
-        diagram_type: 'radial_mindmap',
-        diagram: '',
-        render_type: 'html',
-        rendered_content: '',
-      };
       timer.logPerformanceReport();
-      return json(response, 200);
+      return json(topicMapResponse(query, options.intent), 200);
     }
-    console.log(`🚀 [${timer.getRequestId()}] Processing describe request: ${query.substring(0, 50)}...`);
+    console.log(`🚀 [${timer.getRequestId()}] Processing describe request: ${query.substring(0, 50)}... (type ${options.diagramType || AUTO_DIAGRAM_TYPE}, detail ${options.detailLevel || "standard"})`);
     
-    // Use the sophisticated pipeline from pitext_desktop
-    const result = await timer.timeStep("diagram_pipeline", () => processDiagramPipeline(query, env), {
-      query_length: query.length
+    // Use the sophisticated pipeline from pitext_desktop, behind the response cache
+    const cacheKey = await buildCacheKey("describe", query, describeCacheVariant(options));
+    const { value: result, status: cacheStatus } = await timer.timeStep("diagram_pipeline", () =>
+      withCache<DiagramResult>(env, cacheKey, body?.cache || "default", () => processDiagramPipeline(query, trackedEnv, options), isCompleteResult), {
+      query_length: query.length,
+      cache_mode: body?.cache || "default",
+      requested_type: parsed.diagramType || AUTO_DIAGRAM_TYPE
     });
     
-    // Sanitize the diagram code
-    const sanitizedDiagram = await timer.timeStep("diagram_sanitization", async () => {
-      return sanitizeMermaid(result.diagram);
-    }, {
+    // Prepare final response
+    const response = await timer.timeStep("response_preparation", () => buildDiagramResponse(env, query, result, options.intent), {
       diagram_length: result.diagram.length,
       diagram_type: result.diagram_type
     });
-    
-    // Prepare final response
-    const response = await timer.timeStep("response_preparation", async () => {
-      const response: DiagramResponse = {
-        success: true,
-        query,
-        description: result.description,
-        content: result.content,
-        universal_content: result.universal_content,
-        diagram_type: result.diagram_type,
-        diagram: sanitizedDiagram,
-        render_type: "html",
-        rendered_content: sanitizedDiagram,
-        diagram_meta: result.diagram_meta,
-      };
-      return response;
-    }, {
-      response_size: JSON.stringify({ success: true, query, diagram_type: result.diagram_type }).length
-    });
-    
+    response.usage = await finishUsage(env, "describe", usage);
     timer.markEnd("request_validation");
     
     // Log performance report
     timer.logPerformanceReport();
     
-    console.log(`✅ [${timer.getRequestId()}] Generated ${result.diagram_type} diagram for query: ${query.substring(0, 50)}`);
+    console.log(`✅ [${timer.getRequestId()}] Generated ${result.diagram_type} diagram for query: ${query.substring(0, 50)} (cache ${cacheStatus})`);
     
-    return json(response, 200);
+    return json(response, 200, cacheHeaders(cacheStatus));
     
   } catch (error) {
     timer.markEnd("request_validation", { success: false, error: error instanceof Error ? error.message : String(error) });
@@ -111,6 +244,7 @@ export async function describeHandler(body: DescribeRequest, env: EnvLike): Prom
     // Log performance report even for errors
     timer.logPerformanceReport();
     
+    await finishUsage(env, "describe", usage);
     console.error(`❌ [${timer.getRequestId()}] Describe handler error:`, error);
     console.error("Error stack:", error instanceof Error ? error.stack : 'No stack trace');
     console.error("Error details:", JSON.stringify(error, null, 2));
@@ -123,37 +257,194 @@ export async function describeHandler(body: DescribeRequest, env: EnvLike): Prom
   }
 }
 
-export async function deepDiveHandler(body: DeepDiveRequest, env: EnvLike): Promise<Response> {
+/**
+ * Server-Sent Events variant of describeHandler (selected with `Accept: text/event-stream`).
+ * Emits diagram_type, diagram_meta, mermaid_code and universal_content as each phase
+ * completes, followed by timing and a final done event carrying the full response.
+ * Cached results are replayed as the same sequence of events.
+ */
+export async function describeStreamHandler(body: DescribeRequest, env: HandlerEnv): Promise<Response> {
+  const query = (body?.query || "").trim();
+  if (!query) {
+    return json({ 
+      success: false, 
+      detail: "Query cannot be empty", 
+      error_type: "validation_error" 
+    }, 400);
+  }
+
+  const parsed = parseDescribeOptions(body, query);
+  if ("error" in parsed) {
+    return json({
+      success: false,
+      detail: parsed.error,
+      error_type: "validation_error"
+    }, 400);
+  }
+
+  const timer = createTimer();
+  const usage = createUsageTracker(timer.getRequestId(), env);
+  const trackedEnv = withUsageTracker(env, usage);
+  const options = await resolveDescribeType(query, parsed, trackedEnv, timer);
+  const cacheKey = await buildCacheKey("describe", query, describeCacheVariant(options));
+  // Looked up before the stream opens so the cache status can go in the response headers.
+  const cached = body?.cache === "bypass" ? null : await readCache<DiagramResult>(env, cacheKey);
+  const stream = createEventStream(cacheHeaders(cached ? "hit" : "miss"));
+
+  const run = async () => {
+    try {
+      if (options.topicMap) {
+        console.log(`FoamTree requested; skipping streaming diagram pipeline for query: ${query}`);
+        await stream.send("done", topicMapResponse(query, options.intent));
+        return;
+      }
+
+      console.log(`🚀 [${timer.getRequestId()}] Processing streaming describe request: ${query.substring(0, 50)}...`);
+      let result: DiagramResult;
+      if (cached) {
+        console.log(`💾 [${timer.getRequestId()}] Replaying cached diagram for query: ${query.substring(0, 50)}`);
+        result = cached;
+        await stream.send("diagram_type", { diagram_type: result.diagram_type });
+        await stream.send("diagram_meta", { diagram_meta: result.diagram_meta ?? null });
+        await stream.send("universal_content", { universal_content: result.universal_content });
+        await stream.send("mermaid_code", {
+          diagram_type: result.diagram_type,
+          diagram: result.diagram,
+          content: result.content,
+          description: result.description,
+        });
+      } else {
+        result = await processDiagramPipelineStreaming(query, trackedEnv, (event, data) => stream.send(event, data), timer, options);
+        if (isCompleteResult(result)) {
+          await writeCache(env, cacheKey, result);
+        }
+      }
+
+      await stream.send("timing", {
+        request_id: timer.getRequestId(),
+        total_ms: Math.round(timer.getTotalTime()),
+        steps: timer.getTimings().map(t => ({ step: t.step, duration_ms: Math.round(t.duration) })),
+      });
+
+      const response = await buildDiagramResponse(env, query, result, options.intent);
+      response.usage = await finishUsage(env, "describe", usage);
+      await stream.send("done", response);
+      console.log(`✅ [${timer.getRequestId()}] Streamed ${result.diagram_type} diagram for query: ${query.substring(0, 50)}`);
+    } catch (error) {
+      await finishUsage(env, "describe", usage);
+      console.error(`❌ [${timer.getRequestId()}] Streaming describe handler error:`, error);
+      await stream.send("error", {
+        success: false,
+        detail: `Error generating diagram: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        error_type: "internal_error",
+      }).catch(() => {});
+    } finally {
+      timer.logPerformanceReport();
+      await stream.close();
+    }
+  };
+
+  // Not awaited: events are written while the client reads the response body.
+  run();
+  return stream.response;
+}
+
+// Upper bound for the per-request max_tokens option; DEEP_DIVE_MAX_TOKENS overrides it.
+const DEEP_DIVE_MAX_TOKENS_LIMIT = 1500;
+
+type PreparedDeepDive = {
+  thread: DeepDiveThread;
+  continued: boolean;
+  question: string;
+  maxTokens: number;
+};
+
+function deepDiveTokenLimit(env: HandlerEnv): number {
+  const limit = parseInt(env.DEEP_DIVE_MAX_TOKENS || "", 10);
+  return Number.isFinite(limit) && limit > 0 ? limit : DEEP_DIVE_MAX_TOKENS_LIMIT;
+}
+
+async function prepareDeepDive(body: DeepDiveRequest, env: HandlerEnv): Promise<PreparedDeepDive | { error: string }> {
   const selected = (body?.selected_text || "").trim();
   const question = (body?.question || "").trim();
   const original = (body?.original_query || "").trim();
-  
-  if (!selected || !question) {
+  const threadId = (body?.thread_id || "").trim();
+
+  const requestedMaxTokens = body?.max_tokens ?? DEFAULT_DEEP_DIVE_MAX_TOKENS;
+  if (!Number.isInteger(requestedMaxTokens) || requestedMaxTokens < 1) {
+    return { error: "max_tokens must be a positive integer" };
+  }
+
+  // A thread stays tied to the node it was started for
+  const existing = threadId ? await loadThread(env, threadId) : null;
+  const thread = existing && (!selected || existing.selected_text === selected)
+    ? existing
+    : createThread(selected, original, (body?.universal_content || "").trim());
+
+  if (!thread.selected_text || !question) {
+    return { error: "selected_text and question are required" };
+  }
+
+  return {
+    thread,
+    continued: thread === existing,
+    question,
+    // Larger requests are capped rather than rejected
+    maxTokens: Math.min(requestedMaxTokens, deepDiveTokenLimit(env)),
+  };
+}
+
+function suggestFollowUps(thread: DeepDiveThread, question: string, env: HandlerEnv): Promise<string[]> {
+  const asked = [...thread.turns.map(turn => turn.question), question];
+  return generateDeepDiveSuggestions(thread.selected_text, thread.original_query, env, asked);
+}
+
+export async function deepDiveHandler(body: DeepDiveRequest, env: HandlerEnv): Promise<Response> {
+  const prepared = await prepareDeepDive(body, env);
+  if ("error" in prepared) {
     return json({ 
       success: false, 
-      detail: "selected_text and question are required", 
+      detail: prepared.error, 
       error_type: "validation_error" 
     }, 400);
   }
+  const { thread, question, maxTokens } = prepared;
 
   // Create performance timer for this request
   const timer = createTimer();
+  const usage = createUsageTracker(timer.getRequestId(), env);
+  const priorTurns = thread.turns.slice(-MAX_PROMPT_TURNS);
   timer.markStart("deep_dive_validation", { 
-    selected_length: selected.length, 
+    selected_length: thread.selected_text.length, 
     question_length: question.length,
-    original_length: original.length 
+    original_length: thread.original_query.length,
+    prior_turns: priorTurns.length,
+    max_tokens: maxTokens
   });
 
   try {
-    console.log(`🔍 [${timer.getRequestId()}] Deep-dive request - Text: ${selected.substring(0, 30)}..., Question: ${question.substring(0, 50)}...`);
+    console.log(`🔍 [${timer.getRequestId()}] Deep-dive request - Thread: ${thread.id} (${prepared.continued ? "continued" : "new"}), Text: ${thread.selected_text.substring(0, 30)}..., Question: ${question.substring(0, 50)}...`);
     
-    const response = await timer.timeStep("deep_dive_generation", () => 
-      generateDeepDiveResponse(selected, question, original, env), {
-      selected_length: selected.length,
-      question_length: question.length,
-      original_length: original.length
-    });
+    // Follow-up suggestions run alongside the answer so they add no latency
+    const [response, suggestions] = await Promise.all([
+      timer.timeStep("deep_dive_generation", () => 
+        generateDeepDiveResponse(thread.selected_text, question, thread.original_query, withUsageTracker(env, usage), {
+          universalContent: thread.universal_content,
+          priorTurns,
+          maxTokens
+        }), {
+        selected_length: thread.selected_text.length,
+        question_length: question.length,
+        original_length: thread.original_query.length,
+        prior_turns: priorTurns.length
+      }),
+      suggestFollowUps(thread, question, withUsageTracker(env, usage))
+    ]);
+
+    const updatedThread = appendTurn(thread, question, response);
+    await saveThread(env, updatedThread);
     
+    const usageSummary = await finishUsage(env, "deep-dive", usage);
     timer.markEnd("deep_dive_validation");
     
     // Log performance report
@@ -163,7 +454,12 @@ export async function deepDiveHandler(body: DeepDiveRequest, env: EnvLike): Prom
     
     return json({ 
       success: true, 
-      response: response 
+      response: response,
+      thread_id: updatedThread.id,
+      turns: updatedThread.turns,
+      suggestions,
+      max_tokens: maxTokens,
+      usage: usageSummary
     }, 200);
     
   } catch (error) {
@@ -172,6 +468,7 @@ export async function deepDiveHandler(body: DeepDiveRequest, env: EnvLike): Prom
     // Log performance report even for errors
     timer.logPerformanceReport();
     
+    await finishUsage(env, "deep-dive", usage);
     console.error(`❌ [${timer.getRequestId()}] Deep dive handler error:`, error);
     return json({ 
       success: false, 
@@ -181,9 +478,382 @@ export async function deepDiveHandler(body: DeepDiveRequest, env: EnvLike): Prom
   }
 }
 
-type ClusterRequest = { clusterId: string };
+/**
+ * Streams the deep dive answer as Server-Sent Events: `thread` first, then `delta`
+ * chunks and a final `done` carrying the same body as deepDiveHandler.
+ * When the client disconnects the upstream call is cancelled and the partial
+ * answer is kept in the thread as a stopped turn.
+ */
+export async function deepDiveStreamHandler(body: DeepDiveRequest, env: HandlerEnv, signal?: AbortSignal): Promise<Response> {
+  const prepared = await prepareDeepDive(body, env);
+  if ("error" in prepared) {
+    return json({
+      success: false,
+      detail: prepared.error,
+      error_type: "validation_error"
+    }, 400);
+  }
+  const { thread, question, maxTokens } = prepared;
+
+  const timer = createTimer();
+  const usage = createUsageTracker(timer.getRequestId(), env);
+  const priorTurns = thread.turns.slice(-MAX_PROMPT_TURNS);
+  const stream = createEventStream();
+  const cancel = new AbortController();
+  signal?.addEventListener("abort", () => cancel.abort(), { once: true });
+
+  const run = async () => {
+    let partial = "";
+    try {
+      console.log(`🔍 [${timer.getRequestId()}] Streaming deep-dive request - Thread: ${thread.id} (${prepared.continued ? "continued" : "new"}), Question: ${question.substring(0, 50)}...`);
+      await stream.send("thread", { thread_id: thread.id, max_tokens: maxTokens });
+      const suggestions = suggestFollowUps(thread, question, withUsageTracker(env, usage));
+
+      const response = await timer.timeStep("deep_dive_generation", () =>
+        generateDeepDiveResponse(thread.selected_text, question, thread.original_query, withUsageTracker(env, usage), {
+          universalContent: thread.universal_content,
+          priorTurns,
+          maxTokens,
+          onDelta: text => {
+            partial += text;
+            // A failed write means the client went away, so stop paying for the answer
+            stream.send("delta", { text }).catch(() => cancel.abort());
+          },
+          signal: cancel.signal
+        }), {
+        question_length: question.length,
+        prior_turns: priorTurns.length,
+        max_tokens: maxTokens
+      });
+
+      const updatedThread = appendTurn(thread, question, response);
+      await saveThread(env, updatedThread);
+      await stream.send("done", {
+        success: true,
+        response,
+        thread_id: updatedThread.id,
+        turns: updatedThread.turns,
+        suggestions: await suggestions,
+        max_tokens: maxTokens,
+        usage: await finishUsage(env, "deep-dive", usage),
+      });
+      console.log(`✅ [${timer.getRequestId()}] Streamed deep dive completed successfully`);
+    } catch (error) {
+      await finishUsage(env, "deep-dive", usage);
+      if (cancel.signal.aborted) {
+        console.log(`⏹️ [${timer.getRequestId()}] Deep dive stream stopped by the client after ${partial.length} chars`);
+        if (partial.trim()) {
+          await saveThread(env, appendTurn(thread, question, partial.trim(), true));
+        }
+        return;
+      }
+      console.error(`❌ [${timer.getRequestId()}] Streaming deep dive handler error:`, error);
+      await stream.send("error", {
+        success: false,
+        detail: `Error generating deep dive response: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        error_type: "internal_error",
+      }).catch(() => {});
+    } finally {
+      timer.logPerformanceReport();
+      await stream.close();
+    }
+  };
+
+  // Not awaited: events are written while the client reads the response body.
+  run();
+  return stream.response;
+}
+
+// Suggestions for a node before its first question, so the Deep Dive panel does not open empty.
+export async function deepDiveSuggestionsHandler(body: DeepDiveSuggestionsRequest, env: HandlerEnv): Promise<Response> {
+  const threadId = (body?.thread_id || "").trim();
+  const thread = threadId ? await loadThread(env, threadId) : null;
+  const selected = (body?.selected_text || "").trim() || thread?.selected_text || "";
+  if (!selected) {
+    return json({
+      success: false,
+      detail: "selected_text is required",
+      error_type: "validation_error"
+    }, 400);
+  }
+
+  const timer = createTimer();
+  const usage = createUsageTracker(timer.getRequestId(), env);
+  const asked = thread?.selected_text === selected ? thread.turns.map(turn => turn.question) : [];
+  const original = (body?.original_query || "").trim() || thread?.original_query || "";
+
+  const suggestions = await generateDeepDiveSuggestions(selected, original, withUsageTracker(env, usage), asked);
+  console.log(`💡 [${timer.getRequestId()}] Deep dive suggestions for "${selected.substring(0, 30)}": ${suggestions.length}`);
 
-export async function clusterHandler(body: ClusterRequest, env: EnvLike): Promise<Response> {
+  return json({
+    success: true,
+    suggestions,
+    usage: await finishUsage(env, "deep-dive-suggestions", usage)
+  }, 200);
+}
+
+/**
+ * Repairs Mermaid code that failed to render in the browser. The browser's error
+ * is passed to the model alongside the lint diagnostics; `repaired: false` tells
+ * the client to fall back to the outline view.
+ */
+export async function diagramRepairHandler(body: DiagramRepairRequest, env: HandlerEnv): Promise<Response> {
+  const code = (body?.code || "").trim();
+  const renderError = (body?.error || "").trim().slice(0, 500);
+
+  if (!code) {
+    return json({
+      success: false,
+      detail: "code is required",
+      error_type: "validation_error"
+    }, 400);
+  }
+
+  const timer = createTimer();
+  const usage = createUsageTracker(timer.getRequestId(), env);
+
+  try {
+    console.log(`🛠️ [${timer.getRequestId()}] Client diagram repair - ${body.diagram_type || "unknown"}: ${renderError.substring(0, 80)}`);
+    const result = await timer.timeStep("diagram_repair", () => repairMermaid(code, {
+      query: (body.query || "").trim(),
+      diagramType: body.diagram_type || "unknown",
+      renderError: renderError || "Mermaid render failed"
+    }, withUsageTracker(env, usage), timer), {
+      code_length: code.length,
+      diagram_type: body.diagram_type || "unknown"
+    });
+
+    // The creator's browser could not render the stored code, so viewers of the link get the repair too
+    const permalinkId = typeof body.permalink_id === "string" ? body.permalink_id : "";
+    if (result.repaired && !result.fatal && isValidPermalinkId(permalinkId) &&
+        await replacePermalinkDiagram(env, permalinkId, body.permalink_token, code, result.diagram)) {
+      console.log(`🔗 [${timer.getRequestId()}] Stored the repaired diagram in permalink ${permalinkId}`);
+    }
+
+    const usageSummary = await finishUsage(env, "diagram-repair", usage);
+    timer.logPerformanceReport();
+
+    return json({
+      success: true,
+      diagram: result.diagram,
+      repaired: result.repaired && !result.fatal,
+      attempts: result.attempts,
+      diagnostics: result.diagnostics,
+      usage: usageSummary
+    }, 200);
+  } catch (error) {
+    timer.logPerformanceReport();
+    await finishUsage(env, "diagram-repair", usage);
+    console.error(`❌ [${timer.getRequestId()}] Diagram repair handler error:`, error);
+    return json({
+      success: false,
+      detail: `Error repairing diagram: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      error_type: "internal_error"
+    }, 500);
+  }
+}
+
+type ExpandResponse = DiagramResponse & {
+  node_text: string;
+  trail: string[]; // breadcrumb from the original query to the expanded node
+  depth: number;
+};
+
+/**
+ * "Expand" on a Mermaid node: generates a child diagram scoped to that node's fact,
+ * the Mermaid counterpart of opening a FoamTree group. The trail comes back so the
+ * client can show a breadcrumb to the parent diagrams.
+ */
+export async function expandHandler(body: NodeExpandRequest, env: HandlerEnv): Promise<Response> {
+  const expansion = parseNodeExpansion(body);
+  if ("error" in expansion) {
+    return json({
+      success: false,
+      detail: expansion.error,
+      error_type: "validation_error"
+    }, 400);
+  }
+  const query = buildExpandQuery(expansion);
+  const parsed = parseDescribeOptions({ query, diagram_type: body.diagram_type }, query, false);
+  if ("error" in parsed) {
+    return json({
+      success: false,
+      detail: parsed.error,
+      error_type: "validation_error"
+    }, 400);
+  }
+
+  const timer = createTimer();
+  const usage = createUsageTracker(timer.getRequestId(), env);
+  const trackedEnv = withUsageTracker(env, usage);
+
+  try {
+    const options = await resolveDescribeType(query, parsed, trackedEnv, timer);
+    console.log(`🔎 [${timer.getRequestId()}] Expanding node at depth ${expansion.depth}: ${expansion.trail.join(" > ").substring(0, 120)}`);
+    const cacheKey = await buildCacheKey("expand", query, describeCacheVariant(options));
+    const { value: result, status: cacheStatus } = await timer.timeStep("diagram_pipeline", () =>
+      withCache<DiagramResult>(env, cacheKey, body?.cache || "default", () => processDiagramPipeline(query, trackedEnv, options), isCompleteResult), {
+      query_length: query.length,
+      depth: expansion.depth,
+      requested_type: parsed.diagramType || AUTO_DIAGRAM_TYPE
+    });
+
+    // Shared as a link of its own; the parent's permalink is left as it was
+    const response: ExpandResponse = {
+      ...await buildDiagramResponse(env, query, result, options.intent),
+      node_text: expansion.nodeText,
+      trail: expansion.trail,
+      depth: expansion.depth,
+    };
+    response.usage = await finishUsage(env, "expand", usage);
+    timer.logPerformanceReport();
+
+    console.log(`✅ [${timer.getRequestId()}] Expanded into ${result.diagram_type} diagram (cache ${cacheStatus})`);
+    return json(response, 200, cacheHeaders(cacheStatus));
+  } catch (error) {
+    timer.logPerformanceReport();
+    await finishUsage(env, "expand", usage);
+    console.error(`❌ [${timer.getRequestId()}] Expand handler error:`, error);
+    return json({
+      success: false,
+      detail: `Error expanding node: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      error_type: "internal_error"
+    }, 500);
+  }
+}
+
+const MAX_REFINE_INSTRUCTION_CHARS = 500;
+const MAX_REFINE_CODE_CHARS = 20000;
+
+/**
+ * Applies a natural-language edit ("merge these two nodes", "add a step for X") to
+ * the current diagram. Node ids are kept where possible and `node_ids` reports
+ * which survived, so the client can keep selections and versions in step.
+ */
+export async function refineHandler(body: RefineRequest, env: HandlerEnv): Promise<Response> {
+  const code = (body?.code || "").trim();
+  const instruction = (body?.instruction || "").trim();
+  const diagramType = (body?.diagram_type || "").trim().toLowerCase();
+
+  if (!code || code.length > MAX_REFINE_CODE_CHARS) {
+    return json({
+      success: false,
+      detail: `code is required (at most ${MAX_REFINE_CODE_CHARS} characters)`,
+      error_type: "validation_error"
+    }, 400);
+  }
+  if (!instruction || instruction.length > MAX_REFINE_INSTRUCTION_CHARS) {
+    return json({
+      success: false,
+      detail: `instruction is required (at most ${MAX_REFINE_INSTRUCTION_CHARS} characters)`,
+      error_type: "validation_error"
+    }, 400);
+  }
+  if (!(DIAGRAM_TYPES as string[]).includes(diagramType)) {
+    return json({
+      success: false,
+      detail: `diagram_type must be one of: ${DIAGRAM_TYPES.join(", ")}`,
+      error_type: "validation_error"
+    }, 400);
+  }
+
+  const timer = createTimer();
+  const usage = createUsageTracker(timer.getRequestId(), env);
+  const query = (body.query || "").trim();
+
+  try {
+    const result = await timer.timeStep("diagram_refine", () => refineDiagram({
+      code,
+      diagramType,
+      instruction,
+      meta: body.diagram_meta,
+      query
+    }, withUsageTracker(env, usage), timer), {
+      code_length: code.length,
+      diagram_type: diagramType
+    });
+
+    // The shared link of the earlier version keeps pointing at it; the edit gets its own
+    let saved: SavedPermalink | undefined;
+    const previousId = typeof body.permalink_id === "string" ? body.permalink_id : "";
+    if (result.changed && isValidPermalinkId(previousId)) {
+      const previous = await loadPermalink(env, previousId);
+      if (previous?.view === "diagram") {
+        const { id: _id, created_at: _created, edit_token_hash: _hash, ...input } = previous;
+        saved = await savePermalink(env, { ...input, diagram: result.diagram, diagram_meta: result.diagram_meta });
+      }
+    }
+
+    const usageSummary = await finishUsage(env, "refine", usage);
+    timer.logPerformanceReport();
+
+    return json({
+      success: true,
+      diagram: result.diagram,
+      diagram_meta: result.diagram_meta,
+      diagram_type: diagramType,
+      summary: result.summary,
+      changed: result.changed,
+      node_ids: result.node_ids,
+      repaired: result.repaired,
+      ...(saved ? { permalink_id: saved.id, permalink_token: saved.editToken } : {}),
+      usage: usageSummary
+    }, 200);
+  } catch (error) {
+    timer.logPerformanceReport();
+    await finishUsage(env, "refine", usage);
+    if (error instanceof RefineError) {
+      console.warn(`⚠️ [${timer.getRequestId()}] Refinement rejected: ${error.message}`);
+      return json({
+        success: false,
+        detail: `${error.message}; the current diagram was kept`,
+        error_type: "refine_failed",
+        diagnostics: error.diagnostics
+      }, 422);
+    }
+    console.error(`❌ [${timer.getRequestId()}] Refine handler error:`, error);
+    return json({
+      success: false,
+      detail: `Error refining diagram: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      error_type: "internal_error"
+    }, 500);
+  }
+}
+
+type ClusterRequest = {
+  clusterId: string;
+  cache?: CacheMode;
+  // Drill-down into an opened group: labels from the original query to the group, and its depth
+  path?: string[];
+  depth?: number;
+  universal_content?: string;
+  permalink_id?: string; // the root map's permalink, which records the opened group's children
+  permalink_token?: string; // required for that; other viewers of the link only load groups
+};
+type ClusterPayload = { cluster: ClusterNode; universal_content: string; warnings?: ClusterWarning[]; repaired?: boolean };
+
+// Deepest group that can be opened; the root's children are depth 1.
+const MAX_CLUSTER_DEPTH = 4;
+const MAX_PATH_LABEL_CHARS = 120;
+
+function parseDrillDown(body: ClusterRequest): ClusterDrillDown | { error: string } | null {
+  if (body?.path === undefined) return null;
+  const path = Array.isArray(body.path) ? body.path.map(label => typeof label === 'string' ? label.trim() : '') : [];
+  if (path.length < 2 || path.some(label => !label || label.length > MAX_PATH_LABEL_CHARS)) {
+    return { error: `path must list the original query and each ancestor label (each at most ${MAX_PATH_LABEL_CHARS} characters)` };
+  }
+  const depth = body.depth ?? path.length - 1;
+  if (!Number.isInteger(depth) || depth !== path.length - 1) {
+    return { error: "depth must equal the number of labels in path after the original query" };
+  }
+  if (depth > MAX_CLUSTER_DEPTH) {
+    return { error: `Topic maps can be opened at most ${MAX_CLUSTER_DEPTH} levels deep` };
+  }
+  const universalContent = typeof body.universal_content === 'string' ? body.universal_content : '';
+  return { path, depth, universalContent };
+}
+
+export async function clusterHandler(body: ClusterRequest, env: HandlerEnv): Promise<Response> {
   const clusterId = (body?.clusterId || '').trim();
 
   if (!clusterId) {
@@ -194,62 +864,108 @@ export async function clusterHandler(body: ClusterRequest, env: EnvLike): Promis
     }, 400);
   }
 
+  const drillDown = parseDrillDown(body);
+  if (drillDown && 'error' in drillDown) {
+    return json({
+      success: false,
+      detail: drillDown.error,
+      error_type: 'validation_error',
+    }, 400);
+  }
+
   // Create performance timer for this request
   const timer = createTimer();
+  const usage = createUsageTracker(timer.getRequestId(), env);
+  const trackedEnv = withUsageTracker(env, usage);
   timer.markStart("cluster_validation", { cluster_id: clusterId });
 
   try {
-    console.log(`📊 [${timer.getRequestId()}] Cluster request - ID: ${clusterId}`);
-
-    const cluster = await timer.timeStep("cluster_generation", () => 
-      generateClusterData(clusterId, env), {
-      cluster_id: clusterId
-    });
+    console.log(`📊 [${timer.getRequestId()}] Cluster request - ID: ${clusterId}${drillDown ? `, path: ${drillDown.path.join(' > ')}` : ''}`);
 
-    // Also generate universal text content to populate the Text tab
-    let universal_content = '';
-    try {
-      console.log(`🟡 [${timer.getRequestId()}] Generating universal content for query: "${clusterId}"`);
-      console.log(`🟡 [${timer.getRequestId()}] Calling generateCombinedContent with query: "${clusterId}", diagramType: "radial_mindmap"`);
-      
-      const combinedResult = await timer.timeStep("universal_content_generation", () => 
-        generateCombinedContent(clusterId, 'radial_mindmap', env), {
+    // Drill-downs are keyed by their whole path: "cuisine" under Rome and under Tokyo differ.
+    const cacheKey = drillDown
+      ? await buildCacheKey("cluster", `${drillDown.path.join(' > ')} #${clusterId}`, `foamtree-depth-${drillDown.depth}`)
+      : await buildCacheKey("cluster", clusterId, "foamtree");
+    // Only complete payloads are cached so a failed Text tab is retried next time.
+    const { value: { cluster, universal_content, warnings = [], repaired = false }, status: cacheStatus } = await withCache<ClusterPayload>(env, cacheKey, body?.cache || 'default', async () => {
+      const { cluster: generated, warnings, repaired } = await timer.timeStep("cluster_generation", () => 
+        generateClusterData(clusterId, trackedEnv, drillDown || undefined), {
         cluster_id: clusterId,
-        diagram_type: 'radial_mindmap'
+        depth: drillDown?.depth ?? 0
       });
-      
-      console.log(`🟡 [${timer.getRequestId()}] generateCombinedContent result:`, {
-        universalContent: combinedResult.universalContent ? `${combinedResult.universalContent.substring(0, 50)}...` : 'null',
-        diagramContent: combinedResult.diagramContent ? `${combinedResult.diagramContent.substring(0, 50)}...` : 'null'
+
+      // Search results for each cluster are fetched while the Text tab is generated.
+      const withItems = timer.timeStep("cluster_items_search", () =>
+        attachClusterItems(generated, drillDown?.path || [clusterId], env), {
+        clusters: generated.children?.length || 0
       });
-      
-      universal_content = combinedResult.universalContent || '';
-      console.log(`✅ [${timer.getRequestId()}] Universal content generated: ${universal_content.substring(0, 100)}...`);
-    } catch (e) {
-      console.error(`❌ [${timer.getRequestId()}] Universal content generation failed for cluster:`, e);
-      console.error(`❌ [${timer.getRequestId()}] Error details:`, e instanceof Error ? e.message : String(e));
-      console.error(`❌ [${timer.getRequestId()}] Error stack:`, e instanceof Error ? e.stack : 'No stack trace');
-      universal_content = '';
+
+      // The client keeps the root's Text tab while drilling down.
+      if (drillDown) {
+        return { cluster: await withItems, universal_content: '', warnings, repaired };
+      }
+
+      // Also generate universal text content to populate the Text tab
+      let universal_content = '';
+      try {
+        console.log(`🟡 [${timer.getRequestId()}] Generating universal content for query: "${clusterId}"`);
+        console.log(`🟡 [${timer.getRequestId()}] Calling generateCombinedContent with query: "${clusterId}", diagramType: "radial_mindmap"`);
+        
+        const combinedResult = await timer.timeStep("universal_content_generation", () => 
+          generateCombinedContent(clusterId, 'radial_mindmap', trackedEnv), {
+          cluster_id: clusterId,
+          diagram_type: 'radial_mindmap'
+        });
+        
+        console.log(`🟡 [${timer.getRequestId()}] generateCombinedContent result:`, {
+          universalContent: combinedResult.universalContent ? `${combinedResult.universalContent.substring(0, 50)}...` : 'null',
+          diagramContent: combinedResult.diagramContent ? `${combinedResult.diagramContent.substring(0, 50)}...` : 'null'
+        });
+        
+        universal_content = combinedResult.universalContent || '';
+        console.log(`✅ [${timer.getRequestId()}] Universal content generated: ${universal_content.substring(0, 100)}...`);
+      } catch (e) {
+        console.error(`❌ [${timer.getRequestId()}] Universal content generation failed for cluster:`, e);
+        console.error(`❌ [${timer.getRequestId()}] Error details:`, e instanceof Error ? e.message : String(e));
+        console.error(`❌ [${timer.getRequestId()}] Error stack:`, e instanceof Error ? e.stack : 'No stack trace');
+        universal_content = '';
+      }
+
+      return { cluster: await withItems, universal_content, warnings, repaired };
+    }, payload => !!drillDown || !!payload.universal_content);
+
+    // Root maps get a permalink; the creator's drill-downs are added to it so the shared tree matches their view.
+    let saved: SavedPermalink | undefined;
+    if (!drillDown) {
+      saved = await savePermalink(env, { view: "topic_map", query: clusterId, diagram_type: TOPIC_MAP_TYPE, cluster, universal_content });
+    } else if (body?.permalink_id && isValidPermalinkId(body.permalink_id) && cluster.children?.length) {
+      await addPermalinkChildren(env, body.permalink_id, body.permalink_token, clusterId, cluster.children);
     }
 
+    const usageSummary = await finishUsage(env, "cluster", usage);
     timer.markEnd("cluster_validation");
     
     // Log performance report
     timer.logPerformanceReport();
     
-    console.log(`✅ [${timer.getRequestId()}] Cluster generation completed successfully`);
+    console.log(`✅ [${timer.getRequestId()}] Cluster generation completed successfully (cache ${cacheStatus})`);
 
     return json({
       success: true,
       cluster,
-      universal_content,
-    }, 200);
+      ...(drillDown ? { depth: drillDown.depth } : { universal_content, permalink_id: saved?.id, permalink_token: saved?.editToken }),
+      // Schema normalizations applied to the generated tree, for debugging
+      warnings,
+      repaired,
+      usage: usageSummary,
+    }, 200, cacheHeaders(cacheStatus));
   } catch (error) {
     timer.markEnd("cluster_validation", { success: false, error: error instanceof Error ? error.message : String(error) });
     
     // Log performance report even for errors
     timer.logPerformanceReport();
     
+    await finishUsage(env, "cluster", usage);
     console.error(`❌ [${timer.getRequestId()}] Cluster handler error:`, error);
     return json({
       success: false,
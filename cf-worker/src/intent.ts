@@ -0,0 +1,199 @@
+/**
+ * Query intent detection shared by every handler and the frontend (via /api/intent).
+ * A local heuristic decides the view, diagram type, complexity, language and whether
+ * the query needs fresh data; the LLM selector is only asked for the diagram type
+ * when no heuristic rule matched.
+ */
+
+import { callOpenAIOptimized, EnvLike } from './openai';
+import { createTimer } from './timing';
+import { DIAGRAM_TYPES, DiagramType } from './diagram-types';
+
+export type IntentView = "mermaid" | "foamtree";
+export type QueryComplexity = "simple" | "complex";
+
+export interface QueryIntent {
+  view: IntentView;
+  diagram_type: DiagramType;
+  complexity: QueryComplexity;
+  language: string;          // ISO 639-1 code, "en" when unsure
+  needs_fresh_data: boolean; // asks about current events, prices or this year's figures
+  source: "heuristic" | "llm";
+  confident: boolean;        // false when the diagram type is only the default
+}
+
+export type IntentEnv = EnvLike & { INTENT_LLM_FALLBACK?: string };
+
+const TOPIC_MAP_PATTERN = /\b(foam[\s-]?tree|topic[\s-]?maps?)\b/i;
+
+// Checked in order; the first match decides the diagram type.
+const DIAGRAM_TYPE_RULES: [RegExp, DiagramType][] = [
+  [/\b(vs\.?|versus|compare|comparison|compared|differences? between|similarities between)\b/i, "sequence_comparison"],
+  [/\b(history of|timeline|chronology|evolution of|origins? of|biography|over the (years|centuries|decades))\b/i, "timeline"],
+  [/\b(life ?cycle|states of|state machine|status(es)? of|stages of)\b/i, "state_diagram"],
+  [/\b(population of|percentage|share of|market share|statistics|how many|how much|breakdown of|gdp|ranking of|largest .+ by)\b/i, "quantitative_chart"],
+  [/\b(how to|how do (i|you|we)|steps to|steps for|process of|procedure|workflow|guide to|instructions)\b/i, "flowchart"],
+  [/\b(what (is|are)|define|definition of|meaning of|overview of|types of|characteristics of)\b/i, "radial_mindmap"],
+];
+
+const SIMPLE_QUERY_PATTERNS = [
+  /\b(what is|define|explain)\b/i,
+  /\b(simple|basic|overview)\b/i,
+  /\b(short|brief|quick)\b/i,
+  /\b(concept|definition|meaning)\b/i,
+  /^.{1,50}$/ // Very short queries
+];
+
+const FRESH_DATA_PATTERN = /\b(latest|today|tonight|yesterday|current(ly)?|right now|recent(ly)?|news|this (week|month|year)|price of|stock price|weather|forecast|election results)\b/i;
+
+const SCRIPT_LANGUAGES: [RegExp, string][] = [
+  [/[\u3040-\u30ff]/, "ja"], // kana before CJK ideographs, which Japanese shares with Chinese
+  [/[\uac00-\ud7af]/, "ko"],
+  [/[\u4e00-\u9fff]/, "zh"],
+  [/[\u0400-\u04ff]/, "ru"],
+  [/[\u0600-\u06ff]/, "ar"],
+  [/[\u0590-\u05ff]/, "he"],
+  [/[\u0900-\u097f]/, "hi"],
+  [/[\u0370-\u03ff]/, "el"],
+  [/[\u0e00-\u0e7f]/, "th"],
+];
+
+// Frequent function words that are not also English; a Latin-script query needs two hits.
+const LATIN_STOPWORDS: [string, string[]][] = [
+  ["es", ["el", "la", "los", "las", "qué", "que", "cómo", "como", "de", "del", "por", "para", "es", "una", "historia"]],
+  ["fr", ["le", "la", "les", "des", "du", "est", "qu'est-ce", "comment", "pourquoi", "une", "et", "histoire"]],
+  ["de", ["der", "das", "und", "ist", "wie", "ein", "eine", "von", "geschichte"]],
+  ["pt", ["os", "que", "como", "da", "dos", "das", "é", "uma", "não", "história"]],
+  ["it", ["il", "lo", "gli", "che", "della", "dei", "è", "una", "perché", "storia"]],
+];
+
+export function wantsTopicMap(query: string): boolean {
+  return TOPIC_MAP_PATTERN.test(query);
+}
+
+export function estimateComplexity(query: string): QueryComplexity {
+  const isSimpleQuery = SIMPLE_QUERY_PATTERNS.some(pattern => pattern.test(query));
+  return isSimpleQuery && query.length < 100 ? "simple" : "complex";
+}
+
+export function detectLanguage(query: string): string {
+  for (const [pattern, language] of SCRIPT_LANGUAGES) {
+    if (pattern.test(query)) return language;
+  }
+
+  const words = query.toLowerCase().split(/[^\p{L}'-]+/u).filter(Boolean);
+  let best = { language: "en", hits: 1 };
+  for (const [language, stopwords] of LATIN_STOPWORDS) {
+    const hits = words.filter(word => stopwords.includes(word)).length;
+    if (hits > best.hits) best = { language, hits };
+  }
+  return best.language;
+}
+
+export function needsFreshData(query: string): boolean {
+  if (FRESH_DATA_PATTERN.test(query)) return true;
+  const currentYear = new Date().getUTCFullYear();
+  return (query.match(/\b(19|20)\d{2}\b/g) || []).some(year => Number(year) >= currentYear);
+}
+
+/** Heuristic-only intent; cheap enough to run on every request. */
+export function detectIntent(query: string): QueryIntent {
+  const rule = DIAGRAM_TYPE_RULES.find(([pattern]) => pattern.test(query));
+  return {
+    view: wantsTopicMap(query) ? "foamtree" : "mermaid",
+    diagram_type: rule ? rule[1] : "radial_mindmap",
+    complexity: estimateComplexity(query),
+    language: detectLanguage(query),
+    needs_fresh_data: needsFreshData(query),
+    source: "heuristic",
+    confident: Boolean(rule),
+  };
+}
+
+/**
+ * Heuristic intent, with the LLM selector deciding the diagram type when no rule
+ * matched. Set INTENT_LLM_FALLBACK=false to never call the model.
+ */
+export async function resolveIntent(query: string, env: IntentEnv, options: { llmFallback?: boolean } = {}): Promise<QueryIntent> {
+  const intent = detectIntent(query);
+  const llmAllowed = options.llmFallback !== false && env.INTENT_LLM_FALLBACK !== "false";
+  if (intent.confident || intent.view === "foamtree" || !llmAllowed) {
+    return intent;
+  }
+  return { ...intent, diagram_type: await selectDiagramType(query, env), source: "llm" };
+}
+
+// Model selection helper for performance optimization
+export function selectOptimalModel(query: string, env: EnvLike): string {
+  // Use mini model for simple queries to improve speed and reduce cost
+  if (estimateComplexity(query) === "simple") {
+    return miniModel(env);
+  }
+
+  return env.OPENAI_MODEL || "gpt-4.1";
+}
+
+// Smaller sibling of the configured model, for short auxiliary calls
+export function miniModel(env: EnvLike): string {
+  return (env.OPENAI_MODEL || "gpt-4.1").replace("gpt-4.1", "gpt-4.1-mini");
+}
+
+export async function selectDiagramType(query: string, env: EnvLike): Promise<DiagramType> {
+  const timer = createTimer();
+  const selectorPrompt = `You are a diagram-type selector.
+
+As a response to the below query, choose which output representation would be best suited:
+- flowchart        : sequential steps, how-to, decision logic
+- radial_mindmap   : concept overviews, definitions, characteristics
+- sequence_comparison: comparing two or more items, highlighting similarities and unique features
+- timeline         : history, chronology, evolution over time, biographies, dated events
+- quantitative_chart: statistics, shares, rankings or amounts that are best answered with numbers
+- state_diagram    : lifecycles, statuses and state machines with transitions between states
+
+Respond with ONLY one word: "flowchart", "radial_mindmap", "sequence_comparison", "timeline", "quantitative_chart", or "state_diagram".`;
+
+  try {
+    // Select optimal model for diagram type selection (usually simple, so use mini)
+    const optimalModel = selectOptimalModel(query, env);
+    console.log(`🎯 [${timer.getRequestId()}] Selected model for diagram type selection: ${optimalModel}`);
+
+    // Optimized token limit - reduced from 50 to 20 for faster processing
+    const optimizedMaxTokens = 20;
+
+    const response = await timer.timeStep("optimized_diagram_type_llm_call", () => callOpenAIOptimized(
+      env,
+      selectorPrompt,
+      query,
+      optimalModel,
+      optimizedMaxTokens,
+      0.3,
+        {
+          usePriority: true,        // Faster queue processing
+          useCache: true,          // Cache reusable prompts
+          useStructured: false,    // Simple text response
+          timer,
+          stage: "diagram_type_selection"
+        }
+    ), {
+      query_length: query.length,
+      model: optimalModel,
+      max_tokens: optimizedMaxTokens,
+      optimizations: "priority,cache,early_stop"
+    });
+
+    const responseClean = response.trim().toLowerCase();
+
+    if ((DIAGRAM_TYPES as string[]).includes(responseClean)) {
+      console.log(`✅ [${timer.getRequestId()}] Selected diagram type: ${responseClean}`);
+      return responseClean as DiagramType;
+    }
+
+    // Default to radial_mindmap for general queries
+    console.log(`⚠️ [${timer.getRequestId()}] Invalid response, defaulting to radial_mindmap. Response: ${responseClean}`);
+    return "radial_mindmap";
+
+  } catch (error) {
+    console.error(`❌ [${timer.getRequestId()}] Error selecting diagram type:`, error);
+    return "radial_mindmap";
+  }
+}
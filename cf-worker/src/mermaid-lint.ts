@@ -0,0 +1,635 @@
+/**
+ * Mermaid linter for the subset of syntax our prompts generate:
+ * flowcharts (with an optional %%{init}%% block), sequence diagrams, timelines, state diagrams
+ * and the pie / xychart-beta charts rendered for quantitative answers.
+ * Returns structured diagnostics; errors are fatal (the browser would fail to
+ * render), warnings render but usually indicate a model mistake.
+ */
+
+export type DiagnosticSeverity = "error" | "warning";
+
+export type DiagnosticCode =
+  | "missing_header"
+  | "unclosed_init"
+  | "unbalanced_quotes"
+  | "unbalanced_brackets"
+  | "unbalanced_block"
+  | "orphan_edge"
+  | "duplicate_id"
+  | "reserved_id"
+  | "unknown_node"
+  | "invalid_line"
+  | "empty_diagram"
+  | "series_mismatch";
+
+export interface MermaidDiagnostic {
+  code: DiagnosticCode;
+  severity: DiagnosticSeverity;
+  line: number; // 1-based, 0 for whole-diagram problems
+  message: string;
+}
+
+export type LintedDiagramKind = "flowchart" | "sequence" | "timeline" | "state" | "chart" | "other";
+
+export interface LintResult {
+  kind: LintedDiagramKind;
+  diagnostics: MermaidDiagnostic[];
+  fatal: boolean;
+}
+
+// Diagram types we do not lint yet; they pass through untouched.
+const OTHER_HEADERS = /^(mindmap|gantt|classDiagram|erDiagram|journey|quadrantChart|gitGraph)\b/;
+const PIE_HEADER = /^pie(\s+showData)?(\s+title\s.*)?\s*$/;
+const XYCHART_HEADER = /^xychart-beta(\s+(horizontal|vertical))?\s*$/;
+const FLOWCHART_HEADER = /^(flowchart|graph)(\s+(TD|TB|LR|RL|BT))?\s*;?$/;
+const RESERVED_IDS = ["end", "subgraph", "graph", "flowchart"];
+
+type Line = { number: number; text: string };
+
+export function lintMermaid(code: string): LintResult {
+  const diagnostics: MermaidDiagnostic[] = [];
+  const lines = stripInitBlock((code || "").split("\n"), diagnostics);
+  const meaningful = lines.filter(l => l.text && !l.text.startsWith("%%"));
+
+  const header = meaningful[0];
+  let kind: LintedDiagramKind = "other";
+  if (!header) {
+    diagnostics.push({ code: "missing_header", severity: "error", line: 0, message: "Diagram is empty" });
+  } else if (FLOWCHART_HEADER.test(header.text)) {
+    kind = "flowchart";
+    lintFlowchart(meaningful.slice(1), diagnostics);
+  } else if (/^sequenceDiagram\s*$/.test(header.text)) {
+    kind = "sequence";
+    lintSequence(meaningful.slice(1), diagnostics);
+  } else if (/^timeline\s*$/.test(header.text)) {
+    kind = "timeline";
+    lintTimeline(meaningful.slice(1), diagnostics);
+  } else if (/^stateDiagram(-v2)?\s*$/.test(header.text)) {
+    kind = "state";
+    lintState(meaningful.slice(1), diagnostics);
+  } else if (PIE_HEADER.test(header.text)) {
+    kind = "chart";
+    lintPie(meaningful.slice(1), diagnostics);
+  } else if (XYCHART_HEADER.test(header.text)) {
+    kind = "chart";
+    lintXyChart(meaningful.slice(1), diagnostics);
+  } else if (!OTHER_HEADERS.test(header.text)) {
+    diagnostics.push({
+      code: "missing_header",
+      severity: "error",
+      line: header.number,
+      message: `Expected a diagram declaration such as "flowchart TD" or "sequenceDiagram", found "${truncate(header.text)}"`,
+    });
+  }
+
+  return { kind, diagnostics, fatal: diagnostics.some(d => d.severity === "error") };
+}
+
+export function formatDiagnostics(diagnostics: MermaidDiagnostic[]): string {
+  return diagnostics
+    .map(d => `- ${d.line ? `line ${d.line}` : "diagram"} [${d.severity}] ${d.code}: ${d.message}`)
+    .join("\n");
+}
+
+function truncate(text: string, max = 60): string {
+  return text.length > max ? `${text.slice(0, max)}...` : text;
+}
+
+function stripInitBlock(rawLines: string[], diagnostics: MermaidDiagnostic[]): Line[] {
+  const lines: Line[] = [];
+  let initStart = 0;
+  rawLines.forEach((raw, index) => {
+    const text = raw.trim();
+    const number = index + 1;
+    if (initStart) {
+      if (text.includes("}%%")) initStart = 0;
+      return;
+    }
+    if (text.startsWith("%%{")) {
+      if (!text.includes("}%%")) initStart = number;
+      return;
+    }
+    lines.push({ number, text });
+  });
+  if (initStart) {
+    diagnostics.push({ code: "unclosed_init", severity: "error", line: initStart, message: "%%{init}%% block is never closed with }%%" });
+  }
+  return lines;
+}
+
+function checkQuotes(line: Line, diagnostics: MermaidDiagnostic[]): boolean {
+  if ((line.text.match(/"/g) || []).length % 2 === 0) return true;
+  diagnostics.push({ code: "unbalanced_quotes", severity: "error", line: line.number, message: `Unbalanced double quotes in "${truncate(line.text)}"` });
+  return false;
+}
+
+// ---------------------------------------------------------------------------
+// Flowchart
+// ---------------------------------------------------------------------------
+
+const SHAPES: [string, string][] = [
+  ["(((", ")))"], ["((", "))"], ["([", "])"], ["[[", "]]"], ["[(", ")]"], ["{{", "}}"],
+  ["[/", "/]"], ["[\\", "\\]"], ["(", ")"], ["[", "]"], ["{", "}"], [">", "]"],
+];
+const NODE_ID = /^[A-Za-z0-9_][\w]*/;
+// -->, ---, ==>, <==>, -.->, ~~~, --o, --x, optionally followed by |label|, or the "-- text -->" form.
+const ARROW = /^(?:<?(?:-{2,}|={2,}|-\.+-|~{3,})[>ox]?|(?:--|==|-\.)\s*[^-=.>|]+?\s*(?:-->|==>|\.->|---|===|-\.-))(?:\s*\|[^|]*\|)?/;
+
+type NodeRef = { id: string; label?: string };
+
+function lintFlowchart(lines: Line[], diagnostics: MermaidDiagnostic[]): void {
+  const labels = new Map<string, { label: string; line: number }>();
+  const references: { id: string; line: number }[] = [];
+  const subgraphIds = new Map<string, number>();
+  const openSubgraphs: number[] = [];
+
+  for (const line of lines) {
+    const text = line.text.replace(/;\s*$/, "");
+
+    if (/^subgraph\b/.test(text)) {
+      openSubgraphs.push(line.number);
+      if (!checkQuotes(line, diagnostics)) continue;
+      const id = text.match(/^subgraph\s+([A-Za-z0-9_]\w*)/)?.[1];
+      if (id) {
+        if (subgraphIds.has(id)) {
+          diagnostics.push({ code: "duplicate_id", severity: "error", line: line.number, message: `Subgraph id "${id}" is already used on line ${subgraphIds.get(id)}` });
+        } else {
+          subgraphIds.set(id, line.number);
+        }
+      }
+      continue;
+    }
+    if (text === "end") {
+      if (!openSubgraphs.pop()) {
+        diagnostics.push({ code: "unbalanced_block", severity: "error", line: line.number, message: '"end" without a matching subgraph' });
+      }
+      continue;
+    }
+    if (/^direction\s+(TB|TD|LR|RL|BT)$/.test(text) || /^(classDef|linkStyle|click)\b/.test(text)) {
+      continue;
+    }
+    const styled = text.match(/^style\s+([A-Za-z0-9_]\w*)\b/);
+    if (styled) {
+      references.push({ id: styled[1], line: line.number });
+      continue;
+    }
+    const classed = text.match(/^class\s+([\w,\s]+?)\s+\w+$/);
+    if (classed) {
+      classed[1].split(",").map(s => s.trim()).filter(Boolean).forEach(id => references.push({ id, line: line.number }));
+      continue;
+    }
+
+    if (!checkQuotes(line, diagnostics)) continue;
+    const parsed = parseFlowchartStatement(text);
+    if ("error" in parsed) {
+      diagnostics.push({ code: parsed.error, severity: "error", line: line.number, message: `${parsed.message} in "${truncate(text)}"` });
+      continue;
+    }
+    for (const node of parsed.nodes) {
+      references.push({ id: node.id, line: line.number });
+      if (node.label === undefined) continue;
+      const existing = labels.get(node.id);
+      if (!existing) {
+        labels.set(node.id, { label: node.label, line: line.number });
+      } else if (existing.label !== node.label) {
+        diagnostics.push({
+          code: "duplicate_id",
+          severity: "warning",
+          line: line.number,
+          message: `Node "${node.id}" is redefined with a different label (first defined on line ${existing.line})`,
+        });
+      }
+    }
+  }
+
+  for (const start of openSubgraphs) {
+    diagnostics.push({ code: "unbalanced_block", severity: "error", line: start, message: 'Subgraph is never closed with "end"' });
+  }
+
+  const reported = new Set<string>();
+  for (const ref of references) {
+    if (reported.has(ref.id)) continue;
+    if (RESERVED_IDS.includes(ref.id.toLowerCase())) {
+      reported.add(ref.id);
+      diagnostics.push({ code: "reserved_id", severity: "error", line: ref.line, message: `"${ref.id}" is a reserved word and cannot be a node id` });
+    } else if (subgraphIds.has(ref.id) && labels.has(ref.id)) {
+      reported.add(ref.id);
+      diagnostics.push({ code: "duplicate_id", severity: "error", line: ref.line, message: `"${ref.id}" is used both as a node and as a subgraph id` });
+    } else if (!labels.has(ref.id) && !subgraphIds.has(ref.id)) {
+      reported.add(ref.id);
+      diagnostics.push({ code: "unknown_node", severity: "warning", line: ref.line, message: `Node "${ref.id}" is referenced but never defined with a label` });
+    }
+  }
+}
+
+type StatementResult = { nodes: NodeRef[] } | { error: DiagnosticCode; message: string };
+
+/**
+ * Parses `node (& node)* (arrow node (& node)*)*`, where each node may carry a shape and label.
+ */
+function parseFlowchartStatement(text: string): StatementResult {
+  const nodes: NodeRef[] = [];
+  let rest = text.trim();
+
+  if (ARROW.test(rest)) {
+    return { error: "orphan_edge", message: "Edge has no source node" };
+  }
+
+  while (true) {
+    // One or more nodes joined by "&".
+    while (true) {
+      const node = readNode(rest);
+      if ("error" in node) return node;
+      nodes.push(node.ref);
+      rest = node.rest.trimStart();
+      if (!rest.startsWith("&")) break;
+      rest = rest.slice(1).trimStart();
+    }
+
+    if (!rest) return { nodes };
+    const arrow = rest.match(ARROW);
+    if (!arrow) {
+      return { error: "invalid_line", message: `Unexpected "${truncate(rest, 20)}"` };
+    }
+    rest = rest.slice(arrow[0].length).trimStart();
+    if (!rest) {
+      return { error: "orphan_edge", message: "Edge has no target node" };
+    }
+  }
+}
+
+function readNode(text: string): { ref: NodeRef; rest: string } | { error: DiagnosticCode; message: string } {
+  const id = text.match(NODE_ID)?.[0];
+  if (!id) {
+    return { error: "invalid_line", message: `Expected a node id, found "${truncate(text, 20)}"` };
+  }
+  let rest = text.slice(id.length);
+  let label: string | undefined;
+
+  const shape = SHAPES.find(([open]) => rest.startsWith(open));
+  if (shape) {
+    const [open, close] = shape;
+    rest = rest.slice(open.length);
+    let body: string;
+    if (rest.startsWith('"')) {
+      const endQuote = rest.indexOf('"', 1);
+      if (endQuote === -1) return { error: "unbalanced_quotes", message: `Label of "${id}" is not closed` };
+      body = rest.slice(1, endQuote);
+      rest = rest.slice(endQuote + 1);
+      if (!rest.startsWith(close)) {
+        return { error: "unbalanced_brackets", message: `Node "${id}" is missing "${close}" after its label` };
+      }
+    } else {
+      const end = rest.indexOf(close);
+      if (end === -1) return { error: "unbalanced_brackets", message: `Node "${id}" is missing "${close}"` };
+      body = rest.slice(0, end);
+      if (/[()[\]{}]/.test(body)) {
+        return { error: "unbalanced_brackets", message: `Unquoted label of "${id}" contains brackets` };
+      }
+      rest = rest.slice(end);
+    }
+    rest = rest.slice(close.length);
+    label = body;
+  }
+
+  const className = rest.match(/^:::\w+/);
+  if (className) rest = rest.slice(className[0].length);
+
+  return { ref: { id, label }, rest };
+}
+
+// ---------------------------------------------------------------------------
+// Sequence diagram
+// ---------------------------------------------------------------------------
+
+const SEQUENCE_BLOCK = /^(rect|alt|opt|loop|par|critical|break|box)\b/;
+const SEQUENCE_MESSAGE = /^([^\s:]+?)\s*(--?>>|--?>|--?x|--?\))\s*[+-]?\s*([^\s:]*)\s*(:?)(.*)$/;
+
+function lintSequence(lines: Line[], diagnostics: MermaidDiagnostic[]): void {
+  const participants = new Map<string, number>();
+  const references: { id: string; line: number }[] = [];
+  const openBlocks: number[] = [];
+
+  for (const line of lines) {
+    const text = line.text;
+
+    const declared = text.match(/^(participant|actor)\s+(\S+)(?:\s+as\s+(.+))?$/);
+    if (declared) {
+      if (!checkQuotes(line, diagnostics)) continue;
+      const id = declared[2];
+      if (participants.has(id)) {
+        diagnostics.push({ code: "duplicate_id", severity: "warning", line: line.number, message: `Participant "${id}" is already declared on line ${participants.get(id)}` });
+      } else {
+        participants.set(id, line.number);
+      }
+      continue;
+    }
+    if (SEQUENCE_BLOCK.test(text)) {
+      openBlocks.push(line.number);
+      continue;
+    }
+    if (/^(else|and|option)\b/.test(text)) {
+      if (!openBlocks.length) {
+        diagnostics.push({ code: "unbalanced_block", severity: "error", line: line.number, message: `"${text.split(/\s/)[0]}" outside of a block` });
+      }
+      continue;
+    }
+    if (text === "end") {
+      if (!openBlocks.pop()) {
+        diagnostics.push({ code: "unbalanced_block", severity: "error", line: line.number, message: '"end" without a matching block' });
+      }
+      continue;
+    }
+    if (/^autonumber\b/.test(text)) continue;
+    const activation = text.match(/^(activate|deactivate)\s+(\S+)$/);
+    if (activation) {
+      references.push({ id: activation[2], line: line.number });
+      continue;
+    }
+
+    if (/^note\b/i.test(text)) {
+      const note = text.match(/^note\s+(over|left of|right of)\s+([^:]+):(.*)$/i);
+      if (!note) {
+        diagnostics.push({ code: "invalid_line", severity: "error", line: line.number, message: `Note must look like "Note over A,B: text", found "${truncate(text)}"` });
+        continue;
+      }
+      note[2].split(",").map(s => s.trim()).filter(Boolean).forEach(id => references.push({ id, line: line.number }));
+      continue;
+    }
+
+    const message = text.match(SEQUENCE_MESSAGE);
+    if (message) {
+      const [, from, , to, colon] = message;
+      if (!to) {
+        diagnostics.push({ code: "orphan_edge", severity: "error", line: line.number, message: `Message from "${from}" has no target` });
+        continue;
+      }
+      if (!colon) {
+        diagnostics.push({ code: "invalid_line", severity: "error", line: line.number, message: `Message is missing ": text" in "${truncate(text)}"` });
+        continue;
+      }
+      references.push({ id: from, line: line.number }, { id: to, line: line.number });
+      continue;
+    }
+
+    diagnostics.push({ code: "invalid_line", severity: "error", line: line.number, message: `Unrecognized statement "${truncate(text)}"` });
+  }
+
+  for (const start of openBlocks) {
+    diagnostics.push({ code: "unbalanced_block", severity: "error", line: start, message: 'Block is never closed with "end"' });
+  }
+
+  const reported = new Set<string>();
+  for (const ref of references) {
+    if (participants.has(ref.id) || reported.has(ref.id)) continue;
+    reported.add(ref.id);
+    diagnostics.push({ code: "unknown_node", severity: "warning", line: ref.line, message: `Participant "${ref.id}" is used but never declared` });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Timeline
+// ---------------------------------------------------------------------------
+
+function lintTimeline(lines: Line[], diagnostics: MermaidDiagnostic[]): void {
+  let events = 0;
+  let hasPeriod = false;
+  let openSection: Line | null = null;
+  let sectionEvents = 0;
+
+  const closeSection = () => {
+    if (openSection && !sectionEvents) {
+      diagnostics.push({ code: "empty_diagram", severity: "warning", line: openSection.number, message: `Section "${truncate(openSection.text.slice(8))}" has no events` });
+    }
+  };
+
+  for (const line of lines) {
+    const text = line.text;
+    if (/^title\s/.test(text)) continue;
+    if (/^section\s/.test(text)) {
+      closeSection();
+      openSection = line;
+      sectionEvents = 0;
+      continue;
+    }
+    if (!text.includes(":")) {
+      diagnostics.push({ code: "invalid_line", severity: "error", line: line.number, message: `Timeline entries must look like "period : event", found "${truncate(text)}"` });
+      continue;
+    }
+
+    const [period, ...rest] = text.split(":").map(part => part.trim());
+    if (period) {
+      hasPeriod = true;
+    } else if (!hasPeriod) {
+      diagnostics.push({ code: "orphan_edge", severity: "error", line: line.number, message: "Event continuation appears before any period" });
+      continue;
+    }
+    const count = rest.filter(Boolean).length;
+    if (!count) {
+      diagnostics.push({ code: "invalid_line", severity: "error", line: line.number, message: `Period "${truncate(period)}" has no event text` });
+      continue;
+    }
+    events += count;
+    sectionEvents += count;
+  }
+  closeSection();
+
+  if (!events) {
+    diagnostics.push({ code: "empty_diagram", severity: "error", line: 0, message: "Timeline has no events" });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// State diagrams
+// ---------------------------------------------------------------------------
+
+// Mermaid state ids end at whitespace, colons, hyphens and braces; labels end at a second colon or semicolon
+const STATE_ID = /^(\[\*\]|[^:\s\-{}"]+)$/;
+const STATE_TRANSITION = /^(\S+?)\s*-->\s*(\S+?)\s*(?::(.*))?$/;
+
+function lintState(lines: Line[], diagnostics: MermaidDiagnostic[]): void {
+  const openBlocks: number[] = [];
+  let noteStart: number | null = null;
+  let transitions = 0;
+
+  const checkId = (id: string, line: Line) => {
+    if (STATE_ID.test(id)) return true;
+    diagnostics.push({ code: "invalid_line", severity: "error", line: line.number, message: `State id "${truncate(id)}" must not contain spaces, colons, hyphens or quotes` });
+    return false;
+  };
+  const checkLabel = (label: string | undefined, line: Line) => {
+    if (label && /[:;]/.test(label)) {
+      diagnostics.push({ code: "invalid_line", severity: "error", line: line.number, message: `Label "${truncate(label.trim())}" contains a colon or semicolon` });
+    }
+  };
+
+  for (const line of lines) {
+    const text = line.text;
+    if (noteStart !== null) {
+      if (/^end note$/.test(text)) noteStart = null;
+      continue;
+    }
+    if (/^(direction\s+(LR|RL|TB|BT)|classDef\s|class\s|hide empty description|accTitle\s*:|accDescr\b)/.test(text) || text === "--") continue;
+    if (/^note\s+(left|right)\s+of\s+\S+\s*:/.test(text)) continue;
+    if (/^note\s+(left|right)\s+of\s+\S+\s*$/.test(text)) {
+      noteStart = line.number;
+      continue;
+    }
+    if (text === "}") {
+      if (openBlocks.length) openBlocks.pop();
+      else diagnostics.push({ code: "unbalanced_block", severity: "error", line: line.number, message: '"}" without a matching state block' });
+      continue;
+    }
+
+    if (/^state\s/.test(text)) {
+      if (!checkQuotes(line, diagnostics)) continue;
+      const declared = text.match(/^state\s+(?:"[^"]*"\s+as\s+)?(\S+?)\s*(\{|<<(?:choice|fork|join)>>)?$/);
+      if (!declared) {
+        diagnostics.push({ code: "invalid_line", severity: "error", line: line.number, message: `Expected "state Id" or "state \"Name\" as Id", found "${truncate(text)}"` });
+        continue;
+      }
+      checkId(declared[1], line);
+      if (declared[2] === "{") openBlocks.push(line.number);
+      continue;
+    }
+
+    const transition = text.match(STATE_TRANSITION);
+    if (transition) {
+      const [, from, to, label] = transition;
+      if (checkId(from, line) && checkId(to, line)) transitions++;
+      checkLabel(label, line);
+      continue;
+    }
+
+    const description = text.match(/^([^:\s]+)\s*:(.*)$/);
+    if (description) {
+      checkId(description[1], line);
+      checkLabel(description[2], line);
+      continue;
+    }
+    if (STATE_ID.test(text)) continue; // bare state declaration
+
+    diagnostics.push({ code: "invalid_line", severity: "error", line: line.number, message: `Expected a state or a transition such as "A --> B : trigger", found "${truncate(text)}"` });
+  }
+
+  for (const start of openBlocks) {
+    diagnostics.push({ code: "unbalanced_block", severity: "error", line: start, message: 'State block is never closed with "}"' });
+  }
+  if (noteStart !== null) {
+    diagnostics.push({ code: "unbalanced_block", severity: "error", line: noteStart, message: 'Note is never closed with "end note"' });
+  }
+  if (!transitions) {
+    diagnostics.push({ code: "empty_diagram", severity: "error", line: 0, message: "State diagram has no transitions" });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Charts
+// ---------------------------------------------------------------------------
+
+const PIE_SLICE = /^"[^"]*"\s*:\s*(-?[\d.]+)\s*$/;
+
+function lintPie(lines: Line[], diagnostics: MermaidDiagnostic[]): void {
+  let slices = 0;
+  for (const line of lines) {
+    const text = line.text;
+    if (/^(title\s|showData\s*$|accTitle\s*:|accDescr\b)/.test(text)) continue;
+
+    const slice = text.match(PIE_SLICE);
+    if (!slice) {
+      diagnostics.push({ code: "invalid_line", severity: "error", line: line.number, message: `Pie slices must be a quoted label, a colon and a number, found "${truncate(text)}"` });
+      continue;
+    }
+    if (!/^\d+(\.\d+)?$/.test(slice[1])) {
+      diagnostics.push({ code: "invalid_line", severity: "error", line: line.number, message: `Pie slice values must be positive numbers, found "${slice[1]}"` });
+      continue;
+    }
+    slices++;
+  }
+
+  if (!slices) {
+    diagnostics.push({ code: "empty_diagram", severity: "error", line: 0, message: "Pie chart has no slices" });
+  }
+}
+
+function lintXyChart(lines: Line[], diagnostics: MermaidDiagnostic[]): void {
+  let categories: number | null = null;
+  const series: { line: Line; length: number }[] = [];
+
+  for (const line of lines) {
+    const text = line.text;
+    if (/^(title\s|y-axis\b|accTitle\s*:|accDescr\b)/.test(text)) continue;
+
+    const xAxis = text.match(/^x-axis\b.*\[(.*)\]\s*$/);
+    if (xAxis) {
+      categories = splitList(xAxis[1]).length;
+      continue;
+    }
+    if (/^x-axis\b/.test(text)) continue; // numeric range such as "x-axis 0 --> 100"
+
+    const data = text.match(/^(bar|line)\b(?:\s+"[^"]*")?\s*\[(.*)\]\s*$/);
+    if (!data) {
+      diagnostics.push({ code: "invalid_line", severity: "error", line: line.number, message: `Expected title, x-axis, y-axis, bar or line, found "${truncate(text)}"` });
+      continue;
+    }
+    const values = splitList(data[2]);
+    const bad = values.find(v => !/^-?\d+(\.\d+)?$/.test(v));
+    if (bad !== undefined) {
+      diagnostics.push({ code: "invalid_line", severity: "error", line: line.number, message: `Chart data must be plain numbers, found "${truncate(bad)}"` });
+      continue;
+    }
+    series.push({ line, length: values.length });
+  }
+
+  if (!series.length) {
+    diagnostics.push({ code: "empty_diagram", severity: "error", line: 0, message: "Chart has no bar or line series" });
+  }
+  for (const { line, length } of series) {
+    if (categories !== null && length !== categories) {
+      diagnostics.push({ code: "series_mismatch", severity: "error", line: line.number, message: `Series has ${length} values but the x-axis has ${categories} categories` });
+    }
+  }
+}
+
+// Splits a bracketed list on commas that are not inside double quotes
+function splitList(text: string): string[] {
+  return (text.match(/"[^"]*"|[^,]+/g) || []).map(item => item.trim()).filter(Boolean);
+}
+
+// ---------------------------------------------------------------------------
+// Node ids
+// ---------------------------------------------------------------------------
+
+/**
+ * Ids of the nodes, subgraphs, participants or states a diagram defines, in order
+ * of first appearance. Used to check that an edited diagram kept its ids. Timelines
+ * and charts have no ids and return an empty list.
+ */
+export function listNodeIds(code: string): string[] {
+  const lines = stripInitBlock((code || "").split("\n"), []).filter(l => l.text && !l.text.startsWith("%%"));
+  const header = lines[0]?.text || "";
+  const ids = new Set<string>();
+
+  for (const { text: raw } of lines.slice(1)) {
+    const text = raw.replace(/;\s*$/, "");
+    if (FLOWCHART_HEADER.test(header)) {
+      const subgraph = text.match(/^subgraph\s+([A-Za-z0-9_]\w*)/);
+      if (subgraph) {
+        ids.add(subgraph[1]);
+        continue;
+      }
+      if (/^(end|direction|classDef|class|linkStyle|click|style)\b/.test(text)) continue;
+      const parsed = parseFlowchartStatement(text);
+      if (!("error" in parsed)) parsed.nodes.filter(node => node.label !== undefined).forEach(node => ids.add(node.id));
+    } else if (/^sequenceDiagram\s*$/.test(header)) {
+      const declared = text.match(/^(participant|actor)\s+(\S+)/);
+      if (declared) ids.add(declared[2]);
+    } else if (/^stateDiagram(-v2)?\s*$/.test(header)) {
+      const declared = text.match(/^state\s+(?:"[^"]*"\s+as\s+)?(\S+?)\s*(\{|<<(?:choice|fork|join)>>)?$/);
+      const transition = text.match(STATE_TRANSITION);
+      const found = declared ? [declared[1]] : transition ? [transition[1], transition[2]] : [];
+      found.filter(id => id !== "[*]" && STATE_ID.test(id)).forEach(id => ids.add(id));
+    }
+  }
+  return [...ids];
+}
@@ -0,0 +1,68 @@
+/**
+ * Scoping for "Expand" on a Mermaid node.
+ * The node's text and NodeMeta, together with the trail of diagrams above it, become
+ * the query for a child diagram about just that fact; the child then goes through the
+ * same pipeline as /api/describe.
+ */
+
+import type { NodeMeta } from './types';
+
+// Deepest child diagram; the diagram of the original query is depth 0.
+export const MAX_EXPAND_DEPTH = 4;
+const MAX_LABEL_CHARS = 120;
+const MAX_KEYWORDS = 3;
+
+export type NodeExpandRequest = {
+  query: string;                // the original query
+  node_text: string;            // visible text of the expanded node
+  node_meta?: Partial<NodeMeta>;
+  path?: string[];              // labels of nodes already expanded between the original query and this node
+  diagram_type?: string;
+  cache?: "default" | "bypass";
+};
+
+export type NodeExpansion = {
+  nodeText: string;
+  meta?: Partial<NodeMeta>;
+  trail: string[]; // the original query, then each expanded node label down to this one
+  depth: number;
+};
+
+const cleanLabel = (value: unknown) => typeof value === "string" ? value.trim().replace(/\s+/g, " ") : "";
+
+export function parseNodeExpansion(body: NodeExpandRequest): NodeExpansion | { error: string } {
+  const query = cleanLabel(body?.query);
+  const nodeText = cleanLabel(body?.node_text);
+  if (!query || !nodeText) {
+    return { error: "query and node_text are required" };
+  }
+
+  const path = body.path === undefined ? [] : Array.isArray(body.path) ? body.path.map(cleanLabel) : null;
+  const trail = path ? [query, ...path, nodeText] : [];
+  if (!path || trail.some(label => !label || label.length > MAX_LABEL_CHARS)) {
+    return { error: `query, path and node_text labels must be non-empty and at most ${MAX_LABEL_CHARS} characters` };
+  }
+  const depth = trail.length - 1;
+  if (depth > MAX_EXPAND_DEPTH) {
+    return { error: `Diagrams can be expanded at most ${MAX_EXPAND_DEPTH} levels deep` };
+  }
+
+  const meta = body.node_meta && typeof body.node_meta === "object" ? body.node_meta : undefined;
+  return { nodeText, meta, trail, depth };
+}
+
+/**
+ * "Photosynthesis > Light reactions" plus the node's date and keywords, phrased so
+ * the generators treat the node as the topic and its ancestors as context.
+ */
+export function buildExpandQuery(expansion: NodeExpansion): string {
+  const { nodeText, meta, trail } = expansion;
+  const date = cleanLabel(meta?.date);
+  const keywords = Array.isArray(meta?.keywords)
+    ? meta.keywords.map(cleanLabel).filter(keyword => keyword && !nodeText.toLowerCase().includes(keyword.toLowerCase())).slice(0, MAX_KEYWORDS)
+    : [];
+
+  let query = `${nodeText}${date ? ` (${date})` : ""}, in the context of ${trail.slice(0, -1).join(" > ")}`;
+  if (keywords.length) query += `; focus on ${keywords.join(", ")}`;
+  return query;
+}
@@ -1,82 +1,32 @@
-export async function callOpenAI(env: EnvLike, system: string, user: string, model: string, maxTokens: number, temperature: number): Promise<string> {
-  const startTime = performance.now();
+import {
+  getProvider,
+  getRetryPolicy,
+  modelChain,
+  isRetryable,
+  backoffDelay,
+  sleep,
+  withTimeout,
+  LLMHttpError,
+  LLMTimeoutError,
+  LLMCallOptions,
+  LLMProviderName,
+  LLMResult,
+  ProviderEnv,
+} from './providers';
+import type { UsageTracker } from './usage';
+
+export async function callOpenAI(
+  env: EnvLike,
+  system: string,
+  user: string,
+  model: string,
+  maxTokens: number,
+  temperature: number,
+  options: LLMCallOptions = {}
+): Promise<string> {
   const requestId = `openai_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`;
-
-  console.log(`🤖 [${requestId}] OpenAI API call starting...`);
-  console.log(`Model: ${model}`);
-  console.log(`Max tokens: ${maxTokens}`);
-  console.log(`Temperature: ${temperature}`);
-  console.log(`API key present: ${!!env.OPENAI_API_KEY}`);
-  console.log(`API key preview: ${env.OPENAI_API_KEY ? `${env.OPENAI_API_KEY.substring(0, 10)}...` : "NOT SET"}`);
-
-  if (!env.OPENAI_API_KEY) throw new Error("OPENAI_API_KEY not configured");
-
-  const requestBody = {
-    model,
-    messages: [
-      { role: "system", content: system },
-      { role: "user", content: user },
-    ],
-    temperature,
-    max_tokens: maxTokens,
-  };
-
-  console.log(`🤖 [${requestId}] Request body:`, JSON.stringify({
-    model: requestBody.model,
-    messages: requestBody.messages.map(m => ({ role: m.role, content: m.content.substring(0, 100) + "..." })),
-    temperature: requestBody.temperature,
-    max_tokens: requestBody.max_tokens
-  }, null, 2));
-
-  const networkStartTime = performance.now();
-  const res = await fetch("https://api.openai.com/v1/chat/completions", {
-    method: "POST",
-    headers: {
-      "Authorization": `Bearer ${env.OPENAI_API_KEY}`,
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify(requestBody),
-  });
-  const networkTime = performance.now() - networkStartTime;
-
-  console.log(`🤖 [${requestId}] OpenAI response status: ${res.status}`);
-  console.log(`🤖 [${requestId}] OpenAI response headers:`, Object.fromEntries(res.headers.entries()));
-  console.log(`⏱️  [${requestId}] Network request time: ${networkTime.toFixed(2)}ms`);
-
-  if (!res.ok) {
-    const text = await res.text();
-    const totalTime = performance.now() - startTime;
-    console.error(`❌ [${requestId}] OpenAI API error: ${res.status} ${text}`);
-    console.error(`⏱️  [${requestId}] Total time before error: ${totalTime.toFixed(2)}ms`);
-    throw new Error(`OpenAI error ${res.status}: ${text}`);
-  }
-
-  const parseStartTime = performance.now();
-  const data = await res.json() as any;
-  const parseTime = performance.now() - parseStartTime;
-
-  console.log(`🤖 [${requestId}] OpenAI response data:`, JSON.stringify({
-    choices: data.choices?.length || 0,
-    usage: data.usage,
-    model: data.model
-  }, null, 2));
-
-  const content = data?.choices?.[0]?.message?.content;
-  if (!content || typeof content !== "string") {
-    const totalTime = performance.now() - startTime;
-    console.error(`❌ [${requestId}] Empty or invalid OpenAI response:`, data);
-    console.error(`⏱️  [${requestId}] Total time before error: ${totalTime.toFixed(2)}ms`);
-    throw new Error("Empty OpenAI response");
-  }
-
-  const totalTime = performance.now() - startTime;
-  console.log(`✅ [${requestId}] OpenAI API call successful, content length: ${content.length}`);
-  console.log(`⏱️  [${requestId}] Performance breakdown:`);
-  console.log(`   • Network request: ${networkTime.toFixed(2)}ms (${((networkTime / totalTime) * 100).toFixed(1)}%)`);
-  console.log(`   • Response parsing: ${parseTime.toFixed(2)}ms (${((parseTime / totalTime) * 100).toFixed(1)}%)`);
-  console.log(`   • Total time: ${totalTime.toFixed(2)}ms`);
-
-  return content;
+  const result = await runCompletion(env, "openai_chat", requestId, system, user, model, maxTokens, temperature, options);
+  return result.content;
 }
 
 // New optimized function using Responses API with streaming and performance optimizations
@@ -87,133 +37,160 @@ export async function callOpenAIOptimized(
   model: string,
   maxTokens: number,
   temperature: number,
-  options: {
-    usePriority?: boolean;
-    useCache?: boolean;
-    useStructured?: boolean;
-    earlyStop?: string[];
-  } = {}
+  options: LLMCallOptions = {}
 ): Promise<string> {
-  const startTime = performance.now();
   const requestId = `openai_opt_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`;
-
-  console.log(`🚀 [${requestId}] OpenAI Optimized API call starting...`);
-  console.log(`Model: ${model}`);
-  console.log(`Max tokens: ${maxTokens}`);
-  console.log(`Temperature: ${temperature}`);
-  console.log(`Options:`, options);
-
-  if (!env.OPENAI_API_KEY) throw new Error("OPENAI_API_KEY not configured");
-
-  // Build request body with optimizations
-  const requestBody: any = {
-    model,
-    input: [
-      { role: "system", content: system },
-      { role: "user", content: user },
-    ],
-    temperature,
-    max_output_tokens: maxTokens,
-    // Note: Streaming not used in Responses API for now - using other optimizations instead
-  };
-
-  // Add priority tier for faster processing
-  if (options.usePriority) {
-    requestBody.service_tier = "priority";
-  }
-
-  // Add prompt caching for reusable system prompts
-  if (options.useCache) {
-    requestBody.prompt_cache_key = "infflow:sys:v1";
-  }
-
-  // Note: Structured outputs handled via response_format for JSON responses
-  // Instructions can conflict with stop sequences in some API configurations
-
-  // Note: Early stopping is handled differently in Responses API
-  // The streaming nature provides natural early termination
-
-  console.log(`🚀 [${requestId}] Optimized request body:`, JSON.stringify({
-    model: requestBody.model,
-    input: requestBody.input.map((m: any) => ({ role: m.role, content: m.content.substring(0, 100) + "..." })),
-    temperature: requestBody.temperature,
-    max_output_tokens: requestBody.max_output_tokens,
-    service_tier: requestBody.service_tier,
-    prompt_cache_key: requestBody.prompt_cache_key
-  }, null, 2));
-
-  const networkStartTime = performance.now();
-  const res = await fetch("https://api.openai.com/v1/responses", {
-    method: "POST",
-    headers: {
-      "Authorization": `Bearer ${env.OPENAI_API_KEY}`,
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify(requestBody),
-  });
-  const networkTime = performance.now() - networkStartTime;
-
-  console.log(`🚀 [${requestId}] OpenAI response status: ${res.status}`);
-  console.log(`🚀 [${requestId}] OpenAI response headers:`, Object.fromEntries(res.headers.entries()));
-  console.log(`⏱️  [${requestId}] Network request time: ${networkTime.toFixed(2)}ms`);
-
-  if (!res.ok) {
-    const text = await res.text();
-    const totalTime = performance.now() - startTime;
-    console.error(`❌ [${requestId}] OpenAI API error: ${res.status} ${text}`);
-    console.error(`⏱️  [${requestId}] Total time before error: ${totalTime.toFixed(2)}ms`);
-    throw new Error(`OpenAI error ${res.status}: ${text}`);
-  }
-
-  const parseStartTime = performance.now();
-  const data = await res.json() as any;
-  const parseTime = performance.now() - parseStartTime;
-
-  console.log(`🚀 [${requestId}] OpenAI response data:`, JSON.stringify({
-    output: data.output?.length || 0,
-    usage: data.usage,
-    model: data.model
-  }, null, 2));
-
-  const content = data?.output?.[0]?.content?.[0]?.text;
-  if (!content || typeof content !== "string") {
-    const totalTime = performance.now() - startTime;
-    console.error(`❌ [${requestId}] Empty or invalid OpenAI response:`, data);
-    console.error(`⏱️  [${requestId}] Total time before error: ${totalTime.toFixed(2)}ms`);
-    throw new Error("Empty OpenAI response");
-  }
-
-  const totalTime = performance.now() - startTime;
-  console.log(`✅ [${requestId}] OpenAI Optimized API call successful, content length: ${content.length}`);
-  console.log(`⏱️  [${requestId}] Performance breakdown:`);
-  console.log(`   • Network request: ${networkTime.toFixed(2)}ms (${((networkTime / totalTime) * 100).toFixed(1)}%)`);
-  console.log(`   • Response parsing: ${parseTime.toFixed(2)}ms (${((parseTime / totalTime) * 100).toFixed(1)}%)`);
-  console.log(`   • Total time: ${totalTime.toFixed(2)}ms`);
-
-  return content;
+  const result = await runCompletion(env, "openai_responses", requestId, system, user, model, maxTokens, temperature, options);
+  return result.content;
 }
 
-// Model selection helper for performance optimization
-export function selectOptimalModel(query: string, env: EnvLike): string {
-  const baseModel = env.OPENAI_MODEL || "gpt-4.1";
+/**
+ * Like callOpenAIOptimized, but reports the answer through `onDelta` while it is generated.
+ * Aborting `signal` cancels the upstream call; the promise then rejects with the abort reason.
+ */
+export async function streamOpenAIOptimized(
+  env: EnvLike,
+  system: string,
+  user: string,
+  model: string,
+  maxTokens: number,
+  temperature: number,
+  onDelta: (text: string) => void,
+  options: LLMCallOptions = {},
+  signal?: AbortSignal
+): Promise<string> {
+  const requestId = `openai_stream_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`;
+  const result = await runCompletion(env, "openai_responses", requestId, system, user, model, maxTokens, temperature, options, { onDelta, signal });
+  return result.content;
+}
 
-  // Use mini model for simple queries to improve speed and reduce cost
-  const simpleQueryPatterns = [
-    /\b(what is|define|explain)\b/i,
-    /\b(simple|basic|overview)\b/i,
-    /\b(short|brief|quick)\b/i,
-    /\b(concept|definition|meaning)\b/i,
-    /^.{1,50}$/ // Very short queries
-  ];
+type StreamHandlers = { onDelta: (text: string) => void; signal?: AbortSignal };
 
-  const isSimpleQuery = simpleQueryPatterns.some(pattern => pattern.test(query));
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
 
-  if (isSimpleQuery && query.length < 100) {
-    return baseModel.replace("gpt-4.1", "gpt-4.1-mini");
+async function runCompletion(
+  env: EnvLike,
+  defaultProvider: LLMProviderName,
+  requestId: string,
+  system: string,
+  user: string,
+  model: string,
+  maxTokens: number,
+  temperature: number,
+  options: LLMCallOptions,
+  stream?: StreamHandlers
+): Promise<LLMResult> {
+  const startTime = performance.now();
+  const provider = getProvider(env, defaultProvider);
+  const policy = getRetryPolicy(env, provider.name);
+  const { timer, ...callOptions } = options;
+  const timeoutMs = callOptions.timeoutMs || policy.timeoutMs;
+  const models = modelChain(model, policy);
+  const deadline = startTime + policy.totalTimeoutMs;
+
+  console.log(`🤖 [${requestId}] LLM ${stream ? "stream" : "call"} starting via ${provider.name}...`);
+  console.log(`Model: ${model}${models.length > 1 ? ` (fallbacks: ${models.slice(1).join(", ")})` : ""}`);
+  console.log(`Max tokens: ${maxTokens}`);
+  console.log(`Temperature: ${temperature}`);
+  console.log(`Timeout: ${timeoutMs}ms (${policy.totalTimeoutMs}ms in total), max retries: ${policy.maxRetries}`);
+  console.log(`Options:`, callOptions);
+
+  let lastError: unknown;
+  for (let m = 0; m < models.length; m++) {
+    const currentModel = models[m];
+    if (m > 0) {
+      console.warn(`↪️ [${requestId}] Falling back from ${models[m - 1]} to ${currentModel}`);
+    }
+
+    for (let attempt = 0; attempt <= policy.maxRetries; attempt++) {
+      // Retries and fallbacks share one time budget, so a failing upstream cannot hold a request for minutes
+      const remainingMs = Math.round(deadline - performance.now());
+      if (remainingMs <= 0) {
+        console.error(`⌛ [${requestId}] Giving up after ${policy.totalTimeoutMs}ms of retries and fallbacks`);
+        throw lastError ?? new LLMTimeoutError(policy.totalTimeoutMs);
+      }
+      const step = `llm_attempt:${requestId}:${currentModel}#${attempt + 1}`;
+      timer?.markStart(step, {
+        provider: provider.name,
+        model: currentModel,
+        requested_model: model,
+        attempt: attempt + 1,
+        fallback: m > 0,
+      });
+
+      let streamed = "";
+      const onDelta = (text: string) => {
+        streamed += text;
+        stream?.onDelta(text);
+      };
+
+      try {
+        const result = await withTimeout(Math.min(timeoutMs, remainingMs), signal => {
+          const request = { system, user, model: currentModel, maxTokens, temperature, options: callOptions, signal };
+          if (!stream) return provider.complete(request, requestId);
+          if (provider.stream) return provider.stream(request, requestId, onDelta);
+          // Providers without streaming deliver the whole answer as a single delta
+          return provider.complete(request, requestId).then(result => {
+            onDelta(result.content);
+            return result;
+          });
+        }, stream?.signal);
+        timer?.markEnd(step, { success: true });
+        env.usage?.record(callOptions.stage || "unknown", result.model || currentModel, result.usage);
+        const totalTime = performance.now() - startTime;
+        console.log(`✅ [${requestId}] ${provider.name} call successful (${currentModel}), content length: ${result.content.length}`);
+        console.log(`⏱️  [${requestId}] Total time: ${totalTime.toFixed(2)}ms`);
+        return { ...result, model: result.model || currentModel };
+      } catch (error) {
+        lastError = error;
+        const message = error instanceof Error ? error.message : String(error);
+        const status = error instanceof LLMHttpError ? error.status : undefined;
+        const retryAfterMs = error instanceof LLMHttpError ? error.retryAfterMs : undefined;
+
+        // Text already sent to the client cannot be retried without repeating it,
+        // and a cancelled stream never reports usage, so count what was generated.
+        if (stream && (streamed || stream.signal?.aborted)) {
+          timer?.markEnd(step, { success: false, error: message, cancelled: Boolean(stream.signal?.aborted), streamed_chars: streamed.length });
+          if (streamed) {
+            env.usage?.record(callOptions.stage || "unknown", currentModel, {
+              input_tokens: estimateTokens(system) + estimateTokens(user),
+              output_tokens: estimateTokens(streamed),
+            });
+          }
+          console.warn(`⏹️ [${requestId}] Stream ended early after ${streamed.length} chars (${message})`);
+          throw error;
+        }
+
+        if (!isRetryable(error)) {
+          timer?.markEnd(step, { success: false, status, error: message, retryable: false });
+          console.error(`⏱️  [${requestId}] Total time before error: ${(performance.now() - startTime).toFixed(2)}ms`);
+          throw error;
+        }
+
+        // Out of retries, or the server asked us to wait longer than we are willing to.
+        if (attempt === policy.maxRetries || (retryAfterMs !== undefined && retryAfterMs > policy.maxDelayMs)) {
+          timer?.markEnd(step, {
+            success: false,
+            status,
+            error: message,
+            next: m + 1 < models.length ? `fallback:${models[m + 1]}` : "give_up",
+          });
+          break;
+        }
+
+        const delay = backoffDelay(attempt, policy, retryAfterMs);
+        timer?.markEnd(step, { success: false, status, error: message, retry_delay_ms: delay });
+        console.warn(`🔁 [${requestId}] ${currentModel} attempt ${attempt + 1} failed (${message}); retrying in ${delay}ms`);
+        await sleep(Math.min(delay, Math.max(0, deadline - performance.now())));
+      }
+    }
   }
 
-  return baseModel;
+  console.error(`⏱️  [${requestId}] Total time before error: ${(performance.now() - startTime).toFixed(2)}ms`);
+  throw lastError;
 }
 
 // Minimal Env-like type to avoid circular imports across modules.
-export type EnvLike = { OPENAI_API_KEY?: string; OPENAI_MODEL?: string };
+export type EnvLike = ProviderEnv & { OPENAI_API_KEY?: string; OPENAI_MODEL?: string; usage?: UsageTracker };
@@ -0,0 +1,183 @@
+/**
+ * Shareable permalinks for generated results.
+ * Every describe and topic map result is stored under a short id so /d/:id can
+ * restore the exact view without another LLM call. Records live in the PERMALINKS
+ * KV namespace when bound, otherwise in memory for the lifetime of the isolate
+ * (local runs).
+ * Only the creator, who gets an edit token with the id, can change a record: a
+ * browser repair replaces its diagram, and opened topic map groups are stored under
+ * keys of their own so groups opened at the same time cannot overwrite each other.
+ */
+
+import { CacheStore, KVCacheStore, MemoryCacheStore, sha256Hex } from "./cache";
+import type { ClusterNode } from "./cluster-schema";
+
+export interface PermalinkEnv {
+  PERMALINKS?: KVNamespace;
+  PERMALINK_TTL?: string; // seconds a shared link stays valid
+}
+
+export type Permalink = {
+  id: string;
+  view: "diagram" | "topic_map";
+  query: string;
+  diagram_type: string;
+  universal_content: string;
+  created_at: number;
+  // Mermaid diagrams
+  diagram?: string;
+  diagram_meta?: any;
+  content?: string;
+  description?: string;
+  // Topic maps; groups opened afterwards are grafted in so the shared tree matches the view
+  cluster?: ClusterNode;
+  edit_token_hash?: string; // never served
+};
+
+export type PermalinkInput = Omit<Permalink, "id" | "created_at" | "edit_token_hash">;
+export type SavedPermalink = { id: string; editToken: string };
+
+const DEFAULT_TTL_SECONDS = 60 * 60 * 24 * 90;
+const MEMORY_MAX_PERMALINKS = 500;
+const ID_LENGTH = 10;
+const EDIT_TOKEN_LENGTH = 24;
+// Matches the deepest topic map group that can be opened
+const MAX_GROUP_DEPTH = 4;
+const ID_ALPHABET = "0123456789abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ";
+const PERMALINK_ID_PATTERN = /^[0-9A-Za-z]{10}$/;
+
+const memoryStore = new MemoryCacheStore(MEMORY_MAX_PERMALINKS);
+
+function getStore(env: PermalinkEnv): CacheStore {
+  return env.PERMALINKS ? new KVCacheStore(env.PERMALINKS) : memoryStore;
+}
+
+function getPermalinkTtl(env: PermalinkEnv): number {
+  const ttl = parseInt(env.PERMALINK_TTL || "", 10);
+  return Number.isFinite(ttl) && ttl > 0 ? ttl : DEFAULT_TTL_SECONDS;
+}
+
+function permalinkKey(id: string): string {
+  return `infflow:permalink:${id}`;
+}
+
+function groupKey(id: string, clusterId: string): string {
+  return `infflow:permalink:${id}:group:${clusterId}`;
+}
+
+function randomString(length: number): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(length));
+  return Array.from(bytes, b => ID_ALPHABET[b % ID_ALPHABET.length]).join("");
+}
+
+// Short enough to paste; 62^10 ids make guessing a link impractical.
+function createPermalinkId(): string {
+  return randomString(ID_LENGTH);
+}
+
+async function canEdit(permalink: Permalink, editToken: string | undefined): Promise<boolean> {
+  return !!editToken && !!permalink.edit_token_hash && await sha256Hex(editToken) === permalink.edit_token_hash;
+}
+
+export function isValidPermalinkId(id: string): boolean {
+  return PERMALINK_ID_PATTERN.test(id);
+}
+
+async function readGroup(store: CacheStore, id: string, clusterId: string): Promise<ClusterNode[] | null> {
+  try {
+    const raw = await store.get(groupKey(id, clusterId));
+    return raw ? JSON.parse(raw) as ClusterNode[] : null;
+  } catch (error) {
+    console.warn(`⚠️ Permalink group read failed for ${id}/${clusterId}:`, error);
+    return null;
+  }
+}
+
+// Adds the stored children of every opened group, one level at a time
+async function attachGroups(store: CacheStore, id: string, node: ClusterNode, depth = 1): Promise<ClusterNode> {
+  if (!node.children?.length || depth > MAX_GROUP_DEPTH) return node;
+  const children = await Promise.all(node.children.map(async child => {
+    const grandchildren = child.children?.length ? child.children : await readGroup(store, id, child.id);
+    return grandchildren?.length ? attachGroups(store, id, { ...child, children: grandchildren }, depth + 1) : child;
+  }));
+  return { ...node, children };
+}
+
+export async function loadPermalink(env: PermalinkEnv, id: string): Promise<Permalink | null> {
+  if (!isValidPermalinkId(id)) return null;
+  const store = getStore(env);
+  let permalink: Permalink | null;
+  try {
+    const raw = await store.get(permalinkKey(id));
+    permalink = raw ? JSON.parse(raw) as Permalink : null;
+  } catch (error) {
+    console.warn(`⚠️ Permalink read failed for ${id}:`, error);
+    return null;
+  }
+  if (permalink?.cluster) {
+    permalink.cluster = await attachGroups(store, id, permalink.cluster);
+  }
+  return permalink;
+}
+
+/** The record as served by GET /api/diagram/:id. */
+export function toPublicPermalink(permalink: Permalink): Omit<Permalink, "edit_token_hash"> {
+  const { edit_token_hash: _hash, ...rest } = permalink;
+  return rest;
+}
+
+async function writePermalink(env: PermalinkEnv, permalink: Permalink): Promise<boolean> {
+  try {
+    await getStore(env).put(permalinkKey(permalink.id), JSON.stringify(permalink), getPermalinkTtl(env));
+    return true;
+  } catch (error) {
+    console.warn(`⚠️ Permalink write failed for ${permalink.id}:`, error);
+    return false;
+  }
+}
+
+/**
+ * Stores a result and returns its id with the creator's edit token, or undefined
+ * when it could not be stored. Only a hash of the token is kept.
+ */
+export async function savePermalink(env: PermalinkEnv, input: PermalinkInput): Promise<SavedPermalink | undefined> {
+  const editToken = randomString(EDIT_TOKEN_LENGTH);
+  const permalink: Permalink = { ...input, id: createPermalinkId(), created_at: Date.now(), edit_token_hash: await sha256Hex(editToken) };
+  if (!(await writePermalink(env, permalink))) return undefined;
+  console.log(`🔗 Saved permalink ${permalink.id} for query: ${input.query.substring(0, 50)}`);
+  return { id: permalink.id, editToken };
+}
+
+function containsNode(node: ClusterNode, clusterId: string): boolean {
+  return node.id === clusterId || !!node.children?.some(child => containsNode(child, clusterId));
+}
+
+/**
+ * Records the children of an opened topic map group in the permalink it belongs to.
+ * False when the token does not match or the group is not in the stored tree.
+ */
+export async function addPermalinkChildren(env: PermalinkEnv, id: string, editToken: string | undefined, clusterId: string, children: ClusterNode[]): Promise<boolean> {
+  const permalink = await loadPermalink(env, id);
+  if (!permalink?.cluster || !(await canEdit(permalink, editToken)) || !containsNode(permalink.cluster, clusterId)) {
+    return false;
+  }
+  try {
+    await getStore(env).put(groupKey(id, clusterId), JSON.stringify(children), getPermalinkTtl(env));
+    return true;
+  } catch (error) {
+    console.warn(`⚠️ Permalink group write failed for ${id}/${clusterId}:`, error);
+    return false;
+  }
+}
+
+/**
+ * Replaces a stored diagram with the version the browser could render after a repair.
+ * Only applies when `previous` is still the stored code, so a stale repair cannot win.
+ */
+export async function replacePermalinkDiagram(env: PermalinkEnv, id: string, editToken: string | undefined, previous: string, diagram: string): Promise<boolean> {
+  const permalink = await loadPermalink(env, id);
+  if (permalink?.view !== "diagram" || permalink.diagram?.trim() !== previous.trim() || !(await canEdit(permalink, editToken))) {
+    return false;
+  }
+  return writePermalink(env, { ...permalink, diagram });
+}
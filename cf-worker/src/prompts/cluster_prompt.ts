@@ -72,3 +72,13 @@ For "climate change":
 - Sub-clusters: "Causes", "Effects", "Solutions", "Research"
 
 Return only the JSON object, no additional text or explanations.`;
+
+// Appended to clusterPrompt when a FoamTree group is opened; the user message carries the topic path.
+export const clusterDrillDownPrompt = `
+
+### Drill-down
+The user opened one cluster of an existing topic map. The message lists the topic path from the original query down to that cluster, and may include background text about the original query.
+- The root object is the opened cluster itself: keep its label, and write its headline and description about it within the parent topics.
+- Its 3-6 children are sub-topics of the opened cluster **in the context of every ancestor** (e.g. for "Rome > Cuisine": Roman dishes, not cuisine in general).
+- Do not repeat the ancestors or the opened cluster's siblings as children.
+- Keep the same output format and rules as above.`;
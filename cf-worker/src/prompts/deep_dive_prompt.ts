@@ -8,4 +8,6 @@ In the context of the selected text and the question about it, provide a focused
 4. Uses clear language
 5. Relates back to the selected text when appropriate
 
-Focus on being informative and educational while maintaining clarity. If the question asks for specific types of information (examples, applications, history, etc.), prioritize that in your response.`;
+Focus on being informative and educational while maintaining clarity. If the question asks for specific types of information (examples, applications, history, etc.), prioritize that in your response.
+
+When the diagram content or earlier questions in the conversation are provided, treat the new question as a follow-up: build on what was already said instead of repeating it, and resolve references like "it" or "that" against the earlier turns.`;
@@ -5,20 +5,37 @@
 import { contentPrompt } from './content_prompt';
 import { contentSequencePrompt } from './content_sequence_prompt';
 import { contentUniversalPrompt } from './content_universal_prompt';
+import { contentTimelinePrompt } from './content_timeline_prompt';
+import { contentChartPrompt } from './content_chart_prompt';
+import { contentStatePrompt } from './content_state_prompt';
 import { diagramRadialPrompt } from './diagram_radial_prompt';
 import { diagramFlowchartPrompt } from './diagram_flowchart_prompt';
 import { diagramSequencePrompt } from './diagram_sequence_prompt';
+import { diagramTimelinePrompt } from './diagram_timeline_prompt';
+import { diagramStatePrompt } from './diagram_state_prompt';
 import { deepDivePrompt } from './deep_dive_prompt';
+import { deepDiveSuggestionsPrompt } from './deep_dive_suggestions_prompt';
 import { megaPrompt } from './mega_prompt';
+import { diagramRepairPrompt } from './diagram_repair_prompt';
+import { diagramRefinePrompt } from './diagram_refine_prompt';
 
 // Re-export for external use
-export { contentPrompt, contentSequencePrompt, contentUniversalPrompt, diagramRadialPrompt, diagramFlowchartPrompt, diagramSequencePrompt, deepDivePrompt, megaPrompt };
+export { contentPrompt, contentSequencePrompt, contentUniversalPrompt, contentTimelinePrompt, contentChartPrompt, contentStatePrompt, diagramRadialPrompt, diagramFlowchartPrompt, diagramSequencePrompt, diagramTimelinePrompt, diagramStatePrompt, deepDivePrompt, deepDiveSuggestionsPrompt, megaPrompt, diagramRepairPrompt, diagramRefinePrompt };
 
 // Convenience functions for getting prompts by type
 export function getContentPrompt(diagramType: string): string {
   if (diagramType === "sequence_comparison") {
     return contentSequencePrompt;
   }
+  if (diagramType === "timeline") {
+    return contentTimelinePrompt;
+  }
+  if (diagramType === "quantitative_chart") {
+    return contentChartPrompt;
+  }
+  if (diagramType === "state_diagram") {
+    return contentStatePrompt;
+  }
   if (diagramType === "universal") {
     return contentUniversalPrompt;
   }
@@ -31,6 +48,10 @@ export function getDiagramPrompt(diagramType: string): string {
       return diagramFlowchartPrompt;
     case "sequence_comparison":
       return diagramSequencePrompt;
+    case "timeline":
+      return diagramTimelinePrompt;
+    case "state_diagram":
+      return diagramStatePrompt;
     case "radial_mindmap":
     default:
       return diagramRadialPrompt;
@@ -41,6 +62,10 @@ export function getDeepDivePrompt(): string {
   return deepDivePrompt;
 }
 
+export function getDeepDiveSuggestionsPrompt(): string {
+  return deepDiveSuggestionsPrompt;
+}
+
 export function getUniversalContentPrompt(): string {
   return contentUniversalPrompt;
 }
@@ -68,3 +93,11 @@ The universal_content should be comprehensive, readable text suitable for human
 export function getMegaPrompt(): string {
   return megaPrompt;
 }
+
+export function getDiagramRepairPrompt(): string {
+  return diagramRepairPrompt;
+}
+
+export function getDiagramRefinePrompt(): string {
+  return diagramRefinePrompt;
+}
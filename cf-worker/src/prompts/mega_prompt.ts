@@ -2,8 +2,13 @@
 import { diagramRadialPrompt } from './diagram_radial_prompt';
 import { diagramFlowchartPrompt } from './diagram_flowchart_prompt';
 import { diagramSequencePrompt } from './diagram_sequence_prompt';
+import { diagramTimelinePrompt } from './diagram_timeline_prompt';
+import { diagramStatePrompt } from './diagram_state_prompt';
 import { contentPrompt } from './content_prompt';
 import { contentSequencePrompt } from './content_sequence_prompt';
+import { contentTimelinePrompt } from './content_timeline_prompt';
+import { contentChartPrompt } from './content_chart_prompt';
+import { contentStatePrompt } from './content_state_prompt';
 
 export const megaPrompt = `
 UNIFIED DIAGRAM GENERATION PROMPT
@@ -20,23 +25,28 @@ Given a user query, you will:
 DIAGRAM TYPE SELECTION:
 - flowchart: For sequential steps, how-to guides, decision logic, processes
 - sequence_comparison: For comparing 2-4 items, highlighting similarities and differences
-- radial_mindmap: For concept overviews, definitions, characteristics, general topics and any other query that is not in the above two categories
+- timeline: For history, chronology, origins and evolution over time, biographies and sequences of dated events
+- quantitative_chart: For statistical questions answered with numbers: shares of a whole, rankings, populations, amounts and percentages
+- state_diagram: For lifecycles, statuses and state machines where something moves between states in response to triggers
+- radial_mindmap: For concept overviews, definitions, characteristics, general topics and any other query that is not in the above five categories
 
 OUTPUT FORMAT:
 You must respond with ONLY a valid JSON object (no markdown, no explanations):
 
 {
-  "diagram_type": "flowchart|radial_mindmap|sequence_comparison",
+  "diagram_type": "flowchart|radial_mindmap|sequence_comparison|timeline|quantitative_chart|state_diagram",
   "universal_content": "Comprehensive 200-500 word explanation in natural paragraphs...",
   "diagram_content": "Structured content following the format for the selected diagram type...",
-  "mermaid_code": "Complete Mermaid diagram code...",
+  "mermaid_code": "Complete Mermaid diagram code (empty string for quantitative_chart)...",
   "diagram_meta": {
     "facts": [
       {
         "theme": "1-3 word topic label",
         "keywords": ["keyword1", "keyword2"],
         "search": "optional search query",
-        "entity": "main subject"
+        "entity": "main subject",
+        "date": "event date or period (timeline only)",
+        "state": "state name (state_diagram only)"
       }
     ]
   }
@@ -54,12 +64,29 @@ ${diagramFlowchartPrompt}
 === SEQUENCE COMPARISON DIAGRAM GENERATION ===
 ${diagramSequencePrompt}
 
+=== TIMELINE DIAGRAM GENERATION ===
+${diagramTimelinePrompt}
+
+=== STATE DIAGRAM GENERATION ===
+${diagramStatePrompt}
+
 === CONTENT STRUCTURE FOR DIAGRAMS ===
 ${contentPrompt}
 
 === SEQUENCE COMPARISON CONTENT STRUCTURE ===
 ${contentSequencePrompt}
 
+=== TIMELINE CONTENT STRUCTURE ===
+${contentTimelinePrompt}
+
+=== STATE DIAGRAM CONTENT STRUCTURE ===
+${contentStatePrompt}
+
+=== QUANTITATIVE CHART CONTENT STRUCTURE ===
+${contentChartPrompt}
+
+For quantitative_chart, put the data series above in diagram_content and leave mermaid_code as an empty string; the chart is drawn from the data series.
+
 FINAL INSTRUCTIONS:
 - Choose the appropriate diagram type based on the query
 - Generate universal content using the universal content guidelines
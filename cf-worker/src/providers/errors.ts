@@ -0,0 +1,43 @@
+/**
+ * Errors raised by LLM providers.
+ * They carry enough detail (status, retry-after) for the retry policy to decide
+ * whether to back off, move on to a fallback model, or give up.
+ */
+
+export class LLMHttpError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = "LLMHttpError";
+  }
+}
+
+export class LLMTimeoutError extends Error {
+  constructor(public readonly timeoutMs: number) {
+    super(`LLM call timed out after ${timeoutMs}ms`);
+    this.name = "LLMTimeoutError";
+  }
+}
+
+/**
+ * Reads `retry-after-ms` (sent by OpenAI) or `retry-after` (seconds or an HTTP date).
+ */
+export function parseRetryAfter(headers: Headers, now = Date.now()): number | undefined {
+  const ms = Number(headers.get("retry-after-ms"));
+  if (Number.isFinite(ms) && ms > 0) return ms;
+
+  const value = headers.get("retry-after");
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+export async function toHttpError(res: Response): Promise<LLMHttpError> {
+  const text = await res.text();
+  return new LLMHttpError(`OpenAI error ${res.status}: ${text}`, res.status, parseRetryAfter(res.headers));
+}
@@ -0,0 +1,485 @@
+/**
+ * Deterministic local fake provider.
+ * Recognizes the system prompts used by the generators and returns well-formed,
+ * repeatable output so the whole worker can run offline (LLM_PROVIDER=fake).
+ */
+
+import type { LLMProvider, LLMRequest, LLMResult } from './types';
+import { parseChartContent, renderChartMermaid } from '../quantitative-chart';
+import { sleep } from './retry';
+
+// Pause between streamed chunks so cancellation can be exercised locally.
+const FAKE_STREAM_DELAY_MS = 20;
+
+export function createFakeProvider(): LLMProvider {
+  return {
+    name: "fake",
+    async complete(request: LLMRequest, requestId: string): Promise<LLMResult> {
+      const content = fakeCompletion(request);
+      console.log(`🧪 [${requestId}] Fake provider returned ${content.length} chars`);
+      return fakeResult(request, content);
+    },
+
+    async stream(request: LLMRequest, requestId: string, onDelta: (text: string) => void): Promise<LLMResult> {
+      const content = fakeCompletion(request);
+      for (const chunk of content.match(/\S+\s*|\s+/g) || []) {
+        request.signal?.throwIfAborted();
+        onDelta(chunk);
+        await sleep(FAKE_STREAM_DELAY_MS);
+      }
+      console.log(`🧪 [${requestId}] Fake provider streamed ${content.length} chars`);
+      return fakeResult(request, content);
+    },
+  };
+}
+
+function fakeResult(request: LLMRequest, content: string): LLMResult {
+  return {
+    content,
+    model: `fake:${request.model}`,
+    usage: {
+      input_tokens: estimateTokens(request.system) + estimateTokens(request.user),
+      output_tokens: estimateTokens(content),
+    },
+  };
+}
+
+function estimateTokens(text: string): number {
+  return Math.ceil((text || "").length / 4);
+}
+
+function fakeCompletion(request: LLMRequest): string {
+  const system = request.system;
+  const user = request.user;
+
+  // The mega prompt embeds every other prompt, so it must be checked first.
+  if (system.includes("UNIFIED DIAGRAM GENERATION PROMPT")) {
+    return fakeUnified(user.trim(), system.match(/REQUIRED DIAGRAM TYPE: (\w+)/)?.[1]);
+  }
+  if (system.includes("Mermaid repair assistant")) {
+    return fakeRepair(user);
+  }
+  if (system.includes("Mermaid diagram editing assistant")) {
+    return fakeRefine(user);
+  }
+  if (system.includes("diagram-type selector")) {
+    return pickDiagramType(user);
+  }
+  if (system.includes("topic map JSON repair assistant")) {
+    const request = user.match(/^Request:\n(.*)$/m)?.[1]?.trim() || "topic";
+    return JSON.stringify(fakeCluster(request.replace(/^Topic path: /, "").split(" > ").pop() || request), null, 2);
+  }
+  if (system.includes("clustering assistant")) {
+    const path = user.match(/^Topic path: (.+)$/m)?.[1].split(" > ");
+    return JSON.stringify(path ? fakeClusterChildren(path) : fakeCluster(user.trim()), null, 2);
+  }
+  if (system.includes('"universal_content"')) {
+    const topic = user.trim();
+    return JSON.stringify({
+      universal_content: fakeUniversalContent(topic),
+      diagram_content: fakeDiagramContent(topic),
+    });
+  }
+  if (system.includes("comparison data")) {
+    return fakeComparisonContent(user.trim());
+  }
+  if (system.includes("comprehensive, well")) {
+    return fakeUniversalContent(user.trim());
+  }
+  if (system.includes("concise, structured descriptions")) {
+    return `${fakeDiagramContent(user.trim())}\n\n\`\`\`json\n${JSON.stringify({ diagram_meta: fakeMeta(user.trim()) }, null, 2)}\n\`\`\``;
+  }
+  if (system.includes("chronological event lists")) {
+    const topic = user.trim();
+    return `${fakeTimelineContent(topic)}\n\n\`\`\`json\n${JSON.stringify({ diagram_meta: fakeTimelineMeta(topic) }, null, 2)}\n\`\`\``;
+  }
+  if (system.includes("concise numeric data series")) {
+    const topic = user.trim();
+    return `${fakeChartContent(topic)}\n\n\`\`\`json\n${JSON.stringify({ diagram_meta: fakeChartMeta(topic) }, null, 2)}\n\`\`\``;
+  }
+  if (system.includes("lifecycles and state machines")) {
+    const topic = user.trim();
+    return `${fakeStateContent(topic)}\n\n\`\`\`json\n${JSON.stringify({ diagram_meta: fakeStateMeta(topic) }, null, 2)}\n\`\`\``;
+  }
+  if (system.includes("Mermaid state diagram code")) {
+    return stateMermaid();
+  }
+  if (system.includes("Mermaid timeline code")) {
+    return timelineMermaid(queryFromMessage(user));
+  }
+  if (system.includes("radial mind-maps")) {
+    const topic = user.match(/A\("([^"]*)"\)/)?.[1] || firstLine(user);
+    return radialMermaid(topic, fakeFacts(topic));
+  }
+  if (system.includes("Mermaid flowchart code representing the process")) {
+    return flowchartMermaid(queryFromMessage(user));
+  }
+  if (system.includes("Mermaid sequence diagrams")) {
+    return sequenceMermaid(comparisonItems(queryFromMessage(user)));
+  }
+  if (system.includes("follow-up question suggester")) {
+    const selected = user.match(/Selected text from diagram: "([^"]*)"/)?.[1] || "this";
+    const asked = user.includes("Questions already asked:") ? " next" : "";
+    return [
+      `How does ${selected} work${asked}?`,
+      `What is an example of ${selected}?`,
+      `Why does ${selected} matter?`,
+      `How does ${selected} relate to the rest of the topic?`,
+    ].join("\n");
+  }
+  if (system.includes("detailed, contextual information")) {
+    const selected = user.match(/Selected text from diagram: "([^"]*)"/)?.[1] || "the selected text";
+    return `${selected} is one part of the broader topic.\n\nIt connects to the original query through its role and context. More detail would normally come from the model.`;
+  }
+
+  return `Fake response for: ${firstLine(user)}`;
+}
+
+function firstLine(text: string): string {
+  return (text || "").split("\n").map(l => l.trim()).find(Boolean) || "topic";
+}
+
+// Diagram-code prompts wrap the original query between the instruction line and "Content details:".
+function queryFromMessage(message: string): string {
+  const lines = message.split("\n").map(l => l.trim()).filter(Boolean);
+  return lines.length > 1 ? lines[1] : firstLine(message);
+}
+
+function cleanLabel(text: string): string {
+  return text.replace(/["'`;]/g, "").replace(/\s+/g, " ").trim();
+}
+
+function pickDiagramType(query: string): string {
+  const q = query.toLowerCase();
+  if (/\b(vs\.?|versus|compare|comparison|difference between)\b/.test(q)) return "sequence_comparison";
+  if (/\b(history|timeline|chronology|evolution|origins)\b/.test(q)) return "timeline";
+  if (/\b(lifecycle|life cycle|states of|state machine|statuses)\b/.test(q)) return "state_diagram";
+  if (/\b(population|percentage|share|statistics|how many|how much|mix|breakdown|gdp)\b/.test(q)) return "quantitative_chart";
+  if (/\b(how to|steps|process|guide|procedure)\b/.test(q)) return "flowchart";
+  return "radial_mindmap";
+}
+
+function fakeFacts(topic: string): string[] {
+  const t = cleanLabel(topic);
+  return [
+    `Origins and background of ${t}`,
+    `Key characteristics of ${t}`,
+    `Main components of ${t}`,
+    `Common uses of ${t}`,
+    `Notable examples of ${t}`,
+    `Current developments in ${t}`,
+  ];
+}
+
+function fakeMeta(topic: string) {
+  const entity = cleanLabel(topic);
+  const themes = ["origins", "characteristics", "components", "uses", "examples", "developments"];
+  return {
+    facts: themes.map(theme => ({
+      theme,
+      keywords: [theme, ...entity.toLowerCase().split(" ").slice(0, 3)],
+      search: `${entity} ${theme}`,
+      entity,
+    })),
+  };
+}
+
+function fakeUniversalContent(topic: string): string {
+  const t = cleanLabel(topic);
+  return [
+    `Overview`,
+    `${t} is described here by the local fake provider. The text is deterministic so tests and offline runs produce the same output every time.`,
+    `Details`,
+    `- The first point about ${t} covers its background and origins.`,
+    `- The second point about ${t} covers its main characteristics and uses.`,
+  ].join("\n");
+}
+
+function fakeDiagramContent(topic: string): string {
+  return [`Main topic: ${cleanLabel(topic)}`, "", ...fakeFacts(topic).map(f => `- ${f}`)].join("\n");
+}
+
+const FAKE_ERAS: { era: string; events: [string, string][] }[] = [
+  { era: "Beginnings", events: [["1900", "Early ideas behind"], ["1925", "First recorded use of"]] },
+  { era: "Growth", events: [["1950", "Rapid expansion of"], ["1975", "Standardization of"]] },
+  { era: "Modern era", events: [["2000", "Digital transformation of"], ["2020", "Current state of"]] },
+];
+
+function fakeTimelineContent(topic: string): string {
+  const t = cleanLabel(topic);
+  const lines = [`Main topic: ${t}`, ""];
+  for (const { era, events } of FAKE_ERAS) {
+    lines.push(`Era: ${era}`, ...events.map(([date, text]) => `- ${date}: ${text} ${t}`), "");
+  }
+  return lines.join("\n").trim();
+}
+
+function fakeTimelineMeta(topic: string) {
+  const entity = cleanLabel(topic);
+  return {
+    facts: FAKE_ERAS.flatMap(({ era, events }) => events.map(([date]) => ({
+      date,
+      theme: era.toLowerCase(),
+      keywords: [era.toLowerCase(), ...entity.toLowerCase().split(" ").slice(0, 3)],
+      search: `${entity} ${date}`,
+      entity,
+    }))),
+  };
+}
+
+function timelineMermaid(query: string): string {
+  const t = cleanLabel(query);
+  const lines = ["timeline", `    title ${t}`];
+  for (const { era, events } of FAKE_ERAS) {
+    lines.push(`    section ${era}`, ...events.map(([date, text]) => `        ${date} : ${text} ${t}`));
+  }
+  return lines.join("\n");
+}
+
+const FAKE_STATES: [string, string][] = [
+  ["Idle", "waiting for work to begin"],
+  ["Active", "doing its main work"],
+  ["Paused", "temporarily stopped and able to resume"],
+  ["Done", "finished and no longer changing"],
+];
+const FAKE_TRANSITIONS: [string, string, string][] = [
+  ["[*]", "Idle", "created"],
+  ["Idle", "Active", "start"],
+  ["Active", "Paused", "pause"],
+  ["Paused", "Active", "resume"],
+  ["Active", "Done", "complete"],
+  ["Done", "[*]", "removed"],
+];
+
+function fakeStateContent(topic: string): string {
+  return [
+    `Main topic: ${cleanLabel(topic)}`,
+    "",
+    "States:",
+    ...FAKE_STATES.map(([state, description]) => `- ${state}: ${description}`),
+    "",
+    "Transitions:",
+    ...FAKE_TRANSITIONS.map(([from, to, trigger]) => `- ${from} -> ${to}: ${trigger}`),
+  ].join("\n");
+}
+
+function fakeStateMeta(topic: string) {
+  const entity = cleanLabel(topic);
+  return {
+    facts: FAKE_STATES.map(([state]) => ({
+      state,
+      theme: state.toLowerCase(),
+      keywords: [state.toLowerCase(), ...entity.toLowerCase().split(" ").slice(0, 3)],
+      search: `${entity} ${state} state`,
+      entity,
+    })),
+  };
+}
+
+function stateMermaid(): string {
+  return ["stateDiagram-v2", "    direction LR", ...FAKE_TRANSITIONS.map(([from, to, trigger]) => `    ${from} --> ${to} : ${trigger}`)].join("\n");
+}
+
+const FAKE_SERIES: [string, number][] = [["Alpha", 40], ["Beta", 25], ["Gamma", 20], ["Delta", 15]];
+
+function fakeChartContent(topic: string): string {
+  const t = cleanLabel(topic);
+  const pie = /\b(share|mix|breakdown|percentage)\b/i.test(t);
+  return [
+    `Main topic: ${t}`,
+    `Chart: ${pie ? "pie" : "bar"}`,
+    `Unit: ${pie ? "% of total" : "units"}`,
+    ...FAKE_SERIES.map(([label, value]) => `- ${label}: ${value}`),
+    "Source: Local fake provider (deterministic sample data)",
+  ].join("\n");
+}
+
+function fakeChartMeta(topic: string) {
+  const entity = cleanLabel(topic);
+  return {
+    facts: FAKE_SERIES.map(([label]) => ({
+      theme: label.toLowerCase(),
+      keywords: [label.toLowerCase(), ...entity.toLowerCase().split(" ").slice(0, 3)],
+      search: `${entity} ${label} statistics`,
+      entity,
+    })),
+  };
+}
+
+function comparisonItems(query: string): string[] {
+  const stripped = query
+    .replace(/^(compare|comparison of|difference between|differences between)\s+/i, "")
+    .replace(/[?.!]+$/, "");
+  const items = stripped
+    .split(/\s+(?:vs\.?|versus|and|or)\s+|,/i)
+    .map(cleanLabel)
+    .filter(Boolean)
+    .slice(0, 4);
+  return items.length >= 2 ? items : ["Item1", "Item2"];
+}
+
+function fakeComparisonContent(query: string): string {
+  const items = comparisonItems(query);
+  const lines = [`Items: ${items.join(", ")}`, "", "Similarity 1: Widely used and well documented", "Similarity 2: Active communities", ""];
+  for (const item of items) {
+    lines.push(`${item} unique 1: Distinct design of ${item}`);
+    lines.push(`${item} unique 2: Typical use cases of ${item}`);
+  }
+  return lines.join("\n");
+}
+
+function radialMermaid(topic: string, facts: string[]): string {
+  const ids = "BCDEFGHI".split("").slice(0, facts.length);
+  const top = Math.ceil(ids.length / 2);
+  return [
+    "flowchart TD",
+    `    A("${cleanLabel(topic)}")`,
+    ...ids.map((id, i) => `    ${id}("${cleanLabel(facts[i])}")`),
+    ...ids.slice(0, top).map(id => `    ${id} <==> A`),
+    ...ids.slice(top).map(id => `    A <==> ${id}`),
+    ...["A", ...ids].map(id => `    style ${id} fill:#ffffff,stroke:#000000`),
+  ].join("\n");
+}
+
+function flowchartMermaid(query: string): string {
+  const t = cleanLabel(query);
+  return [
+    "flowchart TB",
+    "    subgraph Context",
+    "        direction LR",
+    `        C1("Background for ${t}")`,
+    "    end",
+    "    subgraph Details",
+    "        direction TB",
+    `        Step1("Prepare for ${t}")`,
+    `        Step2("Carry out ${t}")`,
+    `        Step3("Review the result")`,
+    "    end",
+    "    Step1 --> Step2",
+    "    Step2 --> Step3",
+    "    Context ~~~ Step1",
+  ].join("\n");
+}
+
+function sequenceMermaid(items: string[]): string {
+  const ids = items.map(item => item.replace(/\s+/g, "_"));
+  const participants = items.map((item, i) => ids[i] === item ? `  participant ${item}` : `  participant ${ids[i]} as "${item}"`);
+  const lines = ["sequenceDiagram", ...participants, ""];
+  lines.push("  rect rgb(230,255,230)");
+  lines.push(`    Note over ${ids[0]},${ids[ids.length - 1]}: Similarities<br/>1. Widely used<br/>2. Active communities`);
+  lines.push("  end");
+  ids.forEach((id, i) => {
+    lines.push("  rect rgb(255,235,235)");
+    lines.push(`    Note over ${id}: Unique aspects<br/>1. Distinct design of ${items[i]}<br/>2. Typical use cases`);
+    lines.push("  end");
+  });
+  return lines.join("\n");
+}
+
+// Repairs are answered with a fresh, valid diagram of the requested type.
+function fakeRepair(message: string): string {
+  const diagramType = message.match(/^Diagram type: (.*)$/m)?.[1]?.trim() || "radial_mindmap";
+  const query = message.match(/^Original query: (.*)$/m)?.[1]?.trim() || "topic";
+  if (diagramType === "sequence_comparison") return sequenceMermaid(comparisonItems(query));
+  if (diagramType === "flowchart") return flowchartMermaid(query);
+  if (diagramType === "timeline") return timelineMermaid(query);
+  if (diagramType === "state_diagram") return stateMermaid();
+  if (diagramType === "quantitative_chart") return renderChartMermaid(parseChartContent(fakeChartContent(query)));
+  return radialMermaid(query, fakeFacts(query));
+}
+
+// Flowcharts and mind-maps gain one node named after the instruction; other types come back unchanged.
+function fakeRefine(message: string): string {
+  const instruction = message.match(/^Instruction: (.*)$/m)?.[1]?.trim() || "refinement";
+  const code = message.split("\nMermaid code:\n")[1] || "";
+  let meta: any = null;
+  try {
+    meta = JSON.parse(message.match(/\ndiagram_meta:\n([\s\S]*?)\n\nMermaid code:/)?.[1] || "null");
+  } catch (_e) {
+    meta = null;
+  }
+
+  const rootId = /^\s*(?:graph|flowchart)\b/m.test(code) ? code.match(/^\s*([A-Za-z]\w*)\s*[(\[{]/m)?.[1] : undefined;
+  if (!rootId) {
+    return JSON.stringify({ mermaid_code: code, diagram_meta: meta, summary: "This diagram type cannot be edited offline." });
+  }
+  let n = 1;
+  while (new RegExp(`\\bR${n}\\b`).test(code)) n++;
+  const label = cleanLabel(instruction).slice(0, 40) || "Refinement";
+  const edited = `${code.trimEnd()}\n    ${rootId} --> R${n}("${label}")`;
+  if (Array.isArray(meta?.facts)) {
+    meta = { ...meta, facts: [...meta.facts, { theme: label, keywords: label.toLowerCase().split(" ").slice(0, 3), search: label }] };
+  }
+  return JSON.stringify({ mermaid_code: edited, diagram_meta: meta, summary: `Added a node for "${label}".` });
+}
+
+function fakeUnified(query: string, requestedType?: string): string {
+  const diagramType = requestedType || pickDiagramType(query);
+  let mermaid: string;
+  let diagramContent: string;
+  if (diagramType === "sequence_comparison") {
+    mermaid = sequenceMermaid(comparisonItems(query));
+    diagramContent = fakeComparisonContent(query);
+  } else if (diagramType === "flowchart") {
+    mermaid = flowchartMermaid(query);
+    diagramContent = fakeDiagramContent(query);
+  } else if (diagramType === "timeline") {
+    mermaid = timelineMermaid(query);
+    diagramContent = fakeTimelineContent(query);
+  } else if (diagramType === "state_diagram") {
+    mermaid = stateMermaid();
+    diagramContent = fakeStateContent(query);
+  } else if (diagramType === "quantitative_chart") {
+    mermaid = ""; // rendered by the worker from diagram_content
+    diagramContent = fakeChartContent(query);
+  } else {
+    mermaid = radialMermaid(query, fakeFacts(query));
+    diagramContent = fakeDiagramContent(query);
+  }
+  return JSON.stringify({
+    diagram_type: diagramType,
+    universal_content: fakeUniversalContent(query),
+    diagram_content: diagramContent,
+    mermaid_code: mermaid,
+    diagram_meta: diagramType === "timeline" ? fakeTimelineMeta(query) : diagramType === "quantitative_chart" ? fakeChartMeta(query) : diagramType === "state_diagram" ? fakeStateMeta(query) : fakeMeta(query),
+  });
+}
+
+function fakeClusterChildren(path: string[]) {
+  const label = cleanLabel(path[path.length - 1]);
+  const context = cleanLabel(path[0]);
+  const areas = ["Origins", "Examples", "Places", "Today"];
+  return {
+    id: "root",
+    label,
+    headline: `${label} in ${context}`,
+    description: `${label} within ${path.join(" > ")} has a few parts. Each part below is generated by the local fake provider.`,
+    weight: 8,
+    children: areas.map((area, i) => ({
+      id: area.toLowerCase(),
+      label: area,
+      headline: `${label} ${area}`,
+      description: `${area} of ${label} in ${context} for offline testing.`,
+      weight: 6 - i,
+    })),
+  };
+}
+
+function fakeCluster(query: string) {
+  const label = cleanLabel(query);
+  const areas = ["History", "Culture", "Economy", "Geography"];
+  return {
+    id: "root",
+    label,
+    headline: `Overview of ${label}`,
+    description: `${label} has several distinct areas. Each area below is generated by the local fake provider.`,
+    weight: 10,
+    children: areas.map((area, i) => ({
+      id: area.toLowerCase(),
+      label: area,
+      headline: `${label} ${area}`,
+      description: `${area} of ${label} includes a few representative facts for offline testing.`,
+      weight: 8 - i,
+    })),
+  };
+}
@@ -0,0 +1,40 @@
+/**
+ * LLM provider registry.
+ * Resolves the provider configured through LLM_PROVIDER, falling back to the
+ * provider each call site was written against.
+ */
+
+import type { LLMProvider, LLMProviderName, ProviderEnv } from './types';
+import { createChatCompletionsProvider, OPENAI_BASE_URL } from './openai-chat';
+import { createResponsesProvider } from './openai-responses';
+import { createFakeProvider } from './fake';
+
+export type { LLMProvider, LLMProviderName, LLMRequest, LLMResult, LLMCallOptions, ProviderEnv } from './types';
+export { LLMHttpError, LLMTimeoutError } from './errors';
+export { getRetryPolicy, modelChain, isRetryable, backoffDelay, sleep, withTimeout } from './retry';
+
+const PROVIDER_NAMES: LLMProviderName[] = ["openai_chat", "openai_responses", "openai_compatible", "fake"];
+
+export function resolveProviderName(env: ProviderEnv, fallback: LLMProviderName): LLMProviderName {
+  const configured = (env.LLM_PROVIDER || "").trim().toLowerCase() as LLMProviderName;
+  if (!configured) return fallback;
+  if (PROVIDER_NAMES.includes(configured)) return configured;
+  console.warn(`⚠️ Unknown LLM_PROVIDER "${env.LLM_PROVIDER}", using ${fallback}`);
+  return fallback;
+}
+
+export function getProvider(env: ProviderEnv, fallback: LLMProviderName): LLMProvider {
+  const name = resolveProviderName(env, fallback);
+  switch (name) {
+    case "fake":
+      return createFakeProvider();
+    case "openai_compatible":
+      if (!env.LLM_BASE_URL) throw new Error("LLM_BASE_URL not configured for openai_compatible provider");
+      return createChatCompletionsProvider(name, env.LLM_BASE_URL, env.LLM_API_KEY, false);
+    case "openai_responses":
+      return createResponsesProvider(env.OPENAI_API_KEY);
+    case "openai_chat":
+    default:
+      return createChatCompletionsProvider("openai_chat", OPENAI_BASE_URL, env.OPENAI_API_KEY, true);
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * OpenAI Chat Completions provider.
+ * Also used for any OpenAI-compatible server (vLLM, Ollama, LM Studio, ...)
+ * by passing a different base URL and key.
+ */
+
+import type { LLMProvider, LLMProviderName, LLMRequest, LLMResult } from './types';
+import { toHttpError } from './errors';
+
+export const OPENAI_BASE_URL = "https://api.openai.com/v1";
+
+export function createChatCompletionsProvider(
+  name: LLMProviderName,
+  baseUrl: string,
+  apiKey: string | undefined,
+  requireKey: boolean
+): LLMProvider {
+  const endpoint = `${baseUrl.replace(/\/+$/, "")}/chat/completions`;
+
+  return {
+    name,
+    async complete(request: LLMRequest, requestId: string): Promise<LLMResult> {
+      if (requireKey && !apiKey) throw new Error("OPENAI_API_KEY not configured");
+
+      const requestBody = {
+        model: request.model,
+        messages: [
+          { role: "system", content: request.system },
+          { role: "user", content: request.user },
+        ],
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+      };
+
+      const headers: Record<string, string> = { "Content-Type": "application/json" };
+      if (apiKey) headers["Authorization"] = `Bearer ${apiKey}`;
+
+      const res = await fetch(endpoint, {
+        method: "POST",
+        headers,
+        body: JSON.stringify(requestBody),
+        signal: request.signal,
+      });
+
+      console.log(`🤖 [${requestId}] ${name} response status: ${res.status}`);
+
+      if (!res.ok) {
+        const error = await toHttpError(res);
+        console.error(`❌ [${requestId}] ${name} API error: ${error.message}`);
+        throw error;
+      }
+
+      const data = await res.json() as any;
+      console.log(`🤖 [${requestId}] ${name} response data:`, JSON.stringify({
+        choices: data.choices?.length || 0,
+        usage: data.usage,
+        model: data.model
+      }, null, 2));
+
+      const content = data?.choices?.[0]?.message?.content;
+      if (!content || typeof content !== "string") {
+        console.error(`❌ [${requestId}] Empty or invalid ${name} response:`, data);
+        throw new Error("Empty OpenAI response");
+      }
+
+      return { content, model: data.model, usage: data.usage };
+    },
+  };
+}
@@ -0,0 +1,129 @@
+/**
+ * OpenAI Responses API provider.
+ * Supports the priority service tier and prompt caching used by callOpenAIOptimized,
+ * and `stream: true` for answers that are shown while they are generated.
+ */
+
+import type { LLMProvider, LLMRequest, LLMResult } from './types';
+import { OPENAI_BASE_URL } from './openai-chat';
+import { toHttpError } from './errors';
+import { readServerSentEvents } from './sse';
+
+function buildRequestBody(request: LLMRequest): any {
+  const requestBody: any = {
+    model: request.model,
+    input: [
+      { role: "system", content: request.system },
+      { role: "user", content: request.user },
+    ],
+    temperature: request.temperature,
+    max_output_tokens: request.maxTokens,
+  };
+
+  // Add priority tier for faster processing
+  if (request.options.usePriority) {
+    requestBody.service_tier = "priority";
+  }
+
+  // Add prompt caching for reusable system prompts
+  if (request.options.useCache) {
+    requestBody.prompt_cache_key = "infflow:sys:v1";
+  }
+
+  return requestBody;
+}
+
+function postResponses(apiKey: string, requestBody: any, signal?: AbortSignal): Promise<Response> {
+  return fetch(`${OPENAI_BASE_URL}/responses`, {
+    method: "POST",
+    headers: {
+      "Authorization": `Bearer ${apiKey}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(requestBody),
+    signal,
+  });
+}
+
+export function createResponsesProvider(apiKey: string | undefined): LLMProvider {
+  return {
+    name: "openai_responses",
+    async complete(request: LLMRequest, requestId: string): Promise<LLMResult> {
+      if (!apiKey) throw new Error("OPENAI_API_KEY not configured");
+
+      const res = await postResponses(apiKey, buildRequestBody(request), request.signal);
+
+      console.log(`🚀 [${requestId}] OpenAI response status: ${res.status}`);
+      console.log(`🚀 [${requestId}] OpenAI response headers:`, Object.fromEntries(res.headers.entries()));
+
+      if (!res.ok) {
+        const error = await toHttpError(res);
+        console.error(`❌ [${requestId}] OpenAI API error: ${error.message}`);
+        throw error;
+      }
+
+      const data = await res.json() as any;
+      console.log(`🚀 [${requestId}] OpenAI response data:`, JSON.stringify({
+        output: data.output?.length || 0,
+        usage: data.usage,
+        model: data.model
+      }, null, 2));
+
+      const content = data?.output?.[0]?.content?.[0]?.text;
+      if (!content || typeof content !== "string") {
+        console.error(`❌ [${requestId}] Empty or invalid OpenAI response:`, data);
+        throw new Error("Empty OpenAI response");
+      }
+
+      return { content, model: data.model, usage: data.usage };
+    },
+
+    async stream(request: LLMRequest, requestId: string, onDelta: (text: string) => void): Promise<LLMResult> {
+      if (!apiKey) throw new Error("OPENAI_API_KEY not configured");
+
+      const res = await postResponses(apiKey, { ...buildRequestBody(request), stream: true }, request.signal);
+      console.log(`🚀 [${requestId}] OpenAI stream status: ${res.status}`);
+
+      if (!res.ok) {
+        const error = await toHttpError(res);
+        console.error(`❌ [${requestId}] OpenAI API error: ${error.message}`);
+        throw error;
+      }
+      if (!res.body) throw new Error("Empty OpenAI stream");
+
+      let content = "";
+      let final: any = null;
+      await readServerSentEvents(res.body, (_event, data) => {
+        switch (data?.type) {
+          case "response.output_text.delta":
+            if (typeof data.delta === "string" && data.delta) {
+              content += data.delta;
+              onDelta(data.delta);
+            }
+            break;
+          case "response.completed":
+          case "response.incomplete":
+            final = data.response;
+            break;
+          case "response.failed":
+            throw new Error(`OpenAI stream failed: ${data.response?.error?.message || "unknown error"}`);
+          case "error":
+            throw new Error(`OpenAI stream error: ${data.message || "unknown error"}`);
+        }
+      });
+
+      console.log(`🚀 [${requestId}] OpenAI stream finished:`, JSON.stringify({
+        status: final?.status,
+        usage: final?.usage,
+        model: final?.model
+      }, null, 2));
+
+      if (!content) {
+        console.error(`❌ [${requestId}] Empty OpenAI stream response:`, final);
+        throw new Error("Empty OpenAI response");
+      }
+
+      return { content, model: final?.model, usage: final?.usage };
+    },
+  };
+}
@@ -0,0 +1,105 @@
+/**
+ * Retry, timeout and fallback-model policy for LLM calls.
+ * Configured through LLM_TIMEOUT_MS, LLM_TOTAL_TIMEOUT_MS, LLM_MAX_RETRIES and LLM_FALLBACK_MODELS.
+ */
+
+import type { LLMProviderName, ProviderEnv } from './types';
+import { LLMHttpError, LLMTimeoutError } from './errors';
+
+export interface RetryPolicy {
+  timeoutMs: number;
+  totalTimeoutMs: number;   // across every attempt and fallback of one call
+  maxRetries: number;       // retries per model, after the first attempt
+  baseDelayMs: number;
+  maxDelayMs: number;       // a longer retry-after moves on to the next model instead
+  fallbackModels: string[];
+}
+
+const DEFAULT_TIMEOUT_MS = 60000;
+const DEFAULT_TOTAL_TIMEOUT_MS = 90000;
+const DEFAULT_MAX_RETRIES = 2;
+// OpenAI model names mean nothing to other backends, so they get no default chain
+const DEFAULT_FALLBACK_MODELS: Partial<Record<LLMProviderName, string[]>> = {
+  openai_chat: ["gpt-4.1-mini"],
+  openai_responses: ["gpt-4.1-mini"],
+};
+const RETRYABLE_STATUSES = [408, 409, 429, 500, 502, 503, 504];
+
+function readInt(value: string | undefined, fallback: number): number {
+  const parsed = parseInt(value || "", 10);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+export function getRetryPolicy(env: ProviderEnv, provider: LLMProviderName): RetryPolicy {
+  const fallbackModels = env.LLM_FALLBACK_MODELS !== undefined
+    ? env.LLM_FALLBACK_MODELS.split(",").map(m => m.trim()).filter(Boolean)
+    : DEFAULT_FALLBACK_MODELS[provider] || [];
+  return {
+    timeoutMs: readInt(env.LLM_TIMEOUT_MS, DEFAULT_TIMEOUT_MS) || DEFAULT_TIMEOUT_MS,
+    totalTimeoutMs: readInt(env.LLM_TOTAL_TIMEOUT_MS, DEFAULT_TOTAL_TIMEOUT_MS) || DEFAULT_TOTAL_TIMEOUT_MS,
+    maxRetries: readInt(env.LLM_MAX_RETRIES, DEFAULT_MAX_RETRIES),
+    baseDelayMs: 500,
+    maxDelayMs: 8000,
+    fallbackModels,
+  };
+}
+
+/**
+ * The requested model followed by the fallbacks that come after it in the chain,
+ * e.g. gpt-4.1 → gpt-4.1-mini, while gpt-4.1-mini has no further fallback.
+ */
+export function modelChain(model: string, policy: RetryPolicy): string[] {
+  const index = policy.fallbackModels.indexOf(model);
+  const rest = index === -1 ? policy.fallbackModels : policy.fallbackModels.slice(index + 1);
+  return [model, ...rest.filter(m => m !== model)];
+}
+
+export function isRetryable(error: unknown): boolean {
+  if (error instanceof LLMTimeoutError) return true;
+  if (error instanceof LLMHttpError) return RETRYABLE_STATUSES.includes(error.status);
+  // fetch rejects with a TypeError on network failures.
+  return error instanceof TypeError;
+}
+
+/**
+ * Exponential backoff with full jitter; a server-provided retry-after wins when present.
+ */
+export function backoffDelay(attempt: number, policy: RetryPolicy, retryAfterMs?: number): number {
+  if (retryAfterMs !== undefined) return retryAfterMs;
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  return Math.round(ceiling / 2 + Math.random() * ceiling / 2);
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Runs `operation` with an AbortSignal that fires after `timeoutMs`, or as soon as
+ * `parentSignal` aborts (e.g. the client cancelled a streamed answer).
+ * Rejects with LLMTimeoutError even if the operation ignores the signal.
+ */
+export async function withTimeout<T>(
+  timeoutMs: number,
+  operation: (signal: AbortSignal) => Promise<T>,
+  parentSignal?: AbortSignal
+): Promise<T> {
+  const controller = new AbortController();
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timeoutId = setTimeout(() => {
+      // Reject before aborting so the race settles with the timeout, not an AbortError.
+      reject(new LLMTimeoutError(timeoutMs));
+      controller.abort();
+    }, timeoutMs);
+  });
+  const onParentAbort = () => controller.abort(parentSignal?.reason);
+  if (parentSignal?.aborted) onParentAbort();
+  parentSignal?.addEventListener("abort", onParentAbort, { once: true });
+  try {
+    return await Promise.race([operation(controller.signal), timeout]);
+  } finally {
+    clearTimeout(timeoutId);
+    parentSignal?.removeEventListener("abort", onParentAbort);
+  }
+}
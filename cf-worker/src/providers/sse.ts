@@ -0,0 +1,52 @@
+/**
+ * Reader for upstream Server-Sent Events streams (OpenAI `stream: true`).
+ * Errors thrown by `onEvent` cancel the stream and propagate to the caller.
+ */
+
+export async function readServerSentEvents(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: string, data: any) => void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, "\n");
+
+      let boundary: number;
+      while ((boundary = buffer.indexOf("\n\n")) !== -1) {
+        const chunk = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+        dispatchChunk(chunk, onEvent);
+      }
+    }
+    if (buffer.trim()) dispatchChunk(buffer, onEvent);
+  } catch (error) {
+    await reader.cancel().catch(() => {});
+    throw error;
+  }
+}
+
+function dispatchChunk(chunk: string, onEvent: (event: string, data: any) => void): void {
+  let event = "message";
+  const dataLines: string[] = [];
+  for (const line of chunk.split("\n")) {
+    if (line.startsWith("event:")) event = line.slice(6).trim();
+    else if (line.startsWith("data:")) dataLines.push(line.slice(5).trimStart());
+  }
+  const data = dataLines.join("\n");
+  if (!data || data === "[DONE]") return;
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(data);
+  } catch {
+    console.warn(`⚠️ Skipping unparseable stream event: ${data.slice(0, 100)}`);
+    return;
+  }
+  onEvent(event, parsed);
+}
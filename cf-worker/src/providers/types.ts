@@ -0,0 +1,54 @@
+/**
+ * Shared types for the pluggable LLM provider layer.
+ * Every generator goes through callOpenAI/callOpenAIOptimized, which resolve
+ * one of these providers from the environment.
+ */
+
+import type { PerformanceTimer } from '../timing';
+
+export type LLMProviderName = "openai_chat" | "openai_responses" | "openai_compatible" | "fake";
+
+export interface LLMCallOptions {
+  usePriority?: boolean;
+  useCache?: boolean;
+  useStructured?: boolean;
+  earlyStop?: string[];
+  timeoutMs?: number;        // per-attempt timeout, overrides LLM_TIMEOUT_MS
+  timer?: PerformanceTimer;  // records each attempt, retry and fallback
+  stage?: string;            // pipeline stage the call's usage is attributed to
+}
+
+export interface LLMRequest {
+  system: string;
+  user: string;
+  model: string;
+  maxTokens: number;
+  temperature: number;
+  options: LLMCallOptions;
+  signal?: AbortSignal;
+}
+
+export interface LLMResult {
+  content: string;
+  model?: string;
+  usage?: any;
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  complete(request: LLMRequest, requestId: string): Promise<LLMResult>;
+  // Reports output text as it is generated; providers without it answer through complete().
+  stream?(request: LLMRequest, requestId: string, onDelta: (text: string) => void): Promise<LLMResult>;
+}
+
+// Provider-related environment variables (kept separate to avoid circular imports).
+export type ProviderEnv = {
+  OPENAI_API_KEY?: string;
+  LLM_PROVIDER?: string;     // openai_chat | openai_responses | openai_compatible | fake
+  LLM_BASE_URL?: string;     // base URL for openai_compatible, e.g. http://localhost:8000/v1
+  LLM_API_KEY?: string;      // optional key for openai_compatible
+  LLM_TIMEOUT_MS?: string;   // per-attempt timeout (default 60000)
+  LLM_TOTAL_TIMEOUT_MS?: string; // cap for one call including retries and fallbacks (default 90000)
+  LLM_MAX_RETRIES?: string;  // retries per model for 408/409/429/5xx, timeouts and network errors (default 2)
+  LLM_FALLBACK_MODELS?: string; // comma-separated fallback chain (default "gpt-4.1-mini" for the OpenAI providers, none otherwise)
+};
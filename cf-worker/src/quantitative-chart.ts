@@ -0,0 +1,126 @@
+/**
+ * Quantitative charts for statistical queries.
+ * The model answers with a plain-text numeric series (see content_chart_prompt);
+ * the worker parses and validates it here and renders the Mermaid `pie` or
+ * `xychart-beta` code itself, so the numbers in the chart always match the text.
+ */
+
+export type ChartKind = "pie" | "bar";
+
+export interface ChartPoint {
+  label: string;
+  value: number;
+}
+
+export interface ChartSpec {
+  topic: string;
+  kind: ChartKind;
+  unit: string;
+  points: ChartPoint[];
+  sources: string[];
+}
+
+const MIN_POINTS = 2;
+const MAX_POINTS = 12; // Mermaid's pie theme has twelve slice colours
+const MAX_LABEL_LENGTH = 30;
+
+// Data points are "- <label>: <number>" bullets; the unit lives on its own "Unit:" line.
+const DATA_POINT = /^(?:-|\*|\d+\.)\s+([^:]{1,60}):\s*(.+)$/;
+const FIELD = /^(main topic|topic|chart|unit|sources?):\s*(.*)$/i;
+
+export function parseChartContent(content: string): ChartSpec {
+  const spec: ChartSpec = { topic: "", kind: "bar", unit: "", points: [], sources: [] };
+  let declaredKind = "";
+
+  for (const line of (content || "").split("\n")) {
+    const trimmed = line.trim();
+    if (!trimmed) continue;
+
+    const field = trimmed.match(FIELD);
+    if (field) {
+      const key = field[1].toLowerCase();
+      const value = field[2].trim();
+      if (key === "chart") declaredKind = value.toLowerCase();
+      else if (key === "unit") spec.unit = cleanChartText(value);
+      else if (key.startsWith("source")) { if (value) spec.sources.push(value); }
+      else spec.topic = cleanChartText(value);
+      continue;
+    }
+
+    const point = trimmed.match(DATA_POINT);
+    if (!point) continue;
+    const label = cleanChartLabel(point[1]);
+    const value = parseChartNumber(point[2]);
+    if (!label || value === null) continue;
+    if (spec.points.some(p => p.label.toLowerCase() === label.toLowerCase())) continue; // Mermaid merges duplicate slices
+    spec.points.push({ label, value });
+  }
+
+  // A pie cannot show zero or negative shares, so those series fall back to bars
+  spec.kind = declaredKind.includes("pie") && spec.points.every(p => p.value > 0) ? "pie" : "bar";
+  return spec;
+}
+
+/** Returns the problems that make a series unusable as a chart; empty when it can be rendered. */
+export function validateChartSpec(spec: ChartSpec): string[] {
+  const problems: string[] = [];
+  if (spec.points.length < MIN_POINTS) {
+    problems.push(`Chart needs at least ${MIN_POINTS} numeric data points, found ${spec.points.length}`);
+  }
+  if (spec.points.length > MAX_POINTS) {
+    problems.push(`Chart has ${spec.points.length} data points; at most ${MAX_POINTS} can be drawn`);
+  }
+  if (spec.kind === "pie" && spec.points.reduce((sum, p) => sum + p.value, 0) <= 0) {
+    problems.push("Pie chart values add up to zero");
+  }
+  return problems;
+}
+
+/** The model's diagram_meta with the series' sources, which the frontend shows as a caption under the chart. */
+export function withChartSources(meta: any, spec: ChartSpec): any {
+  if (!spec.sources.length) return meta;
+  return { ...(meta && typeof meta === "object" ? meta : {}), sources: spec.sources };
+}
+
+export function renderChartMermaid(spec: ChartSpec): string {
+  const title = spec.unit ? `${spec.topic || "Chart"} (${spec.unit})` : spec.topic || "Chart";
+
+  if (spec.kind === "pie") {
+    return [
+      "pie showData",
+      `    title ${title}`,
+      ...spec.points.map(p => `    "${p.label}" : ${formatChartNumber(p.value)}`),
+    ].join("\n");
+  }
+
+  return [
+    "xychart-beta",
+    `    title "${title}"`,
+    // Bars carry no value labels in xychart-beta, so the value goes into the category label
+    `    x-axis [${spec.points.map(p => `"${p.label} (${formatChartNumber(p.value)})"`).join(", ")}]`,
+    `    y-axis "${spec.unit || "Value"}"`,
+    `    bar [${spec.points.map(p => formatChartNumber(p.value)).join(", ")}]`,
+  ].join("\n");
+}
+
+/** Reads the first number in a value such as "84.4", "1,200", "65%" or "about 12 million". */
+export function parseChartNumber(text: string): number | null {
+  const match = (text || "").replace(/(\d),(?=\d{3}\b)/g, "$1").match(/-?\d+(?:\.\d+)?/);
+  if (!match) return null;
+  const value = parseFloat(match[0]);
+  return Number.isFinite(value) ? value : null;
+}
+
+// Mermaid only accepts plain decimals (no exponent) in pie and bar data
+function formatChartNumber(value: number): string {
+  return Number.isInteger(value) ? String(value) : String(Number(value.toFixed(4)));
+}
+
+function cleanChartText(text: string): string {
+  return text.replace(/["`#;[\]]/g, "").replace(/\s+/g, " ").trim();
+}
+
+function cleanChartLabel(text: string): string {
+  const label = cleanChartText(text).replace(/:/g, " ").replace(/\*+/g, "").trim();
+  return label.length > MAX_LABEL_LENGTH ? `${label.slice(0, MAX_LABEL_LENGTH - 3).trim()}...` : label;
+}
@@ -0,0 +1,191 @@
+/**
+ * Per-client rate limiting for the LLM- and search-backed routes.
+ * Each client IP and session id gets a token bucket; every request also draws
+ * from a global daily request budget. Both count route costs, not LLM tokens.
+ * What the LLM calls actually spend is capped by global daily token and cost
+ * budgets, checked against the totals usage.ts records. State lives in the RATE_LIMIT KV namespace when
+ * bound, otherwise in memory for the lifetime of the isolate (local runs).
+ * KV is eventually consistent, so limits are approximate across colos.
+ */
+
+import { json } from "./utils";
+import { CacheStore, KVCacheStore, MemoryCacheStore } from "./cache";
+import { UsageEnv, readDailyUsage } from "./usage";
+
+export interface RateLimitEnv extends UsageEnv {
+  RATE_LIMIT?: KVNamespace;
+  RATE_LIMIT_CAPACITY?: string;          // bucket size, in tokens
+  RATE_LIMIT_REFILL_PER_MINUTE?: string; // tokens restored per minute
+  DAILY_REQUEST_BUDGET?: string;         // global route cost units per UTC day
+  DAILY_TOKEN_BUDGET?: string;           // global LLM input + output tokens per UTC day (unlimited when unset)
+  DAILY_COST_BUDGET_USD?: string;        // global LLM spend per UTC day, priced with LLM_PRICES
+}
+
+export type RateLimitedRoute = "describe" | "deep-dive" | "deep-dive-suggestions" | "cluster" | "cluster-with-items" | "node-search" | "diagram-repair" | "refine" | "expand" | "render-outcome" | "intent";
+
+// Bucket and daily budget units per request, roughly proportional to the upstream calls it makes.
+// Independent of how many LLM tokens those calls use; the daily spend budgets cover that.
+const ROUTE_COST: Record<RateLimitedRoute, number> = {
+  describe: 3,
+  expand: 3,
+  cluster: 2,
+  "cluster-with-items": 4, // plus one search per child cluster, at most 6
+  "deep-dive": 1,
+  "deep-dive-suggestions": 1,
+  "node-search": 1,
+  "diagram-repair": 1,
+  refine: 1,
+  "render-outcome": 1,
+  intent: 1,
+};
+
+const DEFAULT_CAPACITY = 30;
+const DEFAULT_REFILL_PER_MINUTE = 10;
+const DEFAULT_DAILY_BUDGET = 20000;
+const DEFAULT_DAILY_COST_BUDGET_USD = 25;
+const MEMORY_MAX_BUCKETS = 5000;
+
+// Routes that make no paid upstream call stay open once the spend budgets are used up.
+const UNMETERED_ROUTES: RateLimitedRoute[] = ["render-outcome"];
+
+type Bucket = { tokens: number; updatedAt: number };
+
+export type RateLimitDecision =
+  | { allowed: true }
+  | { allowed: false; scope: "ip" | "session" | "daily"; retryAfter: number; reason?: "spend" };
+
+const memoryStore = new MemoryCacheStore(MEMORY_MAX_BUCKETS);
+
+function getStore(env: RateLimitEnv): CacheStore {
+  return env.RATE_LIMIT ? new KVCacheStore(env.RATE_LIMIT) : memoryStore;
+}
+
+function readNumber(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+function clientIp(request: Request): string {
+  return (
+    request.headers.get("cf-connecting-ip") ||
+    (request.headers.get("x-forwarded-for") || "").split(",")[0].trim() ||
+    "unknown"
+  );
+}
+
+function secondsUntilUtcMidnight(now: number): number {
+  const midnight = new Date(now);
+  midnight.setUTCHours(24, 0, 0, 0);
+  return Math.max(1, Math.ceil((midnight.getTime() - now) / 1000));
+}
+
+async function readJson<T>(store: CacheStore, key: string): Promise<T | null> {
+  try {
+    const raw = await store.get(key);
+    return raw ? JSON.parse(raw) as T : null;
+  } catch (error) {
+    console.warn(`⚠️ Rate limit read failed for ${key}:`, error);
+    return null;
+  }
+}
+
+async function writeJson(store: CacheStore, key: string, value: unknown, ttlSeconds: number): Promise<void> {
+  try {
+    await store.put(key, JSON.stringify(value), ttlSeconds);
+  } catch (error) {
+    console.warn(`⚠️ Rate limit write failed for ${key}:`, error);
+  }
+}
+
+/**
+ * True once today's recorded LLM usage has reached the token or cost budget.
+ * Usage is recorded when a request finishes, so requests already running can overshoot it slightly.
+ */
+async function dailySpendExhausted(env: RateLimitEnv, now: number): Promise<boolean> {
+  const tokenBudget = readNumber(env.DAILY_TOKEN_BUDGET, Infinity);
+  const costBudget = readNumber(env.DAILY_COST_BUDGET_USD, DEFAULT_DAILY_COST_BUDGET_USD);
+  const daily = await readDailyUsage(env, new Date(now).toISOString().slice(0, 10));
+  return daily.input_tokens + daily.output_tokens >= tokenBudget || daily.cost_usd >= costBudget;
+}
+
+/**
+ * Checks the IP bucket, the session bucket (when an X-Session-Id header is sent),
+ * the daily spend budgets and the daily request budget. Tokens are only consumed when every check passes.
+ */
+export async function checkRateLimit(
+  request: Request,
+  env: RateLimitEnv,
+  route: RateLimitedRoute,
+  now = Date.now()
+): Promise<RateLimitDecision> {
+  const store = getStore(env);
+  const cost = ROUTE_COST[route];
+  const capacity = readNumber(env.RATE_LIMIT_CAPACITY, DEFAULT_CAPACITY);
+  const refillPerMinute = readNumber(env.RATE_LIMIT_REFILL_PER_MINUTE, DEFAULT_REFILL_PER_MINUTE);
+  const dailyBudget = readNumber(env.DAILY_REQUEST_BUDGET, DEFAULT_DAILY_BUDGET);
+
+  const identities: { scope: "ip" | "session"; key: string }[] = [
+    { scope: "ip", key: `ratelimit:ip:${clientIp(request)}` },
+  ];
+  const sessionId = (request.headers.get("x-session-id") || "").trim().slice(0, 128);
+  if (sessionId) {
+    identities.push({ scope: "session", key: `ratelimit:session:${sessionId}` });
+  }
+
+  const buckets: { scope: "ip" | "session"; key: string; bucket: Bucket }[] = [];
+  for (const identity of identities) {
+    const stored = await readJson<Bucket>(store, identity.key);
+    const elapsedMinutes = stored ? Math.max(0, now - stored.updatedAt) / 60000 : 0;
+    const tokens = stored ? Math.min(capacity, stored.tokens + elapsedMinutes * refillPerMinute) : capacity;
+    if (tokens < cost) {
+      const retryAfter = Math.max(1, Math.ceil(((cost - tokens) / refillPerMinute) * 60));
+      return { allowed: false, scope: identity.scope, retryAfter };
+    }
+    buckets.push({ ...identity, bucket: { tokens: tokens - cost, updatedAt: now } });
+  }
+
+  if (!UNMETERED_ROUTES.includes(route) && await dailySpendExhausted(env, now)) {
+    return { allowed: false, scope: "daily", retryAfter: secondsUntilUtcMidnight(now), reason: "spend" };
+  }
+
+  const dayKey = `ratelimit:daily:${new Date(now).toISOString().slice(0, 10)}`;
+  const used = (await readJson<{ used: number }>(store, dayKey))?.used || 0;
+  if (used + cost > dailyBudget) {
+    return { allowed: false, scope: "daily", retryAfter: secondsUntilUtcMidnight(now) };
+  }
+
+  // Buckets expire once they would have refilled completely anyway.
+  const bucketTtl = Math.ceil((capacity / refillPerMinute) * 60) + 60;
+  for (const { key, bucket } of buckets) {
+    await writeJson(store, key, bucket, bucketTtl);
+  }
+  await writeJson(store, dayKey, { used: used + cost }, 60 * 60 * 48);
+
+  return { allowed: true };
+}
+
+export function rateLimitedResponse(decision: Extract<RateLimitDecision, { allowed: false }>): Response {
+  const detail = decision.reason === "spend"
+    ? "Infflow has reached its daily spending limit. Please try again tomorrow."
+    : decision.scope === "daily"
+    ? "Infflow has reached its daily usage limit. Please try again tomorrow."
+    : `You're sending requests too quickly. Please wait ${decision.retryAfter} seconds and try again.`;
+  return json({
+    success: false,
+    detail,
+    error_type: "rate_limited",
+    scope: decision.scope,
+    ...(decision.reason ? { reason: decision.reason } : {}),
+    retry_after: decision.retryAfter,
+  }, 429, { "Retry-After": String(decision.retryAfter) });
+}
+
+/**
+ * Returns a 429 response when the request is over its limit, or null to proceed.
+ */
+export async function enforceRateLimit(request: Request, env: RateLimitEnv, route: RateLimitedRoute): Promise<Response | null> {
+  const decision = await checkRateLimit(request, env, route);
+  if (decision.allowed) return null;
+  console.warn(`🚦 Rate limited ${route} request (${decision.reason || decision.scope}), retry after ${decision.retryAfter}s`);
+  return rateLimitedResponse(decision);
+}
@@ -0,0 +1,88 @@
+/**
+ * Counts how each generated diagram ended up being shown in the browser:
+ * rendered as generated, rendered after a client-reported repair, or replaced by
+ * the outline fallback. A rising repair/outline share means prompts are regressing.
+ * Daily counters share the USAGE KV namespace (in memory when unbound).
+ */
+
+import { CacheStore, KVCacheStore, MemoryCacheStore } from "./cache";
+import { UsageEnv } from "./usage";
+import { DIAGRAM_TYPES, DiagramType } from "./diagram-types";
+
+export type RenderOutcome = "rendered" | "repaired" | "outline";
+
+export const RENDER_OUTCOMES: RenderOutcome[] = ["rendered", "repaired", "outline"];
+
+export type OutcomeCounts = Record<RenderOutcome, number>;
+
+// Client-reported types outside DIAGRAM_TYPES are counted together, so the daily record stays bounded
+export type RenderedDiagramType = DiagramType | "unknown";
+
+export interface DailyRenderStats extends OutcomeCounts {
+  date: string;
+  by_diagram_type: Partial<Record<RenderedDiagramType, OutcomeCounts>>;
+}
+
+const DAILY_TTL_SECONDS = 60 * 60 * 24 * 90;
+
+const memoryStore = new MemoryCacheStore(120);
+
+function getStore(env: UsageEnv): CacheStore {
+  return env.USAGE ? new KVCacheStore(env.USAGE) : memoryStore;
+}
+
+function dailyKey(date: string): string {
+  return `render:daily:${date}`;
+}
+
+export function emptyOutcomeCounts(): OutcomeCounts {
+  return { rendered: 0, repaired: 0, outline: 0 };
+}
+
+export function emptyRenderStats(date: string): DailyRenderStats {
+  return { date, ...emptyOutcomeCounts(), by_diagram_type: {} };
+}
+
+export function isRenderOutcome(value: unknown): value is RenderOutcome {
+  return RENDER_OUTCOMES.includes(value as RenderOutcome);
+}
+
+export function toRenderedDiagramType(value: unknown): RenderedDiagramType {
+  return DIAGRAM_TYPES.includes(value as DiagramType) ? value as DiagramType : "unknown";
+}
+
+export async function readRenderStats(env: UsageEnv, date: string): Promise<DailyRenderStats> {
+  try {
+    const raw = await getStore(env).get(dailyKey(date));
+    if (!raw) return emptyRenderStats(date);
+    const stats = JSON.parse(raw) as DailyRenderStats;
+    // Records written before diagram types were checked may hold arbitrary keys
+    const byType: DailyRenderStats["by_diagram_type"] = {};
+    for (const [type, counts] of Object.entries(stats.by_diagram_type || {})) {
+      if (toRenderedDiagramType(type) === type) byType[type as RenderedDiagramType] = counts;
+    }
+    return { ...stats, by_diagram_type: byType };
+  } catch (error) {
+    console.warn(`⚠️ Render stats read failed for ${date}:`, error);
+    return emptyRenderStats(date);
+  }
+}
+
+/**
+ * Read-modify-write like the usage aggregates; an occasional lost increment is acceptable.
+ */
+export async function recordRenderOutcome(env: UsageEnv, outcome: RenderOutcome, diagramType: RenderedDiagramType, now = Date.now()): Promise<void> {
+  const date = new Date(now).toISOString().slice(0, 10);
+  const stats = await readRenderStats(env, date);
+
+  stats[outcome] += 1;
+  const counts = stats.by_diagram_type[diagramType] || emptyOutcomeCounts();
+  counts[outcome] += 1;
+  stats.by_diagram_type[diagramType] = counts;
+
+  try {
+    await getStore(env).put(dailyKey(date), JSON.stringify(stats), DAILY_TTL_SECONDS);
+  } catch (error) {
+    console.warn(`⚠️ Render stats write failed for ${date}:`, error);
+  }
+}
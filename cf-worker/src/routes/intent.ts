@@ -0,0 +1,51 @@
+import { json } from '../utils';
+import { EnvLike } from '../openai';
+import { UsageEnv, createUsageTracker, finishUsage, withUsageTracker } from '../usage';
+import { IntentEnv, detectIntent, resolveIntent } from '../intent';
+import { RateLimitEnv, enforceRateLimit } from '../rate-limit';
+
+export interface Env extends UsageEnv, IntentEnv, RateLimitEnv {}
+
+interface IntentPayload {
+  query?: unknown;
+  llm?: unknown;
+}
+
+const MAX_QUERY_LENGTH = 500;
+
+/**
+ * POST /api/intent - how a query will be answered (view, diagram type, complexity,
+ * language, freshness). Heuristic only unless `llm: true` asks the model to settle
+ * the diagram type when no rule matched; only those requests are rate limited.
+ */
+export async function handleIntent(request: Request, env: Env): Promise<Response> {
+  let payload: IntentPayload;
+  try {
+    payload = (await request.json()) as IntentPayload;
+  } catch {
+    return json({ success: false, detail: 'Invalid JSON body', error_type: 'validation_error' }, 400);
+  }
+
+  const query = typeof payload?.query === 'string' ? payload.query.trim().slice(0, MAX_QUERY_LENGTH) : '';
+  if (!query) {
+    return json({ success: false, detail: 'Query cannot be empty', error_type: 'validation_error' }, 400);
+  }
+
+  if (payload.llm !== true) {
+    return json({ success: true, intent: detectIntent(query) });
+  }
+
+  const limited = await enforceRateLimit(request, env, 'intent');
+  if (limited) return limited;
+
+  const usage = createUsageTracker(`intent_${Date.now()}`, env);
+  try {
+    const intent = await resolveIntent(query, withUsageTracker(env as EnvLike & IntentEnv, usage));
+    console.log(`🧭 Intent for "${query.substring(0, 50)}": ${intent.view}/${intent.diagram_type} (${intent.source})`);
+    return json({ success: true, intent, usage: await finishUsage(env, 'intent', usage) });
+  } catch (error) {
+    await finishUsage(env, 'intent', usage);
+    console.error('❌ Intent resolution failed:', error);
+    return json({ success: false, detail: 'Could not resolve query intent', error_type: 'internal_error' }, 500);
+  }
+}
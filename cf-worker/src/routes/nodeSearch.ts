@@ -1,8 +1,68 @@
 // worker/src/routes/nodeSearch.ts
 import type { NodeSearchRequest, NodeSearchResponse } from '../types';
+import { json } from '../utils';
+import type { CacheMode } from '../cache';
+import { SafeSearchLevel, SearchCacheStatus, SearchEnv, SearchErrorType, SearchFreshness, getSearchProvider, normalizeDomain, rankResults, runSearchAttempts, searchTerms } from '../search';
 
-export interface Env {
-  BRAVE_SEARCH_API: string;
+export type Env = SearchEnv;
+
+const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "content-type",
+};
+
+const ERROR_DETAILS: Record<SearchErrorType, string> = {
+  search_timeout: "Link search timed out. Please try again.",
+  search_upstream_error: "The link search service is unavailable right now.",
+  search_invalid_response: "The link search service returned an unexpected response.",
+};
+
+const DEFAULT_COUNT = 5;
+const MAX_COUNT = 10;
+const MAX_DOMAINS = 20;
+const FRESHNESS: SearchFreshness[] = ["day", "week", "month", "year"];
+const SAFESEARCH: SafeSearchLevel[] = ["off", "moderate", "strict"];
+
+export type NodeSearchOptions = {
+  count: number;
+  freshness?: SearchFreshness;
+  safesearch: SafeSearchLevel;
+  includeDomains: string[];
+  excludeDomains: string[];
+  cache?: CacheMode; // "bypass" skips cached results but still refreshes them
+  maxAttempts?: number; // send only the most specific queries
+};
+
+function parseDomains(value: unknown, field: string): string[] | { error: string } {
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || value.length > MAX_DOMAINS) {
+    return { error: `${field} must be a list of at most ${MAX_DOMAINS} domains` };
+  }
+  const domains = value.map(entry => typeof entry === "string" ? normalizeDomain(entry) : null);
+  const invalid = value.find((_, i) => !domains[i]);
+  return invalid === undefined ? domains as string[] : { error: `${field} has an invalid domain: ${JSON.stringify(invalid)}` };
+}
+
+export function parseSearchOptions(b: NodeSearchRequest): NodeSearchOptions | { error: string } {
+  const count = b.count ?? DEFAULT_COUNT;
+  if (!Number.isInteger(count) || count < 1 || count > MAX_COUNT) {
+    return { error: `count must be an integer from 1 to ${MAX_COUNT}` };
+  }
+  if (b.freshness !== undefined && !FRESHNESS.includes(b.freshness)) {
+    return { error: `freshness must be one of ${FRESHNESS.join(", ")}` };
+  }
+  const safesearch = b.safesearch ?? "moderate";
+  if (!SAFESEARCH.includes(safesearch)) {
+    return { error: `safesearch must be one of ${SAFESEARCH.join(", ")}` };
+  }
+  const includeDomains = parseDomains(b.include_domains, "include_domains");
+  if ("error" in includeDomains) return includeDomains;
+  const excludeDomains = parseDomains(b.exclude_domains, "exclude_domains");
+  if ("error" in excludeDomains) return excludeDomains;
+  if (b.cache !== undefined && b.cache !== "default" && b.cache !== "bypass") {
+    return { error: "cache must be default or bypass" };
+  }
+  return { count, freshness: b.freshness, safesearch, includeDomains, excludeDomains, cache: b.cache };
 }
 
 function clean(s: string) {
@@ -12,74 +72,95 @@ function clean(s: string) {
     .trim();
 }
 
-function stripHtmlTags(text: string) {
-  return (text || "")
-    .replace(/<[^>]*>/g, "") // Remove all HTML tags
-    .replace(/&nbsp;/g, " ") // Replace &nbsp; with regular space
-    .replace(/&amp;/g, "&") // Replace &amp; with &
-    .replace(/&lt;/g, "<") // Replace &lt; with <
-    .replace(/&gt;/g, ">") // Replace &gt; with >
-    .replace(/&quot;/g, '"') // Replace &quot; with "
-    .replace(/&#39;/g, "'") // Replace &#39; with '
-    .trim();
-}
-
-function assembleQueries(b: NodeSearchRequest) {
+export function assembleQueries(b: NodeSearchRequest) {
   const entity = clean(b.entity || "");
   const baseQ = clean(b.query || "");
   const phrase = clean(b.phrase || "");
   const theme = clean(b.theme || "");
   const keywords = (b.keywords || []).map(clean).filter(Boolean);
   const search = clean(b.search || "");
+  const date = clean(b.date || "");
+  // Only add the date when the search text does not already mention it
+  const dated = (q: string) => (date && !q.toLowerCase().includes(date.toLowerCase()) ? `${q} ${date}` : q);
 
   const attempts: string[] = [];
-  if (search) attempts.push([entity, search].filter(Boolean).join(" "));
+  if (search) attempts.push(dated([entity, search].filter(Boolean).join(" ")));
   if (!search && (theme || keywords.length)) {
-    attempts.push([entity, theme, ...keywords].filter(Boolean).join(" "));
+    attempts.push(dated([entity, theme, ...keywords].filter(Boolean).join(" ")));
   }
   if (phrase) attempts.push([entity || baseQ, phrase].filter(Boolean).join(" "));
   attempts.push(entity || baseQ); // final fallback
   return attempts.filter((q, i, a) => q && a.indexOf(q) === i);
 }
 
-async function braveSearch(env: Env, q: string) {
-  const params = new URLSearchParams({ q, count: "5", country: "us", safesearch: "moderate" });
-  const resp = await fetch(`https://api.search.brave.com/res/v1/web/search?${params}`, {
-    method: "GET",
-    headers: {
-      "Accept": "application/json",
-      "x-subscription-token": env.BRAVE_SEARCH_API,
-    },
+export function canSearch(env: Env): boolean {
+  return getSearchProvider(env) !== null;
+}
+
+/**
+ * Runs every assembled query against the configured provider and ranks the merged
+ * results; null when no provider is configured.
+ */
+export async function searchNode(env: Env, body: NodeSearchRequest, options: NodeSearchOptions) {
+  const provider = getSearchProvider(env);
+  if (!provider) return null;
+  const attempts = assembleQueries(body).slice(0, options.maxAttempts);
+  // Ask for more than needed so de-duplication and domain filters still leave enough
+  const perAttempt = Math.min(20, options.count * 2);
+  const searchOptions = { count: perAttempt, freshness: options.freshness, safesearch: options.safesearch };
+  const { results, errors, cache } = await runSearchAttempts(env, provider, attempts, searchOptions, options.cache);
+  const terms = searchTerms(body.theme, ...(body.keywords || []), body.search);
+  const items = rankResults(results, {
+    terms: terms.length ? terms : searchTerms(body.phrase),
+    count: options.count,
+    includeDomains: options.includeDomains,
+    excludeDomains: options.excludeDomains,
   });
-  const data = await resp.json();
-  return { resp, data };
+  // Attempts whose results made it into the answer
+  const used = results.filter(r => r.items.some(item => items.some(kept => kept.url === item.url))).map(r => r.query);
+  return { items, attempts, used, errors, cache, provider: provider.name };
+}
+
+// "hit" when no attempt needed its own upstream request, "partial" when only some did
+function summarizeCache(cache: Record<string, SearchCacheStatus>): "hit" | "miss" | "partial" {
+  const statuses = Object.values(cache);
+  const misses = statuses.filter(status => status === "miss").length;
+  if (!statuses.length || misses === statuses.length) return "miss";
+  return misses ? "partial" : "hit";
+}
+
+function respond(payload: NodeSearchResponse, status = 200): Response {
+  return json(payload, status, CORS_HEADERS);
 }
 
 export async function handleNodeSearch(request: Request, env: Env, _ctx: any) {
-  const body = await request.json() as NodeSearchRequest;
-  const attempts = assembleQueries(body);
-  let items: any[] = [];
-  let used = "";
-  for (const q of attempts) {
-    const { data } = await braveSearch(env, q);
-    const raw = data?.web?.results || data?.results || [];
-    if (Array.isArray(raw) && raw.length) {
-      items = raw.slice(0, 5);
-      used = q;
-      break;
-    }
+  let body: NodeSearchRequest;
+  try {
+    body = await request.json() as NodeSearchRequest;
+  } catch {
+    return respond({ items: [], error_type: "validation_error", detail: "Request body must be JSON" }, 400);
   }
-  const mapped = items.map((r: any) => ({
-    title: r.title,
-    url: r.url,
-    snippet: stripHtmlTags(r.description),
-    favicon: r.profile?.image?.url ?? null,
-  }));
-  return new Response(JSON.stringify({ items: mapped, debug: { attempts, used: used || null } } as NodeSearchResponse), { 
-    headers: { 
-      "content-type": "application/json",
-      "Access-Control-Allow-Origin": "*",
-      "Access-Control-Allow-Headers": "content-type",
-    }
-  });
+  if (!body || typeof body !== "object" || !assembleQueries(body).length) {
+    return respond({ items: [], error_type: "validation_error", detail: "query, entity, phrase or search is required" }, 400);
+  }
+
+  const options = parseSearchOptions(body);
+  if ("error" in options) {
+    return respond({ items: [], error_type: "validation_error", detail: options.error }, 400);
+  }
+
+  const result = await searchNode(env, body, options);
+  if (!result) {
+    return respond({ items: [], error_type: "search_not_configured", detail: "Link search is not configured on this server." }, 503);
+  }
+
+  const { items, attempts, used, errors, cache, provider } = result;
+  const debug = { provider, attempts, used, errors, cache: { status: summarizeCache(cache), attempts: cache } };
+  if (!items.length && errors.length === attempts.length) {
+    // Every attempt failed, so "no results" would be misleading
+    const errorType = errors[0].error_type;
+    console.warn(`⚠️ Node search failed on ${provider}: ${errors.map(e => e.message).join("; ")}`);
+    return respond({ items: [], debug, error_type: errorType, detail: ERROR_DETAILS[errorType] }, errorType === "search_timeout" ? 504 : 502);
+  }
+  return respond({ items, debug });
 }
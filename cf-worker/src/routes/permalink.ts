@@ -0,0 +1,24 @@
+import { json } from '../utils';
+import { PermalinkEnv, isValidPermalinkId, loadPermalink, toPublicPermalink } from '../permalinks';
+
+export interface Env extends PermalinkEnv {}
+
+export const PERMALINK_PATH = /^\/api\/diagram\/([^/]+)$/;
+
+/**
+ * GET /api/diagram/:id - a stored describe or topic map result, for the /d/:id view.
+ */
+export async function handlePermalink(request: Request, env: Env): Promise<Response> {
+  const id = new URL(request.url).pathname.match(PERMALINK_PATH)?.[1] || '';
+  if (!isValidPermalinkId(id)) {
+    return json({ success: false, detail: 'Invalid diagram id', error_type: 'validation_error' }, 400);
+  }
+
+  const permalink = await loadPermalink(env, id);
+  if (!permalink) {
+    return json({ success: false, detail: 'This diagram link has expired or does not exist', error_type: 'not_found' }, 404);
+  }
+
+  console.log(`🔗 Serving permalink ${id} (${permalink.view})`);
+  return json({ success: true, permalink: toPublicPermalink(permalink) });
+}
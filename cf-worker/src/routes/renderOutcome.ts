@@ -0,0 +1,31 @@
+import { json } from '../utils';
+import { UsageEnv } from '../usage';
+import { isRenderOutcome, recordRenderOutcome, toRenderedDiagramType } from '../render-stats';
+
+export interface Env extends UsageEnv {}
+
+interface RenderOutcomePayload {
+  outcome?: unknown;
+  diagram_type?: unknown;
+}
+
+/**
+ * POST /api/diagram/render-outcome - the browser reports how a diagram was finally shown.
+ */
+export async function handleRenderOutcome(request: Request, env: Env): Promise<Response> {
+  let payload: RenderOutcomePayload;
+  try {
+    payload = (await request.json()) as RenderOutcomePayload;
+  } catch {
+    return json({ success: false, detail: 'Invalid JSON body', error_type: 'validation_error' }, 400);
+  }
+
+  if (!isRenderOutcome(payload.outcome)) {
+    return json({ success: false, detail: 'outcome must be one of rendered, repaired, outline', error_type: 'validation_error' }, 400);
+  }
+
+  const diagramType = toRenderedDiagramType(payload.diagram_type);
+  await recordRenderOutcome(env, payload.outcome, diagramType);
+  console.log(`📊 Diagram render outcome: ${payload.outcome} (${diagramType})`);
+  return json({ success: true });
+}
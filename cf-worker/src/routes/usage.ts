@@ -0,0 +1,75 @@
+import { json } from '../utils';
+import { DailyUsage, UsageEnv, emptyDailyUsage, readDailyUsage } from '../usage';
+import { DailyRenderStats, RENDER_OUTCOMES, emptyRenderStats, readRenderStats } from '../render-stats';
+
+export interface Env extends UsageEnv {}
+
+const MAX_DAYS = 31;
+
+type Breakdown = Record<string, { cost_usd: number }>;
+
+function mergeBreakdown(target: Record<string, any>, source: Record<string, any>): void {
+  for (const [key, value] of Object.entries(source)) {
+    const existing = target[key] || (target[key] = {});
+    for (const [field, amount] of Object.entries(value as Record<string, number>)) {
+      existing[field] = Math.round(((existing[field] || 0) + amount) * 1e6) / 1e6;
+    }
+  }
+}
+
+function mostExpensive(breakdown: Breakdown): string | null {
+  const entries = Object.entries(breakdown).sort((a, b) => b[1].cost_usd - a[1].cost_usd);
+  return entries.length ? entries[0][0] : null;
+}
+
+/**
+ * GET /api/usage?days=7 - daily token/cost aggregates plus totals for the range,
+ * alongside how diagrams were rendered (as generated, repaired, outline fallback).
+ */
+export async function handleUsage(request: Request, env: Env): Promise<Response> {
+  if (env.USAGE_API_TOKEN) {
+    const auth = request.headers.get('authorization') || '';
+    if (auth !== `Bearer ${env.USAGE_API_TOKEN}`) {
+      return json({ success: false, detail: 'Unauthorized', error_type: 'unauthorized' }, 401);
+    }
+  }
+
+  const url = new URL(request.url);
+  const requested = parseInt(url.searchParams.get('days') || '7', 10);
+  const days = Math.min(MAX_DAYS, Math.max(1, Number.isFinite(requested) ? requested : 7));
+
+  const dates: string[] = [];
+  for (let i = 0; i < days; i++) {
+    dates.push(new Date(Date.now() - i * 24 * 60 * 60 * 1000).toISOString().slice(0, 10));
+  }
+  const daily: DailyUsage[] = await Promise.all(dates.map(date => readDailyUsage(env, date)));
+  const renderDaily: DailyRenderStats[] = await Promise.all(dates.map(date => readRenderStats(env, date)));
+
+  const totals = emptyDailyUsage(`${dates[dates.length - 1]}..${dates[0]}`);
+  for (const day of daily) {
+    totals.requests += day.requests;
+    totals.calls += day.calls;
+    totals.input_tokens += day.input_tokens;
+    totals.output_tokens += day.output_tokens;
+    totals.cached_tokens += day.cached_tokens;
+    totals.cost_usd = Math.round((totals.cost_usd + day.cost_usd) * 1e6) / 1e6;
+    mergeBreakdown(totals.by_route, day.by_route);
+    mergeBreakdown(totals.by_stage, day.by_stage);
+    mergeBreakdown(totals.by_model, day.by_model);
+  }
+
+  const renderTotals = emptyRenderStats(totals.date);
+  for (const day of renderDaily) {
+    for (const outcome of RENDER_OUTCOMES) renderTotals[outcome] += day[outcome];
+    mergeBreakdown(renderTotals.by_diagram_type, day.by_diagram_type);
+  }
+
+  return json({
+    success: true,
+    days: daily,
+    totals,
+    render_outcomes: { days: renderDaily, totals: renderTotals },
+    most_expensive_stage: mostExpensive(totals.by_stage),
+    most_expensive_route: mostExpensive(totals.by_route),
+  });
+}
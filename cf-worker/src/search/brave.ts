@@ -0,0 +1,38 @@
+/**
+ * Brave Search web API provider.
+ */
+
+import type { NodeSearchItem } from '../types';
+import type { SearchFreshness, SearchProvider } from './types';
+import { readSearchJson, stripHtmlTags } from './http';
+import { SearchResponseError } from './errors';
+
+const FRESHNESS: Record<SearchFreshness, string> = { day: "pd", week: "pw", month: "pm", year: "py" };
+
+export function createBraveProvider(apiKey: string): SearchProvider {
+  return {
+    name: "brave",
+    async search(q, { count, freshness, safesearch }, signal) {
+      // Brave answers at most 20 results per request
+      const params = new URLSearchParams({ q, count: String(Math.min(count, 20)), country: "us", safesearch });
+      if (freshness) params.set("freshness", FRESHNESS[freshness]);
+      const resp = await fetch(`https://api.search.brave.com/res/v1/web/search?${params}`, {
+        method: "GET",
+        headers: {
+          "Accept": "application/json",
+          "x-subscription-token": apiKey,
+        },
+        signal,
+      });
+      const data = await readSearchJson("Brave", resp);
+      const raw = data?.web?.results ?? data?.results ?? [];
+      if (!Array.isArray(raw)) throw new SearchResponseError("Brave", "results is not a list");
+      return raw.slice(0, count).map((r: any): NodeSearchItem => ({
+        title: r.title,
+        url: r.url,
+        snippet: stripHtmlTags(r.description),
+        favicon: r.profile?.image?.url ?? null,
+      }));
+    },
+  };
+}
@@ -0,0 +1,77 @@
+/**
+ * Search result cache and in-flight coalescing.
+ * Each assembled query's results are stored in the response cache store
+ * (RESPONSE_CACHE KV when bound, in memory otherwise) for SEARCH_CACHE_TTL seconds,
+ * and concurrent identical lookups in an isolate share one upstream request.
+ */
+
+import { CacheMode, buildCacheKey, getCacheStore } from '../cache';
+import type { NodeSearchItem } from '../types';
+import type { SearchEnv, SearchOptions, SearchProviderName } from './types';
+
+// "coalesced" means the lookup joined an identical request that was already running
+export type SearchCacheStatus = "hit" | "miss" | "coalesced";
+
+const DEFAULT_TTL_SECONDS = 60 * 60;
+
+const inFlight = new Map<string, Promise<NodeSearchItem[]>>();
+
+export function getSearchCacheTtl(env: SearchEnv): number {
+  const ttl = parseInt(env.SEARCH_CACHE_TTL || "", 10);
+  return Number.isFinite(ttl) && ttl >= 0 ? ttl : DEFAULT_TTL_SECONDS;
+}
+
+export function searchCacheKey(provider: SearchProviderName, query: string, options: SearchOptions): Promise<string> {
+  return buildCacheKey("search", query, `${provider}:${options.count}:${options.freshness || "any"}:${options.safesearch}`);
+}
+
+/**
+ * Returns the results for `key` from the cache or from a matching request in flight,
+ * otherwise runs `search` and caches what it resolves with. Failures are not cached.
+ * A TTL of 0 turns caching off but keeps coalescing.
+ */
+export async function cachedSearch(
+  env: SearchEnv,
+  key: string,
+  mode: CacheMode,
+  search: () => Promise<NodeSearchItem[]>
+): Promise<{ items: NodeSearchItem[]; status: SearchCacheStatus }> {
+  const ttl = getSearchCacheTtl(env);
+  const store = getCacheStore(env);
+
+  const running = inFlight.get(key);
+  if (running) {
+    return { items: await running, status: "coalesced" };
+  }
+
+  if (ttl > 0 && mode !== "bypass") {
+    try {
+      const raw = await store.get(key);
+      if (raw) {
+        console.log(`💾 Search cache hit: ${key}`);
+        return { items: JSON.parse(raw) as NodeSearchItem[], status: "hit" };
+      }
+    } catch (error) {
+      console.warn(`⚠️ Search cache read failed for ${key}:`, error);
+    }
+    // Another lookup may have started while the cache was being read
+    const started = inFlight.get(key);
+    if (started) return { items: await started, status: "coalesced" };
+  }
+
+  const request = search();
+  inFlight.set(key, request);
+  try {
+    const items = await request;
+    if (ttl > 0) {
+      try {
+        await store.put(key, JSON.stringify(items), ttl);
+      } catch (error) {
+        console.warn(`⚠️ Search cache write failed for ${key}:`, error);
+      }
+    }
+    return { items, status: "miss" };
+  } finally {
+    inFlight.delete(key);
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * Errors raised by search providers.
+ * Each maps to the `error_type` /api/node-search answers with when every attempt fails.
+ */
+
+export type SearchErrorType = "search_timeout" | "search_upstream_error" | "search_invalid_response";
+
+export class SearchHttpError extends Error {
+  readonly errorType: SearchErrorType = "search_upstream_error";
+
+  constructor(provider: string, public readonly status: number) {
+    super(`${provider} search answered ${status}`);
+    this.name = "SearchHttpError";
+  }
+}
+
+export class SearchResponseError extends Error {
+  readonly errorType: SearchErrorType = "search_invalid_response";
+
+  constructor(provider: string, reason: string) {
+    super(`${provider} search returned an unusable response: ${reason}`);
+    this.name = "SearchResponseError";
+  }
+}
+
+export class SearchTimeoutError extends Error {
+  readonly errorType: SearchErrorType = "search_timeout";
+
+  constructor(public readonly timeoutMs: number) {
+    super(`Search timed out after ${timeoutMs}ms`);
+    this.name = "SearchTimeoutError";
+  }
+}
+
+export function searchErrorType(error: unknown): SearchErrorType {
+  if (error instanceof SearchHttpError || error instanceof SearchResponseError || error instanceof SearchTimeoutError) {
+    return error.errorType;
+  }
+  // Network failures (DNS, connection reset) surface as plain TypeErrors from fetch
+  return "search_upstream_error";
+}
@@ -0,0 +1,43 @@
+/**
+ * Offline search provider (SEARCH_PROVIDER=fixture).
+ * Answers every query with deterministic results on example.org subdomains so node
+ * search and cluster items work without network access or an API key. The number
+ * of results varies with the query so cluster weights still differ between nodes.
+ */
+
+import type { NodeSearchItem } from '../types';
+import type { SearchProvider } from './types';
+
+function hashQuery(q: string): number {
+  let hash = 0;
+  for (let i = 0; i < q.length; i++) {
+    hash = ((hash << 5) - hash + q.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash);
+}
+
+function slug(q: string): string {
+  return q.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, "-").replace(/^-+|-+$/g, "") || "topic";
+}
+
+export function fixtureResults(q: string, count: number): NodeSearchItem[] {
+  const words = q.trim().split(/\s+/);
+  // Single words are the final fallback attempt and always have results
+  const total = words.length === 1 ? count : 1 + (hashQuery(q.toLowerCase()) % count);
+  return Array.from({ length: total }, (_, i) => ({
+    title: i === 0 ? `${q} - Overview` : `${q}: ${["guide", "background", "key facts", "examples", "further reading"][(i - 1) % 5]}`,
+    url: `https://source${i + 1}.example.org/${slug(q)}`,
+    snippet: `Fixture result ${i + 1} for ${q}, served by the offline search stand-in.`,
+    favicon: "https://example.org/favicon.ico",
+  }));
+}
+
+export function createFixtureProvider(): SearchProvider {
+  return {
+    name: "fixture",
+    async search(q, { count }, signal) {
+      signal.throwIfAborted();
+      return fixtureResults(q, count);
+    },
+  };
+}
@@ -0,0 +1,29 @@
+/**
+ * Response helpers shared by the HTTP search providers.
+ */
+
+import { SearchHttpError, SearchResponseError } from './errors';
+
+export function stripHtmlTags(text: string) {
+  return (text || "")
+    .replace(/<[^>]*>/g, "") // Remove all HTML tags
+    .replace(/&nbsp;/g, " ") // Replace &nbsp; with regular space
+    .replace(/&amp;/g, "&") // Replace &amp; with &
+    .replace(/&lt;/g, "<") // Replace &lt; with <
+    .replace(/&gt;/g, ">") // Replace &gt; with >
+    .replace(/&quot;/g, '"') // Replace &quot; with "
+    .replace(/&#39;/g, "'") // Replace &#39; with '
+    .trim();
+}
+
+/** Parses a JSON body, turning non-2xx statuses and malformed JSON into search errors. */
+export async function readSearchJson(provider: string, resp: Response): Promise<any> {
+  if (!resp.ok) {
+    throw new SearchHttpError(provider, resp.status);
+  }
+  try {
+    return await resp.json();
+  } catch (error) {
+    throw new SearchResponseError(provider, error instanceof Error ? error.message : "invalid JSON");
+  }
+}
@@ -0,0 +1,109 @@
+/**
+ * Web search provider registry.
+ * Resolves the provider configured through SEARCH_PROVIDER and runs a node's
+ * query attempts against it in parallel, each with its own timeout and behind
+ * the search cache.
+ */
+
+import type { SearchEnv, SearchOptions, SearchProvider, SearchProviderName } from './types';
+import { createBraveProvider } from './brave';
+import { createSearxngProvider } from './searxng';
+import { createFixtureProvider } from './fixture';
+import { SearchErrorType, SearchTimeoutError, searchErrorType } from './errors';
+import type { AttemptResults } from './rank';
+import { SearchCacheStatus, cachedSearch, searchCacheKey } from './cache';
+import type { CacheMode } from '../cache';
+
+export type { SafeSearchLevel, SearchEnv, SearchFreshness, SearchOptions, SearchProvider, SearchProviderName } from './types';
+export type { SearchErrorType } from './errors';
+export type { SearchCacheStatus } from './cache';
+export { normalizeDomain, rankResults, searchTerms } from './rank';
+
+const PROVIDER_NAMES: SearchProviderName[] = ["brave", "searxng", "fixture"];
+const DEFAULT_TIMEOUT_MS = 5000;
+
+export type SearchAttemptError = { query: string; error_type: SearchErrorType; message: string };
+
+export interface SearchOutcome {
+  results: AttemptResults[];    // attempts that ran, including those that found nothing
+  errors: SearchAttemptError[]; // attempts that failed
+  cache: Record<string, SearchCacheStatus>; // per successful attempt
+}
+
+export function resolveSearchProviderName(env: SearchEnv): SearchProviderName | null {
+  const configured = (env.SEARCH_PROVIDER || "").trim().toLowerCase() as SearchProviderName;
+  if (PROVIDER_NAMES.includes(configured)) return configured;
+  if (configured) console.warn(`⚠️ Unknown SEARCH_PROVIDER "${env.SEARCH_PROVIDER}", using the default`);
+  return env.BRAVE_SEARCH_API ? "brave" : null;
+}
+
+/** Null when no provider is configured. */
+export function getSearchProvider(env: SearchEnv): SearchProvider | null {
+  switch (resolveSearchProviderName(env)) {
+    case "fixture":
+      return createFixtureProvider();
+    case "searxng":
+      if (!env.SEARXNG_URL) {
+        console.warn("⚠️ SEARXNG_URL not configured for the searxng search provider");
+        return null;
+      }
+      return createSearxngProvider(env.SEARXNG_URL);
+    case "brave":
+      if (!env.BRAVE_SEARCH_API) {
+        console.warn("⚠️ BRAVE_SEARCH_API not configured for the brave search provider");
+        return null;
+      }
+      return createBraveProvider(env.BRAVE_SEARCH_API);
+    default:
+      return null;
+  }
+}
+
+export function getSearchTimeout(env: SearchEnv): number {
+  const timeout = parseInt(env.SEARCH_TIMEOUT_MS || "", 10);
+  return Number.isFinite(timeout) && timeout > 0 ? timeout : DEFAULT_TIMEOUT_MS;
+}
+
+async function searchWithTimeout(provider: SearchProvider, query: string, options: SearchOptions, timeoutMs: number) {
+  const controller = new AbortController();
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timeoutId = setTimeout(() => {
+      reject(new SearchTimeoutError(timeoutMs));
+      controller.abort();
+    }, timeoutMs);
+  });
+  try {
+    return await Promise.race([provider.search(query, options, controller.signal), timeout]);
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/** Runs every attempt in parallel; the ranking stage merges whatever came back. */
+export async function runSearchAttempts(
+  env: SearchEnv,
+  provider: SearchProvider,
+  attempts: string[],
+  options: SearchOptions,
+  cacheMode: CacheMode = "default"
+): Promise<SearchOutcome> {
+  const timeoutMs = getSearchTimeout(env);
+  const settled = await Promise.allSettled(attempts.map(async query => {
+    const key = await searchCacheKey(provider.name, query, options);
+    return cachedSearch(env, key, cacheMode, () => searchWithTimeout(provider, query, options, timeoutMs));
+  }));
+
+  const outcome: SearchOutcome = { results: [], errors: [], cache: {} };
+  settled.forEach((result, priority) => {
+    const query = attempts[priority];
+    if (result.status === "fulfilled") {
+      outcome.results.push({ query, priority, items: result.value.items });
+      outcome.cache[query] = result.value.status;
+    } else {
+      const error = result.reason;
+      outcome.errors.push({ query, error_type: searchErrorType(error), message: error instanceof Error ? error.message : String(error) });
+    }
+  });
+  return outcome;
+}
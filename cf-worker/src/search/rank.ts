@@ -0,0 +1,108 @@
+/**
+ * Ranking stage for node search.
+ * Results from every query attempt are merged and de-duplicated by canonical URL,
+ * filtered by the request's domain lists, scored against the node's theme and
+ * keywords, and spread across domains before the top `count` are returned.
+ */
+
+import type { NodeSearchItem } from '../types';
+
+export type AttemptResults = {
+  query: string;
+  priority: number; // 0 for the most specific attempt
+  items: NodeSearchItem[];
+};
+
+export interface RankOptions {
+  terms: string[];          // theme and keyword terms the results should mention
+  count: number;
+  includeDomains: string[]; // when non-empty, only these domains (and their subdomains)
+  excludeDomains: string[];
+}
+
+const TRACKING_PARAMS = /^(utm_[a-z]+|fbclid|gclid|mc_cid|mc_eid|ref|ref_src)$/i;
+
+/** "https://www.BBC.co.uk/news/" -> "bbc.co.uk"; null when it is not a host name. */
+export function normalizeDomain(input: string): string | null {
+  const host = (input || "").trim().toLowerCase().replace(/^[a-z]+:\/\//, "").split(/[/?#:]/)[0].replace(/^www\./, "");
+  return /^[a-z0-9-]+(\.[a-z0-9-]+)+$/.test(host) ? host : null;
+}
+
+/** Scheme, "www.", fragments, tracking parameters and trailing slashes do not make a page different. */
+export function canonicalUrl(url: string): string | null {
+  try {
+    const parsed = new URL(url);
+    if (parsed.protocol !== "http:" && parsed.protocol !== "https:") return null;
+    const params = [...parsed.searchParams.entries()]
+      .filter(([key]) => !TRACKING_PARAMS.test(key))
+      .sort(([a], [b]) => a.localeCompare(b));
+    const query = params.length ? `?${new URLSearchParams(params)}` : "";
+    return `${parsed.hostname.toLowerCase().replace(/^www\./, "")}${parsed.pathname.replace(/\/+$/, "")}${query}`;
+  } catch {
+    return null;
+  }
+}
+
+function matchesDomain(domain: string, list: string[]): boolean {
+  return list.some(entry => domain === entry || domain.endsWith(`.${entry}`));
+}
+
+export function searchTerms(...texts: (string | undefined)[]): string[] {
+  const terms = texts.join(" ").toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(term => term.length > 2);
+  return [...new Set(terms)];
+}
+
+type Candidate = {
+  item: NodeSearchItem;
+  domain: string;
+  bestPosition: number;    // 0-1, 1 for the top result of an attempt
+  bestSpecificity: number; // 0-1, 1 for the most specific attempt
+  occurrences: number;
+};
+
+function score(candidate: Candidate, terms: string[]): number {
+  const text = `${candidate.item.title} ${candidate.item.snippet || ""}`.toLowerCase();
+  const relevance = terms.length ? terms.filter(term => text.includes(term)).length / terms.length : 0.5;
+  const agreement = Math.min(1, (candidate.occurrences - 1) / 2);
+  const total = 0.5 * relevance + 0.2 * candidate.bestPosition + 0.2 * candidate.bestSpecificity + 0.1 * agreement;
+  return Math.round(total * 100) / 100;
+}
+
+export function rankResults(attempts: AttemptResults[], options: RankOptions): NodeSearchItem[] {
+  const candidates = new Map<string, Candidate>();
+  const maxPriority = Math.max(1, ...attempts.map(a => a.priority));
+
+  for (const attempt of attempts) {
+    attempt.items.forEach((item, i) => {
+      const key = item.url ? canonicalUrl(item.url) : null;
+      const domain = item.url ? normalizeDomain(item.url) : null;
+      if (!key || !domain) return;
+      if (options.includeDomains.length && !matchesDomain(domain, options.includeDomains)) return;
+      if (matchesDomain(domain, options.excludeDomains)) return;
+
+      const position = 1 - i / attempt.items.length;
+      const specificity = 1 - attempt.priority / maxPriority;
+      const existing = candidates.get(key);
+      if (existing) {
+        existing.occurrences++;
+        existing.bestPosition = Math.max(existing.bestPosition, position);
+        existing.bestSpecificity = Math.max(existing.bestSpecificity, specificity);
+        if (!existing.item.snippet && item.snippet) existing.item = { ...existing.item, snippet: item.snippet };
+      } else {
+        candidates.set(key, { item, domain, bestPosition: position, bestSpecificity: specificity, occurrences: 1 });
+      }
+    });
+  }
+
+  const ranked = [...candidates.values()]
+    .map(candidate => ({ ...candidate, score: score(candidate, options.terms) }))
+    .sort((a, b) => b.score - a.score);
+
+  // One result per domain first; further results from a domain only fill leftover slots.
+  const seenDomains = new Set<string>();
+  const distinct = ranked.filter(c => !seenDomains.has(c.domain) && seenDomains.add(c.domain));
+  const repeats = ranked.filter(c => !distinct.includes(c));
+  return [...distinct, ...repeats]
+    .slice(0, options.count)
+    .map(({ item, domain, score }) => ({ ...item, domain, score }));
+}
@@ -0,0 +1,37 @@
+/**
+ * SearXNG-compatible provider: any instance exposing /search?format=json.
+ */
+
+import type { NodeSearchItem } from '../types';
+import type { SafeSearchLevel, SearchProvider } from './types';
+import { readSearchJson, stripHtmlTags } from './http';
+import { SearchResponseError } from './errors';
+
+const SAFESEARCH: Record<SafeSearchLevel, string> = { off: "0", moderate: "1", strict: "2" };
+
+export function createSearxngProvider(baseUrl: string): SearchProvider {
+  const endpoint = `${baseUrl.replace(/\/+$/, "")}/search`;
+  return {
+    name: "searxng",
+    async search(q, { count, freshness, safesearch }, signal) {
+      const params = new URLSearchParams({ q, format: "json", safesearch: SAFESEARCH[safesearch], language: "en" });
+      if (freshness) params.set("time_range", freshness);
+      const resp = await fetch(`${endpoint}?${params}`, {
+        method: "GET",
+        headers: { "Accept": "application/json" },
+        signal,
+      });
+      const data = await readSearchJson("SearXNG", resp);
+      if (!Array.isArray(data?.results)) throw new SearchResponseError("SearXNG", "results is not a list");
+      return data.results
+        .filter((r: any) => r?.url)
+        .slice(0, count)
+        .map((r: any): NodeSearchItem => ({
+          title: r.title || r.url,
+          url: r.url,
+          snippet: stripHtmlTags(r.content || ""),
+          favicon: null,
+        }));
+    },
+  };
+}
@@ -0,0 +1,33 @@
+/**
+ * Shared types for the pluggable web search layer behind /api/node-search
+ * and the FoamTree cluster items.
+ */
+
+import type { NodeSearchItem } from '../types';
+import type { CacheEnv } from '../cache';
+
+export type SearchProviderName = "brave" | "searxng" | "fixture";
+
+export type SearchFreshness = "day" | "week" | "month" | "year";
+export type SafeSearchLevel = "off" | "moderate" | "strict";
+
+export interface SearchOptions {
+  count: number;               // results wanted from the provider for one query
+  freshness?: SearchFreshness; // only pages from the last day/week/month/year
+  safesearch: SafeSearchLevel;
+}
+
+export interface SearchProvider {
+  readonly name: SearchProviderName;
+  // Resolves with at most `options.count` results; an empty array means the query found nothing.
+  search(query: string, options: SearchOptions, signal: AbortSignal): Promise<NodeSearchItem[]>;
+}
+
+// Search-related environment variables (kept separate to avoid circular imports).
+export type SearchEnv = CacheEnv & {
+  SEARCH_PROVIDER?: string;   // brave | searxng | fixture (default brave when BRAVE_SEARCH_API is set)
+  BRAVE_SEARCH_API?: string;  // Brave Search subscription token
+  SEARXNG_URL?: string;       // base URL of a SearXNG-compatible instance with the JSON format enabled
+  SEARCH_TIMEOUT_MS?: string; // per-attempt timeout (default 5000)
+  SEARCH_CACHE_TTL?: string;  // seconds to keep a query's results (default 3600, 0 disables)
+};
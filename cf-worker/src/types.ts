@@ -5,6 +5,7 @@ export type NodeMeta = {
   keywords?: string[]; // e.g., ["founding","republic","empire"]
   search?: string;     // optional prebuilt query
   entity?: string;     // e.g., "Rome"
+  date?: string;       // timeline events only, e.g., "27 BC"
 };
 
 export type DiagramMeta = { nodes: Record<string, NodeMeta> };
@@ -22,7 +23,15 @@ export type NodeSearchRequest = {
   theme?: Theme;
   keywords?: string[];
   search?: string;
+  date?: string;       // timeline event date, narrows results to that moment
   phrase?: string;     // visible node text (fallback)
+  // Result options
+  count?: number;                               // 1-10, default 5
+  freshness?: "day" | "week" | "month" | "year";
+  safesearch?: "off" | "moderate" | "strict";   // default moderate
+  include_domains?: string[];                   // only these domains and their subdomains
+  exclude_domains?: string[];
+  cache?: "default" | "bypass";                 // bypass skips cached results but refreshes them
 };
 
 export type NodeSearchItem = {
@@ -30,9 +39,13 @@ export type NodeSearchItem = {
   url: string;
   snippet?: string | null;
   favicon?: string | null;
+  domain?: string;     // set by the ranking stage, without "www."
+  score?: number;      // 0-1 relevance to the node's theme and keywords
 };
 
 export type NodeSearchResponse = {
   items: NodeSearchItem[];
   debug?: any;
+  error_type?: string; // set (with a user-facing detail) when the search could not run
+  detail?: string;
 };
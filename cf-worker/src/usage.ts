@@ -0,0 +1,200 @@
+/**
+ * Token usage and cost accounting for LLM calls.
+ * Handlers attach a UsageTracker to the env they pass down (see withUsageTracker);
+ * runCompletion records every successful call against it, and the handler
+ * returns the per-request summary and folds it into the daily aggregate.
+ * Daily aggregates live in the USAGE KV namespace when bound, otherwise in memory.
+ */
+
+import { CacheStore, KVCacheStore, MemoryCacheStore } from "./cache";
+
+export interface UsageEnv {
+  USAGE?: KVNamespace;
+  LLM_PRICES?: string;     // JSON price table override, USD per 1M tokens
+  USAGE_API_TOKEN?: string; // when set, GET /api/usage requires `Authorization: Bearer <token>`
+}
+
+export interface ModelPrice {
+  input: number;
+  cached_input: number;
+  output: number;
+}
+
+// USD per 1M tokens; matched against the returned model name by longest prefix.
+const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  "gpt-4.1": { input: 2.0, cached_input: 0.5, output: 8.0 },
+  "gpt-4.1-mini": { input: 0.4, cached_input: 0.1, output: 1.6 },
+  "gpt-4.1-nano": { input: 0.1, cached_input: 0.025, output: 0.4 },
+  "gpt-4o": { input: 2.5, cached_input: 1.25, output: 10.0 },
+  "gpt-4o-mini": { input: 0.15, cached_input: 0.075, output: 0.6 },
+};
+
+const DAILY_TTL_SECONDS = 60 * 60 * 24 * 90;
+
+export interface TokenCounts {
+  input_tokens: number;
+  output_tokens: number;
+  cached_tokens: number;
+  cost_usd: number;
+}
+
+export interface UsageCall extends TokenCounts {
+  stage: string;
+  model: string;
+}
+
+export interface UsageSummary extends TokenCounts {
+  request_id: string;
+  calls: UsageCall[];
+}
+
+export interface DailyUsage extends TokenCounts {
+  date: string;
+  requests: number;
+  calls: number;
+  by_route: Record<string, TokenCounts & { requests: number }>;
+  by_stage: Record<string, TokenCounts & { calls: number }>;
+  by_model: Record<string, TokenCounts & { calls: number }>;
+}
+
+function emptyCounts(): TokenCounts {
+  return { input_tokens: 0, output_tokens: 0, cached_tokens: 0, cost_usd: 0 };
+}
+
+function addCounts<T extends TokenCounts>(target: T, source: TokenCounts): T {
+  target.input_tokens += source.input_tokens;
+  target.output_tokens += source.output_tokens;
+  target.cached_tokens += source.cached_tokens;
+  target.cost_usd = roundCost(target.cost_usd + source.cost_usd);
+  return target;
+}
+
+function roundCost(value: number): number {
+  return Math.round(value * 1e6) / 1e6;
+}
+
+/**
+ * Accepts both Chat Completions (prompt/completion tokens) and Responses API
+ * (input/output tokens) usage shapes.
+ */
+export function normalizeUsage(raw: any): Omit<TokenCounts, "cost_usd"> {
+  return {
+    input_tokens: Number(raw?.input_tokens ?? raw?.prompt_tokens ?? 0) || 0,
+    output_tokens: Number(raw?.output_tokens ?? raw?.completion_tokens ?? 0) || 0,
+    cached_tokens: Number(raw?.input_tokens_details?.cached_tokens ?? raw?.prompt_tokens_details?.cached_tokens ?? 0) || 0,
+  };
+}
+
+export function getPriceTable(env: UsageEnv): Record<string, ModelPrice> {
+  if (!env.LLM_PRICES) return DEFAULT_PRICES;
+  try {
+    return { ...DEFAULT_PRICES, ...JSON.parse(env.LLM_PRICES) };
+  } catch (error) {
+    console.warn("⚠️ Invalid LLM_PRICES, using default price table:", error);
+    return DEFAULT_PRICES;
+  }
+}
+
+export function priceFor(model: string, prices: Record<string, ModelPrice>): ModelPrice | null {
+  const match = Object.keys(prices)
+    .filter(key => model === key || model.startsWith(`${key}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  return match ? prices[match] : null;
+}
+
+export function computeCost(counts: Omit<TokenCounts, "cost_usd">, price: ModelPrice | null): number {
+  if (!price) return 0;
+  const uncached = Math.max(0, counts.input_tokens - counts.cached_tokens);
+  return roundCost((uncached * price.input + counts.cached_tokens * price.cached_input + counts.output_tokens * price.output) / 1e6);
+}
+
+export class UsageTracker {
+  private calls: UsageCall[] = [];
+
+  constructor(private requestId: string, private prices: Record<string, ModelPrice>) {}
+
+  record(stage: string, model: string, rawUsage: any): UsageCall {
+    const counts = normalizeUsage(rawUsage);
+    const call: UsageCall = { stage, model, ...counts, cost_usd: computeCost(counts, priceFor(model, this.prices)) };
+    this.calls.push(call);
+    return call;
+  }
+
+  summary(): UsageSummary {
+    const totals = this.calls.reduce((acc, call) => addCounts(acc, call), emptyCounts());
+    return { request_id: this.requestId, ...totals, calls: [...this.calls] };
+  }
+}
+
+export function createUsageTracker(requestId: string, env: UsageEnv): UsageTracker {
+  return new UsageTracker(requestId, getPriceTable(env));
+}
+
+/**
+ * Returns a copy of env carrying the tracker, so generators record usage without
+ * any signature changes.
+ */
+export function withUsageTracker<E extends object>(env: E, tracker: UsageTracker): E & { usage: UsageTracker } {
+  return { ...env, usage: tracker };
+}
+
+const memoryStore = new MemoryCacheStore(120);
+
+function getStore(env: UsageEnv): CacheStore {
+  return env.USAGE ? new KVCacheStore(env.USAGE) : memoryStore;
+}
+
+function dailyKey(date: string): string {
+  return `usage:daily:${date}`;
+}
+
+export function emptyDailyUsage(date: string): DailyUsage {
+  return { date, requests: 0, calls: 0, ...emptyCounts(), by_route: {}, by_stage: {}, by_model: {} };
+}
+
+export async function readDailyUsage(env: UsageEnv, date: string): Promise<DailyUsage> {
+  try {
+    const raw = await getStore(env).get(dailyKey(date));
+    return raw ? JSON.parse(raw) as DailyUsage : emptyDailyUsage(date);
+  } catch (error) {
+    console.warn(`⚠️ Usage read failed for ${date}:`, error);
+    return emptyDailyUsage(date);
+  }
+}
+
+/**
+ * Folds a request summary into today's aggregate. Read-modify-write, so concurrent
+ * requests on KV may occasionally drop an update; fine for a cost overview.
+ */
+export async function recordDailyUsage(env: UsageEnv, route: string, summary: UsageSummary, now = Date.now()): Promise<void> {
+  const date = new Date(now).toISOString().slice(0, 10);
+  const daily = await readDailyUsage(env, date);
+
+  daily.requests += 1;
+  daily.calls += summary.calls.length;
+  addCounts(daily, summary);
+  daily.by_route[route] = addCounts(daily.by_route[route] || { requests: 0, ...emptyCounts() }, summary);
+  daily.by_route[route].requests += 1;
+  for (const call of summary.calls) {
+    daily.by_stage[call.stage] = addCounts(daily.by_stage[call.stage] || { calls: 0, ...emptyCounts() }, call);
+    daily.by_stage[call.stage].calls += 1;
+    daily.by_model[call.model] = addCounts(daily.by_model[call.model] || { calls: 0, ...emptyCounts() }, call);
+    daily.by_model[call.model].calls += 1;
+  }
+
+  try {
+    await getStore(env).put(dailyKey(date), JSON.stringify(daily), DAILY_TTL_SECONDS);
+  } catch (error) {
+    console.warn(`⚠️ Usage write failed for ${date}:`, error);
+  }
+}
+
+/**
+ * Summarizes the request's usage, logs it, and adds it to the daily aggregate.
+ */
+export async function finishUsage(env: UsageEnv, route: string, tracker: UsageTracker): Promise<UsageSummary> {
+  const summary = tracker.summary();
+  console.log(`💰 [${summary.request_id}] ${route} usage: ${summary.input_tokens} in / ${summary.output_tokens} out / ${summary.cached_tokens} cached, $${summary.cost_usd.toFixed(6)} across ${summary.calls.length} calls`);
+  await recordDailyUsage(env, route, summary);
+  return summary;
+}
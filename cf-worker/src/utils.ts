@@ -1,3 +1,5 @@
+import type { DiagramType } from './diagram-types';
+
 export function json(data: unknown, status = 200, headers: Record<string, string> = {}): Response {
   return new Response(JSON.stringify(data), {
     status,
@@ -9,6 +11,43 @@ export function toMessage(err: unknown): string {
   return err instanceof Error ? err.message : String(err);
 }
 
+export type EventStream = {
+  response: Response;
+  send: (event: string, data: unknown) => Promise<void>;
+  close: () => Promise<void>;
+};
+
+/**
+ * Server-Sent Events helper. Returns the streaming Response immediately;
+ * callers must write events without awaiting before the Response is returned.
+ */
+export function createEventStream(headers: Record<string, string> = {}): EventStream {
+  const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+  const writer = writable.getWriter();
+  const encoder = new TextEncoder();
+  let closed = false;
+
+  return {
+    response: new Response(readable, {
+      status: 200,
+      headers: {
+        "content-type": "text/event-stream",
+        "cache-control": "no-cache",
+        ...headers,
+      },
+    }),
+    async send(event: string, data: unknown) {
+      if (closed) return;
+      await writer.write(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+    },
+    async close() {
+      if (closed) return;
+      closed = true;
+      await writer.close().catch(() => {});
+    },
+  };
+}
+
 export function sanitizeMermaid(input: string): string {
   const startTime = performance.now();
   const sanitizeId = `sanitize_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`;
@@ -35,10 +74,16 @@ export function sanitizeMermaid(input: string): string {
   const step2Start = performance.now();
   text = removeMarkdownFences(text);
   text = decodeHtmlEntities(text);
-  text = sanitizeSpecialChars(text);
+  // Chart data lines hold quoted labels, bracketed lists and decimals that the label fixes would break
+  const isChart = isChartDiagram(text);
+  if (!isChart) {
+    text = sanitizeSpecialChars(text);
+  }
   text = normalizeUnicode(text);
   text = fixLineBreaks(text);
   text = fixFlowchartSpacing(text);
+  text = fixTimelineLines(text);
+  text = fixStateLines(text);
   const step2Time = performance.now() - step2Start;
   console.log(`⏱️  [${sanitizeId}] Step 2 (basic sanitization): ${step2Time.toFixed(2)}ms`);
   
@@ -46,7 +91,7 @@ export function sanitizeMermaid(input: string): string {
   const step3Start = performance.now();
   const fixedLines: string[] = [];
   for (const line of text.split('\n')) {
-    if (line.includes('###MERMAID_INIT_BLOCK_PLACEHOLDER###')) {
+    if (line.includes('###MERMAID_INIT_BLOCK_PLACEHOLDER###') || isChart) {
       fixedLines.push(line);
     } else {
       fixedLines.push(processLine(line));
@@ -261,6 +306,66 @@ function fixFlowchartSpacing(text: string): string {
   return fixedLines.join('\n');
 }
 
+/**
+ * Timeline syntax is line based: `title`, `section`, and `period : event : event`.
+ * Normalizes event separators and drops characters and stray lines the timeline parser rejects.
+ */
+function fixTimelineLines(text: string): string {
+  const lines = text.split('\n');
+  const headerIndex = lines.findIndex(line => {
+    const stripped = line.trim();
+    return stripped && !stripped.startsWith('%%') && !stripped.includes('###MERMAID_INIT_BLOCK_PLACEHOLDER###');
+  });
+  if (headerIndex === -1 || lines[headerIndex].trim() !== 'timeline') return text;
+
+  const fixedLines = lines.slice(0, headerIndex + 1);
+  for (const line of lines.slice(headerIndex + 1)) {
+    const stripped = line.trim().replace(/^[-*]\s+/, '');
+    if (!stripped || stripped.startsWith('%%')) {
+      fixedLines.push(line);
+      continue;
+    }
+    if (/^(title|section)\s/i.test(stripped)) {
+      fixedLines.push('    ' + stripped.replace(/["#]/g, '').replace(/:/g, ' -'));
+      continue;
+    }
+    if (!stripped.includes(':')) continue; // not an event; would break the parser
+
+    const parts = stripped.split(':').map(part => part.replace(/["#]/g, '').trim());
+    const [period, ...events] = parts;
+    const kept = events.filter(Boolean);
+    if (!kept.length) continue;
+    fixedLines.push(period ? `    ${period} : ${kept.join(' : ')}` : `        : ${kept.join(' : ')}`);
+  }
+  return fixedLines.join('\n');
+}
+
+/**
+ * State transitions are `From --> To : trigger`; the trigger ends at a second colon.
+ * Normalizes single-dash arrows and keeps only the first colon on transition lines.
+ */
+function fixStateLines(text: string): string {
+  const lines = text.split('\n');
+  const headerIndex = lines.findIndex(line => {
+    const stripped = line.trim();
+    return stripped && !stripped.startsWith('%%') && !stripped.includes('###MERMAID_INIT_BLOCK_PLACEHOLDER###');
+  });
+  if (headerIndex === -1 || !/^stateDiagram(-v2)?$/.test(lines[headerIndex].trim())) return text;
+
+  return lines.map((line, i) => {
+    if (i <= headerIndex || !/(-->|\s->\s)/.test(line)) return line;
+    const fixed = line.replace(/\s->\s/, ' --> ');
+    const colon = fixed.indexOf(':');
+    if (colon === -1) return fixed;
+    return fixed.slice(0, colon + 1) + fixed.slice(colon + 1).replace(/:/g, ' -');
+  }).join('\n');
+}
+
+function isChartDiagram(text: string): boolean {
+  const header = text.split('\n').map(line => line.trim()).find(line => line && !line.startsWith('%%') && !line.includes('###MERMAID_INIT_BLOCK_PLACEHOLDER###'));
+  return !!header && /^(pie|xychart-beta)\b/.test(header);
+}
+
 function processLine(line: string): string {
   const stripped = line.trim();
   
@@ -342,11 +447,14 @@ export function safeParseJSON<T extends Record<string, unknown>>(raw: string, re
   }
 }
 
-export function normalizeDiagramType(t: string): "flowchart" | "radial_mindmap" | "sequence_comparison" {
+export function normalizeDiagramType(t: string): DiagramType {
   const v = (t || "").toLowerCase();
   if (["flowchart", "graph"].includes(v)) return "flowchart";
   if (["radial_mindmap", "mindmap", "radial"].includes(v)) return "radial_mindmap";
   if (["sequence_comparison", "sequence"].includes(v)) return "sequence_comparison";
+  if (["timeline", "chronology", "history"].includes(v)) return "timeline";
+  if (["quantitative_chart", "chart", "pie", "bar", "xychart"].includes(v)) return "quantitative_chart";
+  if (["state_diagram", "state", "statediagram", "lifecycle"].includes(v)) return "state_diagram";
   return "flowchart";
 }
 